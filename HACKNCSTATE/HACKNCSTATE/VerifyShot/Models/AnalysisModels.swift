@@ -30,7 +30,7 @@ struct Source: Codable, Identifiable {
     let title: String
     let url: String
     let domain: String
-    let date: String
+    let date: String?            // YYYY-MM-DD; null when the page shows no reliable date
     let credibilityScore: Double
     let snippet: String
 }
@@ -43,17 +43,12 @@ struct BiasSignals: Codable {
     // New fields for multi-perspective bias detection
     let confidence: Double?      // 0-1 (inverse of std dev)
     let agreement: String?      // "high"|"medium"|"low"
-    let perspectives: BiasPerspectives?
+    let perspectives: [String: BiasPerspective]?  // keyed by perspective id ("us-left", "eu", …)
     let keySignals: [String]?
 }
 
-struct BiasPerspectives: Codable {
-    let usLeft: BiasPerspective
-    let usRight: BiasPerspective
-    let international: BiasPerspective
-}
-
 struct BiasPerspective: Codable {
+    let label: String?           // e.g. "US Left", "EU", "Public Health"
     let bias: Double
     let sensationalism: Double
     let consensus: Double
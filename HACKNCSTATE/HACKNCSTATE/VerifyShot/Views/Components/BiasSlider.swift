@@ -228,7 +228,7 @@ struct BiasSlider: View {
                 .fixedSize(horizontal: false, vertical: true)
             
             // Expandable Multi-Perspective Breakdown
-            if let perspectives = bias.perspectives {
+            if let perspectives = bias.perspectives, !perspectives.isEmpty {
                 Button(action: { withAnimation { showDetails.toggle() } }) {
                     HStack {
                         Text("Multi-Perspective Breakdown")
@@ -243,9 +243,9 @@ struct BiasSlider: View {
                 
                 if showDetails {
                     VStack(alignment: .leading, spacing: 12) {
-                        perspectiveRow("US Left", perspectives.usLeft, .blue)
-                        perspectiveRow("US Right", perspectives.usRight, .red)
-                        perspectiveRow("International", perspectives.international, .purple)
+                        ForEach(orderedPerspectives(perspectives), id: \.key) { entry in
+                            perspectiveRow(entry.value.label ?? entry.key, entry.value, perspectiveColor(entry.key))
+                        }
                     }
                     .padding(.vertical, 8)
                     .padding(.horizontal, 12)
@@ -322,6 +322,24 @@ struct BiasSlider: View {
         .padding(.vertical, 4)
     }
 
+    // The default trio first, in its usual order; any other perspectives after them by id
+    private func orderedPerspectives(_ perspectives: [String: BiasPerspective]) -> [(key: String, value: BiasPerspective)] {
+        let defaults = ["us-left", "us-right", "international"]
+        return perspectives.sorted { a, b in
+            let ia = defaults.firstIndex(of: a.key) ?? defaults.count
+            let ib = defaults.firstIndex(of: b.key) ?? defaults.count
+            return ia != ib ? ia < ib : a.key < b.key
+        }
+    }
+
+    private func perspectiveColor(_ id: String) -> Color {
+        switch id {
+        case "us-left": return .blue
+        case "us-right": return .red
+        default: return .purple
+        }
+    }
+
     private func perspectiveIcon(_ label: String) -> String {
         switch label {
         case "US Left": return "arrow.left.circle"
@@ -30,7 +30,7 @@ struct Source: Codable, Identifiable {
     let title: String
     let url: String
     let domain: String
-    let date: String
+    let date: String?            // YYYY-MM-DD; null when the page shows no reliable date
     let credibilityScore: Double
     let snippet: String
 }
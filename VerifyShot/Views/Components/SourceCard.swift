@@ -29,7 +29,7 @@ struct SourceCard: View {
 
     private var dateLabel: String {
         // Simple relative date
-        let d = source.date
+        guard let d = source.date else { return "Undated" }
         if d.count >= 10 {
             return String(d.prefix(10))
         }
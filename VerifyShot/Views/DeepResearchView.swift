@@ -400,16 +400,18 @@ struct DeepResearchView: View {
     private func generateTimeline(_ result: AnalysisResult) -> [TimelineEvent] {
         var events: [TimelineEvent] = []
 
-        // Add source dates as events
-        let allSources = result.claims.flatMap(\.sources)
-        let sortedSources = allSources.sorted { $0.date < $1.date }
+        // Add source dates as events (undated sources have no place on it)
+        let datedSources = result.claims.flatMap(\.sources).compactMap { source in
+            source.date.map { (source: source, date: $0) }
+        }
+        let sortedSources = datedSources.sorted { $0.date < $1.date }
 
         // Deduplicate by domain
         var seenDomains = Set<String>()
-        for source in sortedSources {
+        for (source, date) in sortedSources {
             if !seenDomains.contains(source.domain) {
                 seenDomains.insert(source.domain)
-                let dateStr = formatSourceDate(source.date)
+                let dateStr = formatSourceDate(date)
                 events.append(TimelineEvent(
                     date: dateStr,
                     title: source.title,
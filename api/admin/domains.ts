@@ -0,0 +1,102 @@
+// /api/admin/domains — reviewed overrides for the domain credibility registry
+// Auth: Authorization: Bearer $ADMIN_API_TOKEN (503 when the token is not configured)
+//   GET                  → { version, overrides }
+//   GET ?domain=x.com    → the effective entry for x.com (DomainInfo)
+//   POST { domain, reviewedBy, reason, score?, category?, country?, notes? } → upsert
+//   DELETE ?domain=x.com → remove the override
+// Permanent changes belong in config/domains.json; overrides are for
+// corrections that can't wait for a release.
+
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { timingSafeEqual } from "crypto";
+import {
+  DOMAIN_CATEGORIES,
+  deleteDomainOverride,
+  listDomainOverrides,
+  lookupDomain,
+  normalizeDomain,
+  refreshDomainOverrides,
+  registryVersion,
+  saveDomainOverride,
+} from "../../lib/domainRegistry";
+import { DomainCategory } from "../../lib/types";
+
+function isAuthorized(req: VercelRequest, token: string): boolean {
+  const header = req.headers.authorization || "";
+  const presented = Buffer.from(header.replace(/^Bearer\s+/i, ""));
+  const expected = Buffer.from(token);
+  return presented.length === expected.length && timingSafeEqual(presented, expected);
+}
+
+function isDomain(value: unknown): value is string {
+  return typeof value === "string" && /^[a-z0-9-]+(\.[a-z0-9-]+)+$/i.test(normalizeDomain(value));
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Methods", "GET,POST,DELETE,OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+
+  if (req.method === "OPTIONS") return res.status(200).end();
+
+  const token = process.env.ADMIN_API_TOKEN;
+  if (!token) return res.status(503).json({ error: "ADMIN_API_TOKEN is not configured" });
+  if (!isAuthorized(req, token)) return res.status(401).json({ error: "Unauthorized" });
+
+  try {
+    const domainParam = typeof req.query.domain === "string" ? req.query.domain : undefined;
+
+    if (req.method === "GET") {
+      if (domainParam) {
+        await refreshDomainOverrides(true);
+        return res.status(200).json(lookupDomain(domainParam));
+      }
+      return res.status(200).json({ version: registryVersion(), overrides: await listDomainOverrides() });
+    }
+
+    if (req.method === "POST") {
+      const { domain, reviewedBy, reason, score, category, country, notes } = req.body ?? {};
+      if (!isDomain(domain)) return res.status(400).json({ error: "domain must be a hostname like example.com" });
+      if (typeof reviewedBy !== "string" || !reviewedBy.trim()) {
+        return res.status(400).json({ error: "reviewedBy is required" });
+      }
+      if (typeof reason !== "string" || !reason.trim()) {
+        return res.status(400).json({ error: "reason is required" });
+      }
+      if (score !== undefined && (typeof score !== "number" || score < 0 || score > 1)) {
+        return res.status(400).json({ error: "score must be a number between 0 and 1" });
+      }
+      if (category !== undefined && !DOMAIN_CATEGORIES.includes(category)) {
+        return res.status(400).json({ error: `category must be one of: ${DOMAIN_CATEGORIES.join(", ")}` });
+      }
+      if (score === undefined && category === undefined && country === undefined && notes === undefined) {
+        return res.status(400).json({ error: "Provide at least one of score, category, country, notes" });
+      }
+
+      const override = await saveDomainOverride({
+        domain,
+        reviewedBy: reviewedBy.trim(),
+        reason: reason.trim(),
+        ...(score !== undefined ? { score } : {}),
+        ...(category !== undefined ? { category: category as DomainCategory } : {}),
+        ...(typeof country === "string" ? { country: country.toUpperCase() } : {}),
+        ...(typeof notes === "string" ? { notes } : {}),
+      });
+      console.log(`[/api/admin/domains] ${override.domain} overridden by ${override.reviewedBy}: ${override.reason}`);
+      return res.status(200).json({ override, effective: lookupDomain(override.domain) });
+    }
+
+    if (req.method === "DELETE") {
+      if (!isDomain(domainParam)) return res.status(400).json({ error: "?domain= is required" });
+      const removed = await deleteDomainOverride(domainParam);
+      if (!removed) return res.status(404).json({ error: "No override for that domain" });
+      console.log(`[/api/admin/domains] Override for ${normalizeDomain(domainParam)} removed`);
+      return res.status(200).json({ removed: normalizeDomain(domainParam), effective: lookupDomain(domainParam) });
+    }
+
+    return res.status(405).json({ error: "Method not allowed" });
+  } catch (err: any) {
+    console.error("[/api/admin/domains] Error:", err.message);
+    return res.status(500).json({ error: err.message });
+  }
+}
@@ -1,32 +1,161 @@
 // POST /api/analyze
-// Accepts: { imageUrl: string } OR { image: "<base64>" }
-// Returns: full AnalysisResult JSON
+// Accepts: { imageUrl: string } OR { image: "<base64>" }, plus optional async: true
+//          (or ?async=1)
+//          OR { images: [...] } — a thread or scrolling capture as several screenshots,
+//          in reading order; each entry is a URL, { imageUrl } or { image, filename? }.
+//          Up to MAX_IMAGES; the result lists them as images and each claim's sourceImages
+// Cache:   repeated screenshots return the cached result (cached: true, cachedAt).
+//          bypassCache: true (or ?refresh=1, or Cache-Control: no-cache) forces a fresh run;
+//          maxAge: <seconds> (or ?maxAge=) only accepts results younger than that
+// Scoring: profile: "science" (or ?profile=) picks a trust-score profile from
+//          config/scoreProfiles.json; the result records it as scoreProfile
+// Bias:    perspectives: ["eu", "uk"] (or ?perspectives=eu,uk) picks the bias lenses from
+//          config/perspectives.json; otherwise locale: "en-GB" (or ?locale=, or the
+//          Accept-Language header) picks the set for the user's locale
+// Returns: full AnalysisResult JSON; previouslySeen lists earlier analyses of the same
+//          image, even cropped, resized or re-encoded (matched by perceptual hash)
+//          async mode → 202 { jobId, status, pollUrl } right away; poll /api/job/[id]
 
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { put } from "@vercel/blob";
 import { v4 as uuidv4 } from "uuid";
-import { analyzeImage } from "../lib/analyzer";
+import { analyzeImages, runAnalysisJob, withAnalysisTimeout, AnalyzeOptions } from "../lib/analyzer";
+import { MAX_IMAGES } from "../lib/multiImage";
+import { createJob, startJob } from "../lib/jobStore";
+import { getLLMProvider } from "../lib/llmProvider";
+import { getScoreProfiles, hasScoreProfile } from "../lib/scoreProfiles";
+import { getPerspectiveRegistry, MAX_PERSPECTIVES, unknownPerspectives } from "../lib/perspectives";
 
 export const maxDuration = 60; // Vercel function timeout
 
+function cacheOptions(req: VercelRequest): AnalyzeOptions {
+  const cacheControl = String(req.headers["cache-control"] || "");
+  const bypassCache =
+    req.body?.bypassCache === true ||
+    req.query.refresh === "1" || req.query.refresh === "true" ||
+    /no-cache|no-store/.test(cacheControl);
+
+  const rawMaxAge = req.body?.maxAge ?? req.query.maxAge;
+  const maxAge = typeof rawMaxAge === "number" ? rawMaxAge : parseInt(String(rawMaxAge ?? ""), 10);
+  return {
+    bypassCache,
+    ...(Number.isFinite(maxAge) && maxAge >= 0 ? { cacheMaxAgeSeconds: maxAge } : {}),
+  };
+}
+
+function perspectiveOptions(req: VercelRequest): Pick<AnalyzeOptions, "perspectives" | "locale"> {
+  const raw = req.body?.perspectives ?? req.query.perspectives;
+  const perspectives = (Array.isArray(raw) ? raw : String(raw ?? "").split(","))
+    .map((id) => String(id).trim())
+    .filter(Boolean);
+  const locale = req.body?.locale ?? req.query.locale ?? req.headers["accept-language"];
+  return {
+    ...(perspectives.length > 0 ? { perspectives } : {}),
+    ...(typeof locale === "string" && locale ? { locale } : {}),
+  };
+}
+
+interface ImageInput {
+  imageUrl?: string;
+  image?: string;              // base64
+  filename?: string;
+}
+
+// images[] entries: "https://…", "<base64>", { imageUrl } or { image, filename }
+function imageInputs(body: any): ImageInput[] {
+  if (!Array.isArray(body?.images)) {
+    const { imageUrl, image, filename } = body ?? {};
+    return imageUrl || image ? [{ imageUrl, image, filename }] : [];
+  }
+  return body.images.map((entry: any): ImageInput =>
+    typeof entry === "string"
+      ? /^https?:\/\//i.test(entry) ? { imageUrl: entry } : { image: entry }
+      : { imageUrl: entry?.imageUrl, image: entry?.image, filename: entry?.filename }
+  );
+}
+
+type UploadOutcome = { imageUrl: string } | { status: number; error: string; hint: string };
+
+// Base64 screenshots go to Vercel Blob so the pipeline (and the job) can refer to them by URL
+async function uploadBase64(image: string, filename: string | undefined, blobToken: string): Promise<UploadOutcome> {
+  console.log(`[/api/analyze] Base64 length: ${image.length} chars`);
+  console.log(`[/api/analyze] Uploading base64 image to blob…`);
+
+  let buffer: Buffer;
+  try {
+    buffer = Buffer.from(image, "base64");
+    console.log(`[/api/analyze] Buffer size: ${buffer.length} bytes (${(buffer.length / 1024 / 1024).toFixed(2)} MB)`);
+  } catch (e: any) {
+    return { status: 400, error: "Invalid base64 image data", hint: "Image may be corrupted or too large" };
+  }
+
+  const name = filename || `screenshot-${Date.now()}.jpg`;
+  try {
+    const blob = await put(name, buffer, {
+      access: "public",
+      token: blobToken,
+    });
+    console.log(`[/api/analyze] Uploaded to blob: ${blob.url}`);
+    return { imageUrl: blob.url };
+  } catch (e: any) {
+    console.error(`[/api/analyze] Blob upload failed:`, e.message);
+    return {
+      status: 500,
+      error: `Failed to upload image: ${e.message}`,
+      hint: "Image may be too large or blob storage unavailable",
+    };
+  }
+}
+
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   // CORS
   res.setHeader("Access-Control-Allow-Origin", "*");
   res.setHeader("Access-Control-Allow-Methods", "GET,POST,OPTIONS");
-  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Cache-Control, Accept-Language");
 
   if (req.method === "OPTIONS") return res.status(200).end();
   if (req.method !== "POST") return res.status(405).json({ error: "Method not allowed" });
 
   try {
-    let { imageUrl, image, filename } = req.body ?? {};
+    const asyncMode = req.body?.async === true || req.query.async === "1" || req.query.async === "true";
+    const rawProfile = req.body?.profile ?? req.query.profile;
+    const profile = typeof rawProfile === "string" && rawProfile ? rawProfile : undefined;
+    if (profile !== undefined && !hasScoreProfile(profile)) {
+      return res.status(400).json({
+        error: `Unknown score profile "${profile}"`,
+        hint: `Available profiles: ${Object.keys(getScoreProfiles().profiles).join(", ")}`,
+      });
+    }
+    const bias = perspectiveOptions(req);
+    const unknown = unknownPerspectives(bias.perspectives ?? []);
+    if (unknown.length > 0 || (bias.perspectives?.length ?? 0) > MAX_PERSPECTIVES) {
+      return res.status(400).json({
+        error: unknown.length > 0
+          ? `Unknown bias perspective(s): ${unknown.join(", ")}`
+          : `At most ${MAX_PERSPECTIVES} bias perspectives per request`,
+        hint: `Available perspectives: ${Object.keys(getPerspectiveRegistry().perspectives).join(", ")}`,
+      });
+    }
+    const options: AnalyzeOptions = { ...cacheOptions(req), ...(profile ? { profile } : {}), ...bias };
     const jobId = uuidv4();
 
     console.log(`[/api/analyze] Job ${jobId} — received request`);
-    console.log(`[/api/analyze] Has imageUrl: ${!!imageUrl}, Has base64 image: ${!!image}`);
+    const inputs = imageInputs(req.body);
+    console.log(`[/api/analyze] ${inputs.length} image(s): ${inputs.filter(i => i.imageUrl).length} URL(s), ${inputs.filter(i => !i.imageUrl && i.image).length} base64`);
+    if (inputs.length === 0 || inputs.some(i => !i.imageUrl && !i.image)) {
+      return res.status(400).json({ error: "imageUrl, image (base64) or images[] required" });
+    }
+    if (inputs.length > MAX_IMAGES) {
+      return res.status(400).json({ error: `At most ${MAX_IMAGES} images per request` });
+    }
 
-    // If base64 image provided, upload to Vercel Blob
-    if (!imageUrl && image) {
+    // If base64 images are provided, upload them to Vercel Blob
+    const imageUrls: string[] = [];
+    for (const input of inputs) {
+      if (input.imageUrl) {
+        imageUrls.push(input.imageUrl);
+        continue;
+      }
       const blobToken = process.env.BLOB_READ_WRITE_TOKEN;
       if (!blobToken) {
         return res.status(500).json({
@@ -34,47 +163,19 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           hint: "Set BLOB_READ_WRITE_TOKEN in Vercel → Settings → Environment Variables",
         });
       }
-
-      console.log(`[/api/analyze] Base64 length: ${(image as string).length} chars`);
-      console.log(`[/api/analyze] Uploading base64 image to blob…`);
-      
-      let buffer: Buffer;
-      try {
-        buffer = Buffer.from(image, "base64");
-        console.log(`[/api/analyze] Buffer size: ${buffer.length} bytes (${(buffer.length / 1024 / 1024).toFixed(2)} MB)`);
-      } catch (e: any) {
-        return res.status(400).json({
-          error: "Invalid base64 image data",
-          hint: "Image may be corrupted or too large",
-        });
-      }
-
-      const name = filename || `screenshot-${Date.now()}.jpg`;
-      let blob;
-      try {
-        blob = await put(name, buffer, {
-          access: "public",
-          token: blobToken,
-        });
-        imageUrl = blob.url;
-        console.log(`[/api/analyze] Uploaded to blob: ${imageUrl}`);
-      } catch (e: any) {
-        console.error(`[/api/analyze] Blob upload failed:`, e.message);
-        return res.status(500).json({
-          error: `Failed to upload image: ${e.message}`,
-          hint: "Image may be too large or blob storage unavailable",
-        });
+      const uploaded = await uploadBase64(input.image!, input.filename, blobToken);
+      if (!("imageUrl" in uploaded)) {
+        return res.status(uploaded.status).json({ error: uploaded.error, hint: uploaded.hint });
       }
+      imageUrls.push(uploaded.imageUrl);
     }
 
-    if (!imageUrl) {
-      return res.status(400).json({ error: "imageUrl or image (base64) required" });
-    }
+    const imageUrl = imageUrls[0];
 
     // Verify required env vars before starting
     const missingVars: string[] = [];
     if (!process.env.GEMINI_API_KEY) missingVars.push("GEMINI_API_KEY");
-    if (!process.env.BACKBOARD_API_KEY) missingVars.push("BACKBOARD_API_KEY");
+    if (!getLLMProvider().isConfigured()) missingVars.push("BACKBOARD_API_KEY");
     if (!process.env.BLOB_READ_WRITE_TOKEN) missingVars.push("BLOB_READ_WRITE_TOKEN");
 
     if (missingVars.length > 0) {
@@ -84,17 +185,27 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       });
     }
 
-    console.log(`[/api/analyze] Starting analysis for image: ${imageUrl}`);
+    console.log(`[/api/analyze] Starting analysis for image(s): ${imageUrls.join(", ")}`);
+
+    if (asyncMode) {
+      await createJob(jobId, imageUrl, imageUrls);
+      await startJob(jobId);
+      res.status(202).json({
+        jobId,
+        status: "processing",
+        imageUrl,
+        ...(imageUrls.length > 1 ? { imageUrls } : {}),
+        pollUrl: `/api/job/${jobId}`,
+      });
+      // Response is already sent — keep the function alive until the job settles
+      await runAnalysisJob(jobId, imageUrls, options);
+      return;
+    }
     
     // Run full analysis with timeout protection
-    const result = await Promise.race([
-      analyzeImage(imageUrl, jobId),
-      new Promise<never>((_, reject) => 
-        setTimeout(() => reject(new Error("Analysis timed out after 55 seconds")), 55000)
-      ),
-    ]);
+    const result = await withAnalysisTimeout((signal) => analyzeImages(imageUrls, jobId, undefined, { ...options, signal }));
     
-    console.log(`[/api/analyze] Job ${jobId} — complete ✅`);
+    console.log(`[/api/analyze] Job ${jobId} — complete ✅${result.cached ? " (cached)" : ""}`);
     return res.status(200).json(result);
   } catch (err: any) {
     console.error("[/api/analyze] Error:", err.message);
@@ -3,7 +3,8 @@
 // Returns: { reply: string }
 
 import type { VercelRequest, VercelResponse } from "@vercel/node";
-import { chatAboutJob } from "../lib/backboardHttp";
+import { chatAboutJob } from "../lib/agents";
+import { getLLMProvider } from "../lib/llmProvider";
 
 // Increase timeout for deep research mode (can take longer with tool calls)
 export const maxDuration = 120; // 2 minutes for deep research
@@ -24,7 +25,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(400).json({ error: "message is required" });
     }
 
-    if (!process.env.BACKBOARD_API_KEY) {
+    if (!getLLMProvider().isConfigured()) {
       return res.status(500).json({
         error: "Server misconfigured: BACKBOARD_API_KEY not set",
       });
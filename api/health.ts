@@ -2,6 +2,7 @@
 // Shows which env vars are set (without revealing values)
 
 import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { registryVersion } from "../lib/domainRegistry";
 
 export default function handler(req: VercelRequest, res: VercelResponse) {
   try {
@@ -45,6 +46,10 @@ export default function handler(req: VercelRequest, res: VercelResponse) {
       },
       missingRequired: missingRequired.length > 0 ? missingRequired : undefined,
       searchProvider: "Perplexity AI via Backboard.io (primary), Google Custom Search (optional fallback)",
+      llmProvider: (process.env.LLM_PROVIDER || "backboard").toLowerCase(),
+      // Which job store backend async jobs use (memory is per-instance only)
+      jobStore: (process.env.JOB_STORE || (process.env.REDIS_URL ? "redis" : "memory")).toLowerCase(),
+      domainRegistry: registryVersion(),
       message: allRequired
         ? "All required environment variables are set. ✅ Web search uses Perplexity AI (no Google keys needed)."
         : `Missing required env vars: ${missingRequired.join(", ")}. Set these in Vercel → Settings → Environment Variables.`,
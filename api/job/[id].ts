@@ -15,7 +15,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(400).json({ error: 'Job ID is required' });
     }
 
-    const jobStatus = getJobStatus(id);
+    const jobStatus = await getJobStatus(id);
 
     if (!jobStatus) {
       return res.status(404).json({ error: 'Job not found' });
@@ -0,0 +1,51 @@
+// POST /api/job/[id]/start - Start analysis for a job created by /api/upload
+// Returns 202 { jobId, status } immediately; poll GET /api/job/[id] for progress
+
+import { getJobStatus, startJob } from '../../../lib/jobStore';
+import { runAnalysisJob } from '../../../lib/analyzer';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+
+export const maxDuration = 60; // the analysis runs in this invocation after responding
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,POST,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  if (req.method === 'OPTIONS') return res.status(200).end();
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { id } = req.query;
+
+    if (!id || typeof id !== 'string') {
+      return res.status(400).json({ error: 'Job ID is required' });
+    }
+
+    const job = await getJobStatus(id);
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    if (!job.imageUrl) {
+      return res.status(400).json({ error: 'Job has no image to analyze' });
+    }
+
+    // Already started (or finished) — report current state instead of re-running
+    if (!(await startJob(id))) {
+      return res.status(200).json({ jobId: id, ...job });
+    }
+
+    res.status(202).json({ jobId: id, status: 'processing', pollUrl: `/api/job/${id}` });
+    // Response is already sent — keep the function alive until the job settles
+    await runAnalysisJob(id, job.imageUrls ?? job.imageUrl);
+  } catch (error: any) {
+    console.error('Job start error:', error);
+    if (!res.headersSent) {
+      return res.status(500).json({ error: error.message || 'Failed to start job' });
+    }
+  }
+}
@@ -0,0 +1,109 @@
+// GET /api/job/[id]/stream - Server-Sent Events for live analysis progress
+// Events: ocr_completed, claims_extracted, claim_sources_found, claim_verified,
+//         bias_completed, result, error (each `data:` is the JSON event)
+// A pending job (from /api/upload) is started by opening the stream.
+// Reconnects resume after the Last-Event-ID header (or ?since=<id>).
+
+import { getJobStatus, getJobEvents, startJob } from '../../../lib/jobStore';
+import { runAnalysisJob } from '../../../lib/analyzer';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+
+export const maxDuration = 60;
+
+const POLL_INTERVAL_MS = 500;
+const HEARTBEAT_MS = 15000;
+// Close slightly before maxDuration so the client reconnects cleanly instead of being cut off
+const STREAM_BUDGET_MS = 57000;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,POST,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Last-Event-ID');
+
+  if (req.method === 'OPTIONS') return res.status(200).end();
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id, since } = req.query;
+
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Job ID is required' });
+  }
+
+  let job;
+  try {
+    job = await getJobStatus(id);
+  } catch (error: any) {
+    console.error('Job stream error:', error);
+    return res.status(500).json({ error: error.message || 'Failed to read job' });
+  }
+
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.write('retry: 2000\n\n');
+
+  // Start the analysis here if nobody has yet (upload → stream flow)
+  let running: Promise<void> | null = null;
+  if (job.status === 'pending' && job.imageUrl && (await startJob(id))) {
+    console.log(`[/api/job/stream] Starting job ${id} from stream request`);
+    running = runAnalysisJob(id, job.imageUrls ?? job.imageUrl);
+  }
+
+  let closed = false;
+  req.on('close', () => { closed = true; });
+
+  const lastEventHeader = req.headers['last-event-id'];
+  const resumeFrom = typeof lastEventHeader === 'string' ? lastEventHeader : typeof since === 'string' ? since : '';
+  let nextIndex = resumeFrom && /^\d+$/.test(resumeFrom) ? parseInt(resumeFrom, 10) + 1 : 0;
+
+  const startedAt = Date.now();
+  let lastWrite = Date.now();
+
+  try {
+    while (!closed && Date.now() - startedAt < STREAM_BUDGET_MS) {
+      // Read status BEFORE events: events are flushed before a job is marked
+      // finished, so a finished status means this read sees the whole log
+      const current = await getJobStatus(id);
+      const finished = !current || current.status === 'completed' || current.status === 'error';
+
+      const events = await getJobEvents(id);
+      for (; nextIndex < events.length; nextIndex++) {
+        const event = events[nextIndex];
+        res.write(`id: ${nextIndex}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+        lastWrite = Date.now();
+      }
+
+      if (finished) {
+        // Jobs finished before events existed (or whose log expired) still get a terminal event
+        if (nextIndex === 0 && current?.result) {
+          res.write(`id: 0\nevent: result\ndata: ${JSON.stringify({ type: 'result', result: current.result })}\n\n`);
+        } else if (nextIndex === 0 && current?.error) {
+          res.write(`id: 0\nevent: error\ndata: ${JSON.stringify({ type: 'error', error: current.error })}\n\n`);
+        }
+        break;
+      }
+
+      if (Date.now() - lastWrite >= HEARTBEAT_MS) {
+        res.write(': keep-alive\n\n');
+        lastWrite = Date.now();
+      }
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  } catch (error: any) {
+    console.error('Job stream error:', error);
+    res.write(`event: error\ndata: ${JSON.stringify({ type: 'error', error: error.message || 'Stream failed' })}\n\n`);
+  }
+
+  res.end();
+  // If this invocation started the job, keep it alive until the job settles
+  if (running) await running;
+}
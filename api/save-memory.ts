@@ -6,7 +6,8 @@
 // Returns: { ok: true }
 
 import type { VercelRequest, VercelResponse } from "@vercel/node";
-import { saveAnalysisToMemory } from "../lib/backboardHttp";
+import { saveAnalysisToMemory } from "../lib/agents";
+import { getLLMProvider } from "../lib/llmProvider";
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   // CORS
@@ -24,7 +25,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(400).json({ error: "content (string) is required" });
     }
 
-    if (!process.env.BACKBOARD_API_KEY) {
+    if (!getLLMProvider().isConfigured()) {
       return res.status(500).json({ error: "BACKBOARD_API_KEY not configured" });
     }
 
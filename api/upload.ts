@@ -1,18 +1,25 @@
 // POST /api/upload
-// Accepts: { image: "<base64>", filename?: "screenshot.jpg" }
-// Returns: { imageUrl, jobId }
+// Accepts: { image: "<base64>", filename?: "screenshot.jpg", start?: boolean }
+// Returns: { imageUrl, jobId, status }
+// Start the analysis with POST /api/job/[id]/start (or pass start: true here),
+// then poll GET /api/job/[id]. The job records the image's perceptualHashes
+// right away; the result lists earlier analyses of copies as previouslySeen.
 
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { put } from "@vercel/blob";
 import { v4 as uuidv4 } from "uuid";
-import { createJob } from "../lib/jobStore";
+import { createJob, startJob } from "../lib/jobStore";
+import { runAnalysisJob } from "../lib/analyzer";
+import { perceptualHash } from "../lib/perceptualHash";
+
+export const maxDuration = 60; // start: true runs the analysis in this invocation
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method === "OPTIONS") return res.status(200).end();
   if (req.method !== "POST") return res.status(405).json({ error: "Method not allowed" });
 
   try {
-    const { image, filename } = req.body ?? {};
+    const { image, filename, start } = req.body ?? {};
     if (!image) return res.status(400).json({ error: "image (base64) is required" });
 
     const buffer = Buffer.from(image, "base64");
@@ -24,9 +31,16 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     });
 
     const jobId = uuidv4();
-    createJob(jobId);
+    await createJob(jobId, blob.url, undefined, [perceptualHash(buffer)]);
+
+    if (start === true && (await startJob(jobId))) {
+      res.status(202).json({ imageUrl: blob.url, jobId, status: "processing" });
+      // Response is already sent — keep the function alive until the job settles
+      await runAnalysisJob(jobId, blob.url);
+      return;
+    }
 
-    return res.status(200).json({ imageUrl: blob.url, jobId });
+    return res.status(200).json({ imageUrl: blob.url, jobId, status: "pending" });
   } catch (err: any) {
     console.error("Upload error:", err);
     return res.status(500).json({ error: err.message });
@@ -0,0 +1,468 @@
+// ──────────────────────────────────────────────
+//  LLM agents for the pipeline: claim extraction, OCR summary,
+//  multi-model verification, chat and memory.
+//  All calls go through the configured LLMProvider (see llmProvider.ts).
+//
+//  NO curly braces in system prompts — Backboard runs Python
+//  .format() on them. Describe JSON formats in plain English.
+// ──────────────────────────────────────────────
+
+import { ScreenshotMetadata, Source, SourceStance } from "./types";
+import { getLLMProvider } from "./llmProvider";
+import { describePost, formatPost } from "./screenshotMetadata";
+import { getPlatformProfile } from "./platformProfiles";
+import { searchCombined, getWebSearchTool } from "./search";
+import { enabledVerifiers } from "./verifierPanel";
+
+// ──────────────────────────────────────────────
+//  Comprehensive analysis (single call, legacy)
+// ──────────────────────────────────────────────
+
+export interface FullAnalysis {
+  claims: Array<{
+    text: string;
+    verdict: "likely_true" | "mixed" | "likely_misleading";
+    confidence: number;
+    explanation: string;
+  }>;
+  biasAssessment: {
+    politicalBias: number;
+    sensationalism: number;
+    overallBias: "left" | "slight_left" | "center" | "slight_right" | "right";
+    explanation: string;
+  };
+  summary: string;
+  modelConsensus: Array<{
+    modelName: string;
+    agrees: boolean;
+    confidence: number;
+  }>;
+}
+
+export async function analyzeTextComprehensive(
+  ocrText: string,
+  sources: Source[]
+): Promise<FullAnalysis> {
+  const srcBlock = sources.length > 0
+    ? sources.map((s, i) => `[${i + 1}] ${s.title} (${s.domain}, ${s.date ?? "date unknown"}): ${s.snippet}`).join("\n")
+    : "No web sources available.";
+
+  const systemPrompt = [
+    "You are a JSON-only fact-checking API.",
+    "You MUST respond with ONLY a valid JSON object.",
+    "No markdown, no code blocks, no explanation text, no quotes around the JSON.",
+    "",
+    "The JSON object must have exactly these four top-level keys:",
+    "",
+    "1. \"claims\" - an array of 1-3 claim objects. Each claim object has:",
+    "   - \"text\" (string): the factual claim extracted from the screenshot",
+    "   - \"verdict\" (string): one of \"likely_true\", \"mixed\", or \"likely_misleading\"",
+    "   - \"confidence\" (number): a decimal between 0.0 and 1.0",
+    "   - \"explanation\" (string): 2-3 sentences explaining the verdict",
+    "",
+    "2. \"biasAssessment\" - an object with:",
+    "   - \"politicalBias\" (number): decimal from -1.0 (far left) to 1.0 (far right), 0 is center",
+    "   - \"sensationalism\" (number): decimal from 0.0 to 1.0",
+    "   - \"overallBias\" (string): one of \"left\", \"slight_left\", \"center\", \"slight_right\", or \"right\"",
+    "   - \"explanation\" (string): brief explanation of detected bias",
+    "",
+    "3. \"summary\" - a string containing a 2-3 sentence summary of the fact-check findings",
+    "",
+    "4. \"modelConsensus\" - an array of 3 model verdict objects. Each has:",
+    "   - \"modelName\" (string): e.g. \"GPT-4\", \"Claude 3\", or \"Gemini\"",
+    "   - \"agrees\" (boolean): true or false",
+    "   - \"confidence\" (number): decimal between 0.0 and 1.0",
+    "",
+    "Verdict rules:",
+    "- \"likely_true\": confidence 0.7-1.0, claim is supported by credible sources",
+    "- \"mixed\": confidence 0.4-0.7, conflicting or insufficient evidence",
+    "- \"likely_misleading\": confidence 0.0-0.4, contradicts sources or lacks evidence",
+    "",
+    "Use REAL confidence values based on evidence. Do NOT default to 0.5.",
+    "",
+    "CRITICAL: Start your response with the opening brace of the JSON object and end with the closing brace. Nothing else.",
+  ].join("\n");
+
+  const userMessage = `SCREENSHOT TEXT:
+"""
+${ocrText.slice(0, 2000)}
+"""
+
+WEB SOURCES:
+${srcBlock}
+
+Analyze the screenshot text above. Extract factual claims, assess bias, write a summary, and simulate model consensus. Return your response as a single JSON object.`;
+
+  console.log("[Agents] Sending comprehensive analysis request…");
+  const parsed = await getLLMProvider().completeJSON<any>({
+    assistant: "VerifyShot-Analyzer-v5",
+    systemPrompt,
+    message: userMessage,
+    memory: "Off",
+    model: { provider: "openai", name: "gpt-4o" },
+  }, "object");
+
+  const claims = (parsed.claims || []).slice(0, 3).map((c: any, idx: number) => {
+    let conf = typeof c.confidence === "number" ? c.confidence : parseFloat(c.confidence) || 0.5;
+    conf = Math.max(0, Math.min(1, conf));
+    return {
+      text: c.text || `Claim ${idx + 1}`,
+      verdict: (c.verdict === "likely_true" || c.verdict === "mixed" || c.verdict === "likely_misleading")
+        ? c.verdict : "mixed",
+      confidence: conf,
+      explanation: c.explanation || "Analysis pending.",
+    };
+  });
+
+  if (claims.length === 0) {
+    throw new Error("Comprehensive analysis returned no claims.");
+  }
+
+  const avgConf = claims.reduce((s: number, c: { confidence: number }) => s + c.confidence, 0) / claims.length;
+
+  return {
+    claims,
+    biasAssessment: {
+      politicalBias: parsed.biasAssessment?.politicalBias ?? 0,
+      sensationalism: parsed.biasAssessment?.sensationalism ?? 0.3,
+      overallBias: (parsed.biasAssessment?.overallBias ?? "center") as
+        "left" | "slight_left" | "center" | "slight_right" | "right",
+      explanation: parsed.biasAssessment?.explanation ?? "No significant bias detected.",
+    },
+    summary: parsed.summary || "Analysis completed.",
+    modelConsensus: (parsed.modelConsensus || [
+      { modelName: "GPT-4", agrees: true, confidence: avgConf },
+      { modelName: "Claude 3", agrees: true, confidence: avgConf },
+      { modelName: "Gemini", agrees: true, confidence: avgConf },
+    ]).map((m: any) => ({
+      modelName: m.modelName || "AI Model",
+      agrees: !!m.agrees,
+      confidence: Math.max(0, Math.min(1, m.confidence || 0.5)),
+    })),
+  };
+}
+
+// ──────────────────────────────────────────────
+//  Chat (standard + deep research with web search tool)
+// ──────────────────────────────────────────────
+
+export async function chatAboutJob(
+  jobId: string,
+  contextText: string,
+  userMessage: string,
+  mode: string = "standard"
+): Promise<string> {
+  const standardPrompt = [
+    "You are a helpful fact-checking assistant.",
+    "Answer questions about the screenshot analysis provided in context.",
+    "Be concise and cite sources when relevant.",
+    "If uncertain, say so and suggest how to verify.",
+  ].join(" ");
+
+  const deepResearchPrompt = [
+    "You are an expert researcher and fact-checker.",
+    "Provide comprehensive analysis with citations.",
+    "Structure your response with sections:",
+    "Key Findings, Source Analysis, Multiple Perspectives,",
+    "Bias Assessment, Confidence Level, and Recommendations.",
+    "Be thorough but clear. Use markdown formatting.",
+  ].join(" ");
+
+  const deepResearch = mode === "deep_research";
+  const tools = deepResearch
+    ? [{
+        definition: getWebSearchTool(),
+        handler: (args: any) => searchCombined(args.query, args.limit || 5),
+      }]
+    : undefined;
+
+  console.log(`[Chat] (${mode}) sending message…`);
+  try {
+    const reply = await getLLMProvider().complete({
+      assistant: deepResearch ? "VerifyShot-DeepResearch-v3" : "VerifyShot-Chat-v3",
+      systemPrompt: deepResearch ? deepResearchPrompt : standardPrompt,
+      message: userMessage,
+      memory: "Auto",
+      tools,
+      threadKey: `${jobId}-${mode}`,
+    });
+    return reply || "I couldn't generate a response. Please try again.";
+  } catch (err: any) {
+    console.error(`[Chat] Failed:`, err.message);
+    if (deepResearch) throw new Error(`Deep research failed: ${err.message}`);
+    throw err;
+  }
+}
+
+// ──────────────────────────────────────────────
+//  Save analysis to long-term memory
+//  Enables cross-thread recall: the chat assistant
+//  can reference past screenshot analyses.
+// ──────────────────────────────────────────────
+
+export async function saveAnalysisToMemory(
+  content: string
+): Promise<void> {
+  const provider = getLLMProvider();
+  if (!provider.remember) {
+    console.log(`[Memory] Provider "${provider.name}" has no memory — skipping`);
+    return;
+  }
+
+  try {
+    // Use the same chat assistant so memory is accessible in chat threads
+    const systemPrompt = [
+      "You are a helpful fact-checking assistant.",
+      "Answer questions about screenshot analyses.",
+      "Be concise and cite sources when relevant.",
+    ].join(" ");
+
+    await provider.remember("VerifyShot-Chat-v3", systemPrompt, content);
+  } catch (err: any) {
+    console.warn(`[Memory] Save error (non-critical): ${err.message}`);
+    // Non-critical — swallow the error
+  }
+}
+
+// ──────────────────────────────────────────────
+//  OCR Summary — Describes what the screenshot says
+//  Runs in parallel with claims + search to avoid delay.
+//  This lets users gauge OCR accuracy at a glance.
+//  MAX 2 sentences.
+// ──────────────────────────────────────────────
+
+// "Posted by … on twitter, 2023-03-03" ahead of the text, so the models can
+// attribute the post and resolve "today" or "I"
+function postContext(metadata?: ScreenshotMetadata): string {
+  const post = metadata ? describePost(metadata) : null;
+  return post ? `Post context: ${post}\n\n` : "";
+}
+
+// The post without its UI chrome, quoted post kept apart — else the raw OCR text
+function postText(ocrText: string, metadata?: ScreenshotMetadata): string {
+  return (metadata && formatPost(metadata)) || ocrText;
+}
+
+export async function generateOCRSummary(ocrText: string, metadata?: ScreenshotMetadata): Promise<string> {
+  try {
+    // One assistant per platform: each has its own system prompt
+    const platform = getPlatformProfile(metadata?.platform);
+    const systemPrompt = [
+      "You summarize screenshot text in exactly 1-2 sentences.",
+      "Describe WHAT the screenshot says — the topic, key points, and source if visible.",
+      "Do NOT judge whether the content is true or false.",
+      "Just describe the content factually so the user can gauge OCR accuracy.",
+      "Never describe interface elements such as buttons, counts or menus.",
+      platform.summary,
+      "Be concise. No preamble. Maximum 2 sentences.",
+    ].join("\n");
+
+    let summary = await getLLMProvider().complete({
+      assistant: `VerifyShot-Summarizer-${platform.id}-v3`,
+      systemPrompt,
+      message: `${postContext(metadata)}Summarize this screenshot text in 1-2 sentences only:\n\n${postText(ocrText, metadata).slice(0, 1500)}`,
+      memory: "Off",
+      model: { provider: "openai", name: "gpt-4o-mini" },
+    });
+
+    // Enforce max 2 sentences
+    if (summary && summary.length > 10) {
+      const sentences = summary.match(/[^.!?]+[.!?]+/g) || [summary];
+      summary = sentences.slice(0, 2).join(" ").trim();
+      console.log(`[Summarizer] ✅ Generated summary (${summary.length} chars)`);
+      return summary;
+    }
+
+    throw new Error("Empty summary returned");
+  } catch (err: any) {
+    console.warn(`[Summarizer] Failed (${err.message}), using OCR excerpt as fallback`);
+    // Fallback: the first 2 sentences of the post's own text (else the OCR text), attributed when we know the author
+    const sentences = (metadata?.body || ocrText).split(/[.!?\n]/).map(s => s.trim()).filter(s => s.length > 15);
+    const excerpt = sentences.slice(0, 2).join(". ") + (sentences.length > 0 ? "." : "");
+    const author = metadata?.author?.displayName || metadata?.author?.handle;
+    return author && excerpt ? `${author}: ${excerpt}` : excerpt;
+  }
+}
+
+// ──────────────────────────────────────────────
+//  Claim Extraction (fast, using GPT-4o-mini)
+// ──────────────────────────────────────────────
+
+export interface ExtractedClaim {
+  text: string;
+  quoted?: boolean;            // taken from a quoted post or another author, not the poster
+}
+
+/**
+ * Extract the post's checkable claims. The screenshot's platform picks the
+ * extraction profile (config/platformProfiles.json): which chrome to ignore,
+ * and how to keep a quoted post apart from the author's own words.
+ */
+export async function extractClaims(ocrText: string, metadata?: ScreenshotMetadata): Promise<ExtractedClaim[]> {
+  // One assistant per platform: each has its own system prompt
+  const platform = getPlatformProfile(metadata?.platform);
+  const systemPrompt = [
+    "You are a claim extraction API that reads screenshot text.",
+    "Extract 1-3 specific, verifiable factual claims from the provided text.",
+    "Each claim MUST be a concrete statement that can be fact-checked against web sources.",
+    "Use the EXACT wording and details from the text — include names, numbers, dates, and quotes.",
+    "Do NOT invent claims, generalize, or paraphrase loosely.",
+    "Do NOT use vague or generic claims like 'Breaking News' or topic labels.",
+    platform.extraction,
+    "Return ONLY a valid JSON array of objects.",
+    "Each object must have a key called \"text\" with the claim as a string, and a key called \"quoted\" set to true when the claim comes from a quoted post or another author, else false.",
+    "No markdown, no code blocks, no explanation, no extra text.",
+    "Start your response with the opening bracket and end with the closing bracket.",
+  ].join("\n");
+
+  const parsed = await getLLMProvider().completeJSON<any[]>({
+    assistant: `VerifyShot-ClaimExtractor-${platform.id}-v5`,
+    systemPrompt,
+    message: `${postContext(metadata)}Extract factual claims from this text:\n\n${postText(ocrText, metadata).slice(0, 2000)}`,
+    memory: "Off",
+    model: { provider: "openai", name: "gpt-4o-mini" },  // Fast and cheap for extraction
+  }, "array");
+
+  return parsed.map((c: any) => ({
+    text: c.text || String(c),
+    ...(c.quoted === true ? { quoted: true } : {}),
+  })).filter((c) => c.text && c.text.length > 10);
+}
+
+// ──────────────────────────────────────────────
+//  Multi-Model Verification (verifier panel, in parallel)
+//  The models come from config/verifiers.json (see verifierPanel.ts);
+//  their votes are combined in consensus.ts.
+// ──────────────────────────────────────────────
+
+export interface ModelVerification {
+  modelId: string;
+  modelName: string;
+  modelProvider: string;
+  weight: number;
+  verdict: "likely_true" | "mixed" | "likely_misleading";
+  confidence: number;
+  reasoning: string;
+  stances?: SourceStance[];    // one per source, in prompt order (missing when the model failed)
+  error?: string;              // set when the model failed — excluded from consensus
+}
+
+const STANCES: SourceStance[] = ["supports", "refutes", "neutral"];
+
+function parseStances(raw: any, count: number): SourceStance[] | undefined {
+  if (!Array.isArray(raw) || count === 0) return undefined;
+  return Array.from({ length: count }, (_, i) => {
+    const value = String(raw[i] ?? "").toLowerCase().trim();
+    return STANCES.includes(value as SourceStance) ? (value as SourceStance) : "neutral";
+  });
+}
+
+/**
+ * Majority stance per source across the models that returned stances.
+ * Ties (and sources no model judged) are neutral.
+ */
+export function combineSourceStances(verifications: ModelVerification[], sourceCount: number): SourceStance[] {
+  return Array.from({ length: sourceCount }, (_, i) => {
+    const votes = { supports: 0, refutes: 0, neutral: 0 };
+    for (const v of verifications) {
+      if (v.error) continue;
+      const stance = v.stances?.[i];
+      if (stance) votes[stance]++;
+    }
+    if (votes.supports > votes.refutes && votes.supports > votes.neutral) return "supports";
+    if (votes.refutes > votes.supports && votes.refutes > votes.neutral) return "refutes";
+    return "neutral";
+  });
+}
+
+export async function verifyClaimMultiModel(
+  claimText: string,
+  sources: Source[],
+  onVerified?: (verification: ModelVerification) => void
+): Promise<ModelVerification[]> {
+  // Page passages (see evidence.ts) are the primary evidence; snippets are a fallback
+  const srcBlock = sources.length > 0
+    ? sources.map((s, i) => {
+        const header = `[${i + 1}] ${s.title} (${s.domain}, ${s.date ?? "date unknown"}): ${s.snippet}`;
+        const passages = (s.evidencePassages || []).map((p) => `    > ${p}`).join("\n");
+        return passages ? `${header}\n  Evidence from the page:\n${passages}` : header;
+      }).join("\n")
+    : "No sources available.";
+
+  const systemPrompt = [
+    "You are a fact-checking API.",
+    "Analyze the claim against the provided sources.",
+    "Return ONLY a valid JSON object with exactly four keys:",
+    "- \"verdict\" (string): one of \"likely_true\", \"mixed\", or \"likely_misleading\"",
+    "- \"confidence\" (number): decimal between 0.0 and 1.0",
+    "- \"reasoning\" (string): 1-2 sentences explaining your verdict based on the sources",
+    "- \"stances\" (array of strings): for EACH numbered source, in order, \"supports\" if it backs the claim, \"refutes\" if it contradicts or debunks it, \"neutral\" if it is related but takes no position",
+    "",
+    "Some sources include evidence passages quoted from the article page. Base your verdict on those passages first; titles and summaries may be incomplete.",
+    "",
+    "Verdict rules:",
+    "- \"likely_true\" means confidence 0.7-1.0 and the claim is supported by credible sources",
+    "- \"mixed\" means confidence 0.4-0.7 with conflicting or insufficient evidence",
+    "- \"likely_misleading\" means confidence below 0.4 and the claim contradicts sources",
+    "",
+    "Use REAL confidence values based on evidence. Do NOT default to 0.5.",
+    "CRITICAL: Start your response with the opening brace of the JSON object and end with the closing brace. Nothing else.",
+  ].join("\n");
+
+  const userMessage = `CLAIM TO VERIFY:
+"${claimText}"
+
+SOURCES:
+${srcBlock}
+
+Analyze this claim against the sources. Return your verdict as JSON.`;
+
+  const models = enabledVerifiers();
+  const provider = getLLMProvider();
+  const verifications = await Promise.all(
+    models.map(async (model): Promise<ModelVerification> => {
+      const identity = {
+        modelId: model.id,
+        modelName: model.displayName,
+        modelProvider: model.provider,
+        weight: model.weight,
+      };
+      try {
+        const parsed = await provider.completeJSON<any>({
+          assistant: `VerifyShot-Verifier-${model.displayName.replace(/\s+/g, "-")}-v2`,
+          systemPrompt,
+          message: userMessage,
+          memory: "Off",
+          model: { provider: model.provider, name: model.model },
+        }, "object");
+
+        if (parsed.verdict !== "likely_true" && parsed.verdict !== "mixed" && parsed.verdict !== "likely_misleading") {
+          throw new Error(`unrecognized verdict "${parsed.verdict}"`);
+        }
+        console.log(`[Verifier] ✅ ${model.displayName}: ${parsed.verdict} (${parsed.confidence})`);
+
+        const verification: ModelVerification = {
+          ...identity,
+          verdict: parsed.verdict,
+          confidence: Math.max(0, Math.min(1, parsed.confidence ?? 0.5)),
+          reasoning: parsed.reasoning || "Analysis completed.",
+          stances: parseStances(parsed.stances, sources.length),
+        };
+        onVerified?.(verification);
+        return verification;
+      } catch (err: any) {
+        // Excluded from consensus by the caller — a failure is not a "mixed" vote
+        console.error(`[Verifier] ❌ ${model.displayName} failed:`, err.message);
+        return {
+          ...identity,
+          verdict: "mixed",
+          confidence: 0,
+          reasoning: "This model could not verify the claim.",
+          error: err.message || "Verification failed",
+        };
+      }
+    })
+  );
+
+  return verifications;
+}
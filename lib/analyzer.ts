@@ -1,66 +1,406 @@
 // ──────────────────────────────────────────────
 //  Orchestrator Agent — Accurate + Efficient
-//  OCR → Extract Claims → Quality Gate → Multi-Model Verify → Bias Detect → Synthesize
-//  Total: ~10-12 API calls, ~10-15 seconds, all parallelized
+//  OCR → Extract Claims → Search → Satire Check → Evidence → Quality Gate → Multi-Model Verify → Bias Detect → Synthesize
+//  LLM calls: 1 OCR per image, 2 for claims + summary, 1 per panel model per claim, 1 per bias perspective
+//  (none on a cache hit). Claims are searched and verified in parallel.
 // ──────────────────────────────────────────────
 
-import { extractTextFromImage } from "./geminiOcr";
-import { extractClaims, verifyClaimMultiModel, ModelVerification, generateOCRSummary } from "./backboardHttp";
-import { searchCombined } from "./search";
-import { detectBias } from "./biasDetection";
-import { calculateTrustScore, biasPenalty, trustLabel } from "./trustScore";
-import { AnalysisResult, Claim, Source, ModelVerdict, BiasSignals } from "./types";
+import { downloadImage, extractTextFromImage } from "./geminiOcr";
+import { extractClaims, verifyClaimMultiModel, combineSourceStances, ModelVerification, generateOCRSummary, ExtractedClaim } from "./agents";
+import { searchForClaim } from "./search";
+import { extractDateWindow } from "./queryPlanner";
+import { gatherEvidence, PageCache } from "./evidence";
+import { gatherFactChecks, anchoringFactCheck } from "./factCheck";
+import { detectPostOrigin, detectOriginInSources, describeOrigin } from "./satireDetection";
+import { detectBias, lexicalBiasSignals } from "./biasDetection";
+import { isDefaultPerspectiveSet, Perspective, resolvePerspectives } from "./perspectives";
+import { trustScoreBreakdown, fixedScoreBreakdown, adjustScore, aggregateTrustScore, biasPenalty, trustLabel, clampToVerdict } from "./trustScore";
+import { weightedConsensus } from "./consensus";
+import { getVerifierPanel, enabledVerifiers } from "./verifierPanel";
+import { getScoreProfile, getScoreProfiles, ScoreProfile } from "./scoreProfiles";
+import { setProgress, setJobResult, setJobError, appendJobEvent, setPerceptualHashes } from "./jobStore";
+import { CachedResult, getCachedResult, putCachedResult, hashImageBytes, hashImageSet, hashOcrText } from "./resultCache";
+import { mergeImageTexts, sourceImagesFor } from "./multiImage";
+import { parseScreenshotMetadata } from "./screenshotMetadata";
+import { decodeImage, DecodedImage, imageIntegrity } from "./imageForensics";
+import { findPreviouslySeen, perceptualHash, rememberAnalysis } from "./perceptualHash";
+import { AnalysisResult, AnalysisStage, AnalysisEvent, AnalysisEventListener, Claim, ClaimOrigin, FactCheckRating, Source, ModelVerdict, BiasSignals, OcrLine, SourceImage, ImageIntegrity, PreviousAnalysis } from "./types";
+
+// Keep a few seconds of headroom under the 60s Vercel function limit
+export const ANALYSIS_TIMEOUT_MS = 55000;
+
+export interface AnalyzeOptions {
+  bypassCache?: boolean;          // always run the pipeline (the fresh result still refreshes the cache)
+  cacheMaxAgeSeconds?: number;    // accept cached results up to this age (capped by RESULT_CACHE_MAX_AGE_SECONDS)
+  profile?: string;               // trust-score profile id (config/scoreProfiles.json); the default if unset
+  perspectives?: string[];        // bias perspective ids (config/perspectives.json)…
+  locale?: string;                // …or the user's locale picks them; else the default set
+  signal?: AbortSignal;           // once aborted, the pipeline stops at its next stage and emits nothing more
+}
+
+/**
+ * Race `run` against ANALYSIS_TIMEOUT_MS. On timeout the signal passed to
+ * `run` is aborted (so the pipeline stops instead of running on in the
+ * background) and the returned promise rejects. The timer is always cleared.
+ */
+export async function withAnalysisTimeout<T>(
+  run: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number = ANALYSIS_TIMEOUT_MS
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    return await Promise.race([
+      run(controller.signal),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          const err = new Error(`Analysis timed out after ${timeoutMs / 1000} seconds`);
+          controller.abort(err);
+          reject(err);
+        }, timeoutMs);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Run analyzeImage (analyzeImages for several screenshots) for a job created
+ * via createJob() and record the outcome in the job store. Never throws —
+ * failures are stored as the job's error. Live events are appended to the
+ * job's event log for /api/job/[id]/stream.
+ */
+export async function runAnalysisJob(jobId: string, imageUrls: string | string[], options: AnalyzeOptions = {}): Promise<void> {
+  // appendJobEvent chains per job, so the latest promise settles after all earlier ones
+  let eventsFlushed: Promise<void> = Promise.resolve();
+  const onEvent = (event: AnalysisEvent) => {
+    eventsFlushed = appendJobEvent(jobId, event);
+  };
+
+  try {
+    const result = await withAnalysisTimeout((signal) =>
+      Array.isArray(imageUrls)
+        ? analyzeImages(imageUrls, jobId, onEvent, { ...options, signal })
+        : analyzeImage(imageUrls, jobId, onEvent, { ...options, signal })
+    );
+    await eventsFlushed;
+    await setJobResult(jobId, result);
+    console.log(`[Orchestrator][${jobId}] ✅ Job stored as completed`);
+  } catch (err: any) {
+    console.error(`[Orchestrator][${jobId}] ❌ Job failed:`, err.message);
+    onEvent({ type: "error", error: err.message || "Analysis failed" });
+    await eventsFlushed;
+    await setJobError(jobId, err.message || "Analysis failed").catch((storeErr: any) => {
+      console.error(`[Orchestrator][${jobId}] Could not store job error:`, storeErr.message);
+    });
+  }
+}
+
+interface PipelineContext {
+  jobId: string;
+  imageUrl: string;
+  options: AnalyzeOptions;
+  emit: (event: AnalysisEvent) => void;
+  report: (progress: string, stage: AnalysisStage) => Promise<void>;
+  profile: ScoreProfile;
+  scoreProfile: AnalysisResult["scoreProfile"];
+  perspectives: Perspective[];
+  cacheScope?: string;
+}
+
+function pipelineContext(
+  jobId: string,
+  imageUrl: string,
+  onEvent: AnalysisEventListener | undefined,
+  options: AnalyzeOptions
+): PipelineContext {
+  const { signal } = options;
+
+  // Listener errors (e.g. a closed stream) must never break the pipeline.
+  // After an abort the caller has already reported the error: nothing more is sent.
+  const emit = (event: AnalysisEvent) => {
+    if (signal?.aborted) return;
+    try {
+      onEvent?.(event);
+    } catch (err: any) {
+      console.warn(`[Orchestrator][${jobId}] Event listener failed on ${event.type}:`, err.message);
+    }
+  };
+
+  // Progress goes to the job store (no-op for sync requests that never created a job).
+  // A store outage must never fail the analysis itself; an abort (timeout) ends it here.
+  const report = async (progress: string, stage: AnalysisStage) => {
+    if (signal?.aborted) {
+      console.warn(`[Orchestrator][${jobId}] Aborted before stage ${stage}`);
+      throw signal.reason instanceof Error ? signal.reason : new Error("Analysis aborted");
+    }
+    await setProgress(jobId, progress, stage).catch((err: any) => {
+      console.warn(`[Orchestrator][${jobId}] Progress update failed:`, err.message);
+    });
+  };
+
+  // Weights, label thresholds and bias lenses; throws on an unknown id before any API call
+  const profile = getScoreProfile(options.profile);
+  const perspectives = resolvePerspectives({ ids: options.perspectives, locale: options.locale });
+
+  // Results scored with another profile or other perspectives are cached separately;
+  // the defaults keep the plain keys
+  const scope = [
+    profile.id === getScoreProfiles().defaultProfile ? "" : profile.id,
+    isDefaultPerspectiveSet(perspectives) ? "" : perspectives.map((p) => p.id).join(","),
+  ];
+  return {
+    jobId,
+    imageUrl,
+    options,
+    emit,
+    report,
+    profile,
+    scoreProfile: { id: profile.id, version: getScoreProfiles().version },
+    perspectives,
+    cacheScope: scope.some(Boolean) ? scope.join("|") : undefined,
+  };
+}
+
+// Serve a fresh cached result instead of re-running ~12 LLM calls
+function fromCache(ctx: PipelineContext, hit: CachedResult, previouslySeen: PreviousAnalysis[] = []): AnalysisResult {
+  const result: AnalysisResult = {
+    ...hit.result,
+    ...(previouslySeen.length > 0 ? { previouslySeen } : {}),
+    jobId: ctx.jobId,
+    imageUrl: ctx.imageUrl,
+    cached: true,
+    cachedAt: hit.cachedAt,
+  };
+  ctx.emit({ type: "result", result });
+  return result;
+}
+
+function lookupCache(ctx: PipelineContext, kind: "image" | "text", hash: string): Promise<CachedResult | null> {
+  return ctx.options.bypassCache
+    ? Promise.resolve(null)
+    : getCachedResult(kind, hash, ctx.options.cacheMaxAgeSeconds, ctx.cacheScope);
+}
 
 export async function analyzeImage(
   imageUrl: string,
-  jobId: string
+  jobId: string,
+  onEvent?: AnalysisEventListener,
+  options: AnalyzeOptions = {}
 ): Promise<AnalysisResult> {
   console.log(`[Orchestrator][${jobId}] 🚀 Starting analysis…`);
+  const ctx = pipelineContext(jobId, imageUrl, onEvent, options);
 
   // ── Step 1: OCR via Gemini Vision (1 API call, ~2s) ──
   console.log(`[Orchestrator][${jobId}] Step 1: OCR from ${imageUrl}…`);
+  await ctx.report("Reading text from screenshot…", "ocr");
   let ocrText: string;
+  let imageHash: string;
+  let integrity: ImageIntegrity | undefined;
+  let copies: EarlierCopies;
   try {
     if (!process.env.GEMINI_API_KEY) {
       throw new Error("GEMINI_API_KEY not set in environment variables");
     }
-    ocrText = await extractTextFromImage(imageUrl);
-  } catch (err: any) {
-    console.error(`[Orchestrator][${jobId}] OCR failed:`, err.message);
-    if (err.message?.includes("429") || err.message?.includes("rate limit")) {
-      throw new Error("Gemini API rate limit exceeded. Please wait a few minutes and try again.");
-    }
-    if (err.message?.includes("GEMINI_API_KEY")) {
-      throw new Error("OCR failed: GEMINI_API_KEY not set. Set it in Vercel → Settings → Environment Variables.");
+    const image = await downloadImage(imageUrl);
+    imageHash = hashImageBytes(image);
+    // Decoded once for the perceptual hash and the forensics
+    const decoded = [decodeImage(image)];
+    const earlier = findEarlierCopies(jobId, decoded);
+
+    const imageHit = await lookupCache(ctx, "image", imageHash);
+    if (imageHit) {
+      console.log(`[Orchestrator][${jobId}] ♻️ Cache hit on image hash (cached ${imageHit.cachedAt})`);
+      return fromCache(ctx, imageHit, (await earlier).previouslySeen);
     }
-    throw new Error(`OCR failed: ${err.message}. Check GEMINI_API_KEY is set and has quota available.`);
+
+    // Forensics are local CPU work: they run while the OCR request is in flight
+    const ocr = extractTextFromImage(image);
+    integrity = inspectImages(jobId, decoded);
+    ocrText = await ocr;
+    copies = await earlier;
+  } catch (err: any) {
+    throw ocrError(jobId, err);
   }
 
   if (!ocrText.trim()) {
     throw new Error("No text found in screenshot");
   }
   console.log(`[Orchestrator][${jobId}] ✅ OCR extracted ${ocrText.length} chars`);
+  return analyzeFromText(ctx, ocrText, { hash: imageHash, integrity, ...copies });
+}
+
+// Local edit indicators for the downloaded screenshot(s) (lib/imageForensics); IMAGE_FORENSICS=off skips them
+function inspectImages(jobId: string, images: DecodedImage[]): ImageIntegrity | undefined {
+  if ((process.env.IMAGE_FORENSICS || "").toLowerCase() === "off") return undefined;
+  const integrity = imageIntegrity(images);
+  console.log(`[Orchestrator][${jobId}] 🔍 Image integrity: ${integrity.level} (${integrity.score})`);
+  return integrity;
+}
+
+interface EarlierCopies {
+  perceptualHashes: Array<string | null>;
+  previouslySeen: PreviousAnalysis[];
+}
+
+// Perceptual hashes of the downloaded screenshot(s): stored with the job and matched
+// against earlier analyses, so cropped or re-encoded copies link back to them (lib/perceptualHash).
+// Hashing is synchronous; the store calls run beside the cache lookup and OCR. Never rejects.
+async function findEarlierCopies(jobId: string, images: DecodedImage[]): Promise<EarlierCopies> {
+  const perceptualHashes = images.map((image) => perceptualHash(image));
+  await setPerceptualHashes(jobId, perceptualHashes).catch((err: any) => {
+    console.warn(`[Orchestrator][${jobId}] Could not store perceptual hashes:`, err.message);
+  });
+  const previouslySeen = await findPreviouslySeen(perceptualHashes, jobId);
+  if (previouslySeen.length > 0) {
+    console.log(`[Orchestrator][${jobId}] 👀 Seen before in ${previouslySeen.length} earlier analysis(es), closest ${previouslySeen[0].distance} bit(s) apart`);
+  }
+  return { perceptualHashes, previouslySeen };
+}
+
+function ocrError(jobId: string, err: any): Error {
+  console.error(`[Orchestrator][${jobId}] OCR failed:`, err.message);
+  if (err.message?.includes("429") || err.message?.includes("rate limit")) {
+    return new Error("Gemini API rate limit exceeded. Please wait a few minutes and try again.");
+  }
+  if (err.message?.includes("GEMINI_API_KEY")) {
+    return new Error("OCR failed: GEMINI_API_KEY not set. Set it in Vercel → Settings → Environment Variables.");
+  }
+  return new Error(`OCR failed: ${err.message}. Check GEMINI_API_KEY is set and has quota available.`);
+}
+
+/**
+ * Analyze several screenshots of one thread or article as a single post.
+ * Each image is OCR'd on its own (in parallel); the texts are merged in
+ * the given order (see ./multiImage). The result lists the images and
+ * which of them each line and claim came from. One image is analyzeImage.
+ */
+export async function analyzeImages(
+  imageUrls: string[],
+  jobId: string,
+  onEvent?: AnalysisEventListener,
+  options: AnalyzeOptions = {}
+): Promise<AnalysisResult> {
+  if (imageUrls.length === 0) throw new Error("No images to analyze");
+  if (imageUrls.length === 1) return analyzeImage(imageUrls[0], jobId, onEvent, options);
+
+  console.log(`[Orchestrator][${jobId}] 🚀 Starting analysis of ${imageUrls.length} images…`);
+  const ctx = pipelineContext(jobId, imageUrls[0], onEvent, options);
+
+  // ── Step 1: OCR via Gemini Vision (1 API call per image, parallel) ──
+  console.log(`[Orchestrator][${jobId}] Step 1: OCR from ${imageUrls.length} images…`);
+  await ctx.report(`Reading text from ${imageUrls.length} screenshots…`, "ocr");
+  let texts: string[];
+  let imageHash: string;
+  let integrity: ImageIntegrity | undefined;
+  let copies: EarlierCopies;
+  try {
+    if (!process.env.GEMINI_API_KEY) {
+      throw new Error("GEMINI_API_KEY not set in environment variables");
+    }
+    const images = await Promise.all(imageUrls.map((url) => downloadImage(url)));
+    // The same screenshots in the same order
+    imageHash = hashImageSet(images.map(hashImageBytes));
+    const decoded = images.map(decodeImage);
+    const earlier = findEarlierCopies(jobId, decoded);
+
+    const imageHit = await lookupCache(ctx, "image", imageHash);
+    if (imageHit) {
+      console.log(`[Orchestrator][${jobId}] ♻️ Cache hit on image set hash (cached ${imageHit.cachedAt})`);
+      return fromCache(ctx, imageHit, (await earlier).previouslySeen);
+    }
+
+    const ocr = Promise.all(images.map((image) => extractTextFromImage(image)));
+    integrity = inspectImages(jobId, decoded);
+    texts = await ocr;
+    copies = await earlier;
+  } catch (err: any) {
+    throw ocrError(jobId, err);
+  }
+
+  const merged = mergeImageTexts(texts);
+  if (!merged.text.trim()) {
+    throw new Error("No text found in screenshots");
+  }
+  const images: SourceImage[] = imageUrls.map((imageUrl, index) => ({ index, imageUrl, ocrText: texts[index] }));
+  console.log(`[Orchestrator][${jobId}] ✅ OCR extracted ${merged.text.length} chars from ${images.length} images (${merged.lines.length} lines)`);
+  return analyzeFromText(ctx, merged.text, { hash: imageHash, integrity, ...copies }, { images, lines: merged.lines });
+}
+
+/**
+ * Run the pipeline on text that did not come from a screenshot (pasted
+ * posts, benchmark claims). Same result shape; imageUrl is empty and the
+ * result is cached under the text hash only.
+ */
+export async function analyzeText(
+  text: string,
+  jobId: string,
+  onEvent?: AnalysisEventListener,
+  options: AnalyzeOptions = {}
+): Promise<AnalysisResult> {
+  console.log(`[Orchestrator][${jobId}] 🚀 Starting text analysis…`);
+  if (!text.trim()) throw new Error("No text to analyze");
+  return analyzeFromText(pipelineContext(jobId, "", onEvent, options), text.trim(), null);
+}
+
+// The screenshot bytes behind the text: their cache key, forensics and earlier copies
+interface ImageInput extends EarlierCopies {
+  hash: string;
+  integrity?: ImageIntegrity;
+}
+
+// Where a multi-image run's text came from
+interface TextProvenance {
+  images: SourceImage[];
+  lines: OcrLine[];
+}
+
+async function analyzeFromText(
+  ctx: PipelineContext,
+  ocrText: string,
+  image: ImageInput | null,
+  provenance?: TextProvenance
+): Promise<AnalysisResult> {
+  const { jobId, imageUrl, emit, report, profile, scoreProfile, perspectives, cacheScope } = ctx;
+  // Who posted what and when — local parsing of the OCR text
+  const metadata = parseScreenshotMetadata(ocrText);
+  console.log(`[Orchestrator][${jobId}] Post: ${metadata.platform}${metadata.author?.handle ? `, ${metadata.author.handle}` : ""}${metadata.postedAt ? `, ${metadata.postedAt}` : ""}`);
+  emit({ type: "ocr_completed", ocrText, metadata });
+
+  // Same text, different bytes (re-encoded, re-cropped) — remember the new image too
+  const textHash = hashOcrText(ocrText);
+  const textHit = await lookupCache(ctx, "text", textHash);
+  if (textHit) {
+    console.log(`[Orchestrator][${jobId}] ♻️ Cache hit on OCR text hash (cached ${textHit.cachedAt})`);
+    // The forensics describe these bytes, not the ones the cached result was made from
+    const { imageIntegrity: _other, ...cached } = textHit.result;
+    const hit = { ...textHit, result: image?.integrity ? { ...cached, imageIntegrity: image.integrity } : cached };
+    if (image) await putCachedResult([{ kind: "image", hash: image.hash, scope: cacheScope }], hit.result, hit.cachedAt);
+    return fromCache(ctx, hit, image?.previouslySeen);
+  }
 
   // ── Step 2: Extract Claims + OCR Summary (parallel, ~2s) ──
   console.log(`[Orchestrator][${jobId}] Step 2: Extracting claims and generating summary (parallel)…`);
+  await report("Extracting claims…", "claim_extraction");
   
-  let extractedClaims: Array<{ text: string }> = [];
+  let extractedClaims: ExtractedClaim[] = [];
   let ocrSummary: string = "";
   let sources: Source[] = []; // Will be populated in Step 3 after searching per claim
   
   try {
     // Run claim extraction + OCR summary — ALL in parallel
     const [claimsResult, summaryResult] = await Promise.all([
-      extractClaims(ocrText).catch((err: any) => {
+      extractClaims(ocrText, metadata).catch((err: any) => {
         console.warn(`[Orchestrator][${jobId}] Claim extraction failed:`, err.message);
-        const sentences = ocrText.split(/[.!?\n]/).map(s => s.trim()).filter(s => s.length > 15);
+        const sentences = (metadata.body || ocrText).split(/[.!?\n]/).map(s => s.trim()).filter(s => s.length > 15);
         const firstSentence = sentences[0];
         return firstSentence && firstSentence.length > 10
           ? [{ text: firstSentence }]
           : [{ text: ocrText.slice(0, 200) }];
       }),
       // Generate OCR-based summary (describes what the screenshot says)
-      generateOCRSummary(ocrText).catch((err: any) => {
+      generateOCRSummary(ocrText, metadata).catch((err: any) => {
         console.warn(`[Orchestrator][${jobId}] OCR summary failed:`, err.message);
         // Fallback: use first 2 sentences of OCR text
         const sentences = ocrText.split(/[.!?\n]/).map(s => s.trim()).filter(s => s.length > 15);
@@ -76,23 +416,100 @@ export async function analyzeImage(
   }
 
   console.log(`[Orchestrator][${jobId}] ✅ Extracted ${extractedClaims.length} claim(s)`);
+  // Multi-image runs: which screenshot(s) each claim was read from
+  const claimImages = provenance ? extractedClaims.map(c => sourceImagesFor(c.text, provenance.lines)) : null;
+  emit({
+    type: "claims_extracted",
+    claims: extractedClaims.map((c, i) => ({
+      id: `c${i + 1}`,
+      text: c.text,
+      ...(c.quoted ? { quoted: true } : {}),
+      ...(claimImages ? { sourceImages: claimImages[i] } : {}),
+    })),
+  });
+  const withProvenance = (claims: Claim[]): Claim[] =>
+    claims.map((c, i) => ({
+      ...c,
+      ...(extractedClaims[i]?.quoted ? { quoted: true } : {}),
+      ...(claimImages ? { sourceImages: claimImages[i] } : {}),
+    }));
+  const resultImages = {
+    ...(provenance ? { images: provenance.images, ocrLines: provenance.lines } : {}),
+    ...(image?.integrity ? { imageIntegrity: image.integrity } : {}),
+    ...(image?.previouslySeen.length ? { previouslySeen: image.previouslySeen } : {}),
+  };
 
-  // ── Step 3: Search Sources Per Claim + Multi-Model Verification (2 models × N claims, all parallel, ~5-8s) ──
-  console.log(`[Orchestrator][${jobId}] Step 3: Searching sources per claim, then verifying (${extractedClaims.length} claim(s) × 2 models, parallel)…`);
+  // ── Step 3: Search Sources Per Claim + Multi-Model Verification (panel models × N claims, all parallel, ~5-8s) ──
+  console.log(`[Orchestrator][${jobId}] Step 3: Searching sources per claim, then verifying (${extractedClaims.length} claim(s) × ${enabledVerifiers().length} models, parallel)…`);
   
+  // Claims are searched + verified in parallel, so progress is reported as counts
+  const claimTotal = extractedClaims.length;
+  let searchedCount = 0;
+  let verifiedCount = 0;
+  const pages: PageCache = new Map();
+  await report(`Searching sources for ${claimTotal} claim(s)…`, "search");
+
+  // A post by a satire outlet (its @handle, its link preview) marks the poster's own claims;
+  // a quoted post's author marks the quoted claims. Mentions in the text don't count.
+  const postOrigin = detectPostOrigin(metadata);
+  const quotedOrigin = detectPostOrigin(metadata, true);
+  for (const origin of [postOrigin, quotedOrigin]) {
+    if (origin) console.log(`[Orchestrator][${jobId}] 🎭 Screenshot origin: ${origin.kind} (${origin.matches.join(", ")})`);
+  }
+
   // Search sources SPECIFIC to each claim (not shared) — ensures accuracy
   const claimSourcesAndVerifications = await Promise.all(
-    extractedClaims.map(async (claim) => {
-      // Search for sources relevant to THIS specific claim
-      const claimSources = await searchCombined(claim.text, 6).catch((err: any) => {
+    extractedClaims.map(async (claim, claimIdx) => {
+      const claimId = `c${claimIdx + 1}`;
+
+      // Search for sources relevant to THIS specific claim (several focused queries, merged)
+      const foundSources = await searchForClaim(claim.text, 6).catch((err: any) => {
         console.warn(`[Orchestrator][${jobId}] Source search for claim "${claim.text.slice(0, 50)}..." failed:`, err.message);
         return [] as Source[];
       });
+      searchedCount++;
+
+      // Satire is not a factual claim — report where it came from instead of fact-checking it
+      const origin: ClaimOrigin | null = (claim.quoted ? quotedOrigin : postOrigin) ?? detectOriginInSources(foundSources);
+      if (origin?.kind === "satire") {
+        console.log(`[Orchestrator][${jobId}] 🎭 Claim ${claimId} is satire (${origin.detectedIn}) — skipping verification`);
+        emit({ type: "claim_sources_found", claimId, sources: foundSources });
+        verifiedCount++;
+        return { claim, sources: foundSources, verifications: [] as ModelVerification[], origin, factCheckRatings: [] as FactCheckRating[] };
+      }
+      await report(`Reading sources for ${searchedCount}/${claimTotal} claim(s)…`, "evidence");
+
+      // Read the source pages: real dates + the passages verifiers judge against
+      const claimSources = await gatherEvidence(claim.text, foundSources, pages);
+      // Published ClaimReview ratings on fact-checker sources (pages are already cached)
+      const factCheckRatings = await gatherFactChecks(claim.text, claimSources, pages);
+      emit({ type: "claim_sources_found", claimId, sources: claimSources });
+      await report(`Found sources for ${searchedCount}/${claimTotal} claim(s), verifying…`, "verification");
       
       // Verify this claim against its own sources
-      const verifications = await verifyClaimMultiModel(claim.text, claimSources);
+      const verifications = await verifyClaimMultiModel(claim.text, claimSources, (v) => {
+        emit({
+          type: "claim_verified",
+          claimId,
+          modelVerdict: {
+            modelName: v.modelName,
+            confidence: v.confidence,
+            verdict: v.verdict,
+            reasoning: v.reasoning,
+          },
+        });
+      });
+      verifiedCount++;
+      await report(`Verified ${verifiedCount}/${claimTotal} claim(s)…`, "verification");
       
-      return { claim, sources: claimSources, verifications };
+      // Each source's stance toward THIS claim (majority across models).
+      // If no model returned stances, leave them unset rather than guessing "neutral".
+      const stances = combineSourceStances(verifications, claimSources.length);
+      const judgedSources = verifications.some((v) => v.stances)
+        ? claimSources.map((src, i) => ({ ...src, stance: stances[i] }))
+        : claimSources;
+
+      return { claim, sources: judgedSources, verifications, origin, factCheckRatings };
     })
   );
   
@@ -112,91 +529,105 @@ export async function analyzeImage(
   // Update sources for bias detection and final result
   sources = allSources;
   
-  // Quality gate: check if we have any sources at all
-  if (sources.length === 0) {
+  // Quality gate: check if we have any sources at all (satire claims need none)
+  if (sources.length === 0 && claimSourcesAndVerifications.some(r => r.origin?.kind !== "satire")) {
     console.log(`[Orchestrator][${jobId}] ⚠️ Quality gate failed: no sources found for any claim`);
     console.log(`[Orchestrator][${jobId}] ⚠️ Check BACKBOARD_API_KEY is set (for Perplexity search)`);
     
     // Return "unable to verify" result
-    const result: AnalysisResult = {
-      jobId,
-      imageUrl,
-      ocrText,
-      claims: extractedClaims.map((c, i) => ({
+    const noSourceBias = lexicalBiasSignals(ocrText, "Unable to assess bias without sources; sensationalism is from lexical analysis only.");
+    const gateClaims = withProvenance(claimSourcesAndVerifications.map(({ claim: c, origin }, i): Claim => {
+      if (origin?.kind === "satire") return satireClaim(`c${i + 1}`, c.text, [], noSourceBias, origin);
+      return {
         id: `c${i + 1}`,
         text: c.text,
-        verdict: "unable_to_verify" as const,
+        verdict: "unable_to_verify",
         trustScore: 0,
         explanation: `Unable to verify: No web sources found. Ensure BACKBOARD_API_KEY is set for AI-powered search.`,
         sources: [],
-        biasSignals: {
-          politicalBias: 0,
-          sensationalism: 0.3,
-          overallBias: "center",
-          explanation: "Unable to assess bias without sources.",
-        },
+        biasSignals: noSourceBias,
         modelVerdicts: [],
-      })),
+        ...(origin ? { origin } : {}),
+        scoreBreakdown: fixedScoreBreakdown(0, "No web sources found"),
+      };
+    }));
+    const result: AnalysisResult = {
+      jobId,
+      imageUrl,
+      ocrText,
+      metadata,
+      claims: gateClaims,
       aggregateTrustScore: 0,
+      aggregateBreakdown: aggregateTrustScore(gateClaims),
       trustLabel: "Unable to Verify",
+      scoreProfile,
+      biasSignals: noSourceBias,
+      ...resultImages,
       summary: ocrSummary && ocrSummary.length > 10
         ? `${ocrSummary} — Unable to verify: no web sources found.`
         : `Unable to verify claims: No web sources found. Ensure BACKBOARD_API_KEY is set in Vercel environment variables.`,
       generatedAt: new Date().toISOString(),
     };
     
+    // Not cached: this is usually a missing key or a search outage, so a retry should run again
     console.log(`[Orchestrator][${jobId}] ⚠️ Returning "unable to verify" result`);
+    emit({ type: "result", result });
     return result;
   }
 
   console.log(`[Orchestrator][${jobId}] ✅ Multi-model verification complete — ${sources.length} total source(s) found`);
 
-  // ── Step 4: Bias Detection — 3 parallel calls (1 per perspective) ──
-  console.log(`[Orchestrator][${jobId}] Step 4: Bias detection (3 perspectives, parallel)…`);
+  // ── Step 4: Bias Detection — 1 parallel call per perspective (3 by default) ──
+  console.log(`[Orchestrator][${jobId}] Step 4: Bias detection (${perspectives.length} perspectives, parallel)…`);
+  await report("Analyzing bias and framing…", "bias");
   
+  // The post as a whole (summary) plus each claim on its own wording (its trust score)
   let biasSignals: BiasSignals;
+  let claimBias: BiasSignals[];
   try {
     const claimTexts = extractedClaims.map(c => c.text);
-    biasSignals = await detectBias(claimTexts, ocrText, sources);
+    ({ document: biasSignals, claims: claimBias } = await detectBias(claimTexts, ocrText, sources, perspectives));
   } catch (err: any) {
     console.warn(`[Orchestrator][${jobId}] Bias detection failed, using defaults:`, err.message);
-    biasSignals = {
-      politicalBias: 0,
-      sensationalism: 0.3,
-      overallBias: "center" as const,
-      explanation: "Bias detection encountered an error. Results shown without bias analysis.",
-    };
+    const explanation = "Bias detection encountered an error. Sensationalism is from lexical analysis only.";
+    biasSignals = lexicalBiasSignals(ocrText, explanation);
+    claimBias = extractedClaims.map(c => lexicalBiasSignals(c.text, explanation));
   }
 
   console.log(`[Orchestrator][${jobId}] ✅ Bias: ${biasSignals.overallBias}, sens: ${biasSignals.sensationalism}`);
+  emit({
+    type: "bias_completed",
+    biasSignals,
+    claims: claimBias.map((b, i) => ({ claimId: `c${i + 1}`, biasSignals: b })),
+  });
 
   // ── Step 5: Synthesize Results (local computation, 0 API calls) ──
   console.log(`[Orchestrator][${jobId}] Step 5: Synthesizing results…`);
+  await report("Calculating trust scores…", "synthesis");
   
-  const claims: Claim[] = claimSourcesAndVerifications.map(({ claim: extracted, sources: claimSources, verifications }, claimIdx) => {
-    
-    // Calculate real consensus (2 models: GPT-4o + Claude 3.5 Sonnet)
-    const trueVerdicts = verifications.map(v => v.verdict);
-    const likelyTrueCount = trueVerdicts.filter(v => v === "likely_true").length;
-    const likelyMisleadingCount = trueVerdicts.filter(v => v === "likely_misleading").length;
-    
-    // With 2 models: both agree → clear verdict, disagree → mixed
-    let finalVerdict: "likely_true" | "mixed" | "likely_misleading";
-    if (likelyTrueCount === 2) finalVerdict = "likely_true";
-    else if (likelyMisleadingCount === 2) finalVerdict = "likely_misleading";
-    else if (likelyTrueCount === 1 && likelyMisleadingCount === 1) finalVerdict = "mixed";
-    else {
-      // One model said "mixed" — lean toward the other model's verdict
-      if (likelyTrueCount === 1) finalVerdict = "likely_true";
-      else if (likelyMisleadingCount === 1) finalVerdict = "likely_misleading";
-      else finalVerdict = "mixed"; // both said mixed
+  const postWindow = metadata.postedAt ? extractDateWindow(metadata.postedAt) : null;
+  const claims: Claim[] = withProvenance(claimSourcesAndVerifications.map(({ claim: extracted, sources: claimSources, verifications, origin, factCheckRatings }, claimIdx) => {
+    if (origin?.kind === "satire") {
+      return satireClaim(`c${claimIdx + 1}`, extracted.text, claimSources, claimBias[claimIdx], origin);
     }
-    
-    // Average confidence across models
-    const avgConfidence = verifications.reduce((s, v) => s + v.confidence, 0) / verifications.length;
+
+    // Weighted vote over the models that answered; failed models are excluded
+    const answered = verifications.filter(v => !v.error);
+    const failedCount = verifications.length - answered.length;
+    const consensus = weightedConsensus(
+      answered.map(v => ({ verdict: v.verdict, confidence: v.confidence, weight: v.weight })),
+      verifications.reduce((s, v) => s + v.weight, 0),
+      getVerifierPanel().quorum
+    );
+    // A strong published fact-check on the same claim anchors the verdict
+    const anchor = anchoringFactCheck(factCheckRatings);
+    // Some profiles (e.g. science) do not score a claim nobody has reported on
+    const unsourced = claimSources.length === 0 && profile.missingSources.policy === "unverifiable";
+    const finalVerdict = anchor ? anchor.verdict : unsourced ? "unable_to_verify" : consensus.verdict;
+    const avgConfidence = consensus.confidence;
     
     // Convert to ModelVerdict format for UI
-    const modelVerdicts: ModelVerdict[] = verifications.map(v => ({
+    const modelVerdicts: ModelVerdict[] = answered.map(v => ({
       modelName: v.modelName,
       agrees: v.verdict === finalVerdict,
       confidence: v.confidence,
@@ -204,25 +635,61 @@ export async function analyzeImage(
       reasoning: v.reasoning,
     }));
     
-    // Calculate trust score with model agreement (using claim-specific sources)
-    const bp = biasPenalty(biasSignals);
-    const modelAgreement = verifications.filter(v => v.verdict === finalVerdict).length / verifications.length;
-    const score = calculateTrustScore(claimSources, avgConfidence, bp, modelAgreement);
+    // Calculate trust score with model agreement (using claim-specific sources).
+    // Without a quorum there is no verdict to score — unless a fact-check anchors it,
+    // which also keeps the score inside the anchored verdict's label band.
+    // Recency is judged against the claim's own time frame, else the post's date (else any date in the screenshot);
+    // the bias penalty comes from the claim's own wording, not the whole post.
+    const bp = biasPenalty(claimBias[claimIdx]);
+    const timeFrame = extractDateWindow(extracted.text) ?? postWindow ?? extractDateWindow(ocrText);
+    let breakdown = consensus.quorumMet
+      ? trustScoreBreakdown(claimSources, avgConfidence, bp, consensus.agreement, timeFrame, profile)
+      : fixedScoreBreakdown(0, "Not enough verifier models responded", claimSources.length);
+    if (anchor) {
+      if (!consensus.quorumMet) {
+        // The fact-check's verdict stands in for the missing model consensus
+        breakdown = trustScoreBreakdown(claimSources, anchor.verdict === "likely_true" ? 0.9 : 0.1, bp, undefined, timeFrame, profile);
+      }
+      breakdown = adjustScore(breakdown, clampToVerdict(breakdown.score, anchor.verdict, profile), `Anchored by ${anchor.publisher}'s "${anchor.rating}" rating`);
+    }
+    const score = breakdown.score;
     
     // Generate explanation from model reasoning
-    const agreeCount = verifications.filter(v => v.verdict === finalVerdict).length;
-    const explanations = verifications.map(v => v.reasoning).filter(Boolean);
-    const consensusLabel = agreeCount === verifications.length ? "Both models agree" : "Models disagree";
-    const mainExplanation = explanations.length > 0
-      ? `${explanations[0]} (${consensusLabel}: ${agreeCount}/${verifications.length} "${finalVerdict}")`
-      : `Analysis by ${verifications.length} independent AI models.`;
+    const agreeCount = answered.filter(v => v.verdict === finalVerdict).length;
+    const failedNote = failedCount > 0 ? `; ${failedCount} failed model(s) excluded` : "";
+    let mainExplanation: string;
+    if (unsourced) {
+      mainExplanation = `Unable to verify: no sources were found for this claim, and the ${profile.label} profile does not score unsourced claims.`;
+    } else if (!consensus.quorumMet && anchor) {
+      mainExplanation = `Only ${answered.length} of ${verifications.length} verifier model(s) responded.`;
+    } else if (!consensus.quorumMet) {
+      mainExplanation = `Unable to verify: only ${answered.length} of ${verifications.length} verifier model(s) responded${answered[0] ? `. ${answered[0].reasoning}` : "."}`;
+    } else {
+      const leading = answered.find(v => v.verdict === finalVerdict) || answered[0];
+      const consensusLabel = agreeCount === answered.length
+        ? (answered.length === 2 ? "Both models agree" : `All ${answered.length} models agree`)
+        : "Models disagree";
+      mainExplanation = leading?.reasoning
+        ? `${leading.reasoning} (${consensusLabel}: ${agreeCount}/${answered.length} "${finalVerdict}"${failedNote})`
+        : `Analysis by ${answered.length} independent AI models.`;
+    }
+    if (anchor) {
+      const override = consensus.quorumMet && consensus.verdict !== anchor.verdict
+        ? ` It takes precedence over the models' "${consensus.verdict}" verdict.`
+        : "";
+      mainExplanation = `${anchor.publisher} rated this claim "${anchor.rating}" (${anchor.url}).${override} ${mainExplanation}`;
+    }
+    // A known fabricator is verified like any claim, but the origin is called out first
+    if (origin) mainExplanation = `${describeOrigin(origin)} ${mainExplanation}`;
 
     console.log(`[Orchestrator][${jobId}] Claim ${claimIdx + 1}:`, {
       text: extracted.text.slice(0, 50) + "...",
       verdict: finalVerdict,
       confidence: avgConfidence.toFixed(2),
       calculatedScore: score,
-      modelAgreement: `${agreeCount}/${verifications.length}`,
+      modelAgreement: `${agreeCount}/${answered.length}`,
+      failedModels: failedCount,
+      factCheck: anchor ? `${anchor.publisher}: ${anchor.rating}` : "none",
     });
 
     return {
@@ -232,15 +699,17 @@ export async function analyzeImage(
       trustScore: score,
       explanation: mainExplanation,
       sources: claimSources.slice(0, 5), // Use claim-specific sources
-      biasSignals,
+      biasSignals: claimBias[claimIdx],
       modelVerdicts,
+      ...(origin ? { origin } : {}),
+      ...(factCheckRatings.length > 0 ? { factCheckRatings } : {}),
+      scoreBreakdown: breakdown,
     };
-  });
+  }));
 
   // Aggregate trust score
-  const aggScore = claims.length > 0
-    ? Math.round(claims.reduce((s, c) => s + c.trustScore, 0) / claims.length)
-    : 0;
+  const aggregateBreakdown = aggregateTrustScore(claims);
+  const aggScore = aggregateBreakdown.score;
   
   // Generate summary — starts with OCR-based description of what the screenshot says
   const summary = generateSummary(claims, biasSignals, sources.length, ocrSummary);
@@ -251,17 +720,48 @@ export async function analyzeImage(
     jobId,
     imageUrl,
     ocrText,
+    metadata,
     claims,
     aggregateTrustScore: aggScore,
-    trustLabel: trustLabel(aggScore),
+    aggregateBreakdown,
+    trustLabel: claims.length > 0 && claims.every(c => c.verdict === "satire") ? "Satire" : trustLabel(aggScore, profile),
+    scoreProfile,
+    biasSignals,
+    ...resultImages,
     summary,
     generatedAt: new Date().toISOString(),
   };
 
   console.log(`[Orchestrator][${jobId}] ✅ Analysis complete — trust: ${aggScore}%, ${claims.length} claim(s)`);
+  await putCachedResult([
+    ...(image ? [{ kind: "image" as const, hash: image.hash, scope: cacheScope }] : []),
+    { kind: "text", hash: textHash, scope: cacheScope },
+  ], result);
+  if (image) await rememberAnalysis(image.perceptualHashes, result);
+  emit({ type: "result", result });
   return result;
 }
 
+/**
+ * A claim traced to a satire outlet: no verdict from the verifier panel,
+ * a trust score of 0 (it is not a factual report) and the origin as the
+ * explanation.
+ */
+function satireClaim(id: string, text: string, sources: Source[], biasSignals: BiasSignals, origin: ClaimOrigin): Claim {
+  return {
+    id,
+    text,
+    verdict: "satire",
+    trustScore: 0,
+    explanation: describeOrigin(origin),
+    sources: sources.slice(0, 5),
+    biasSignals,
+    modelVerdicts: [],
+    origin,
+    scoreBreakdown: fixedScoreBreakdown(0, "Satire is not scored as a factual claim", sources.length),
+  };
+}
+
 function generateSummary(
   claims: Claim[],
   biasSignals: any,
@@ -277,6 +777,7 @@ function generateSummary(
   const mainVerdict = claims[0]?.verdict || "mixed";
   const verdictDesc = mainVerdict === "likely_true" ? "likely true"
     : mainVerdict === "likely_misleading" ? "likely misleading"
+    : mainVerdict === "satire" ? "satire, not a news report"
     : "unverified";
 
   const biasDesc = biasSignals.overallBias === "center" ? "relatively neutral"
@@ -1,118 +1,58 @@
 // ──────────────────────────────────────────────
-//  Multi-Perspective Bias Detection (3 calls)
-//  1 perspective × 1 model = 3 parallel assessments
-//  Uses Backboard.io HTTP API (no SDK)
+//  Multi-Perspective Bias Detection (1 call per perspective)
+//  The perspectives come from the registry (./perspectives): the
+//  US-left / US-right / international trio by default, or the set
+//  for the user's locale or request (EU, UK, South Asian, public
+//  health, …). Each call rates the post as a whole and every claim
+//  in it, so a neutral statistic next to a loaded accusation gets
+//  its own (lower) penalty. Calls go through the configured LLM provider.
+//  Sensationalism blends the perspectives with the local lexical
+//  analyzer (./sensationalism), which stands in alone when every
+//  perspective call fails.
 // ──────────────────────────────────────────────
 
-import { BiasSignals, Source } from "./types";
+import { BiasAnalysis, BiasSignals, LexicalSensationalism, PerspectiveScore, Source } from "./types";
+import { getLLMProvider } from "./llmProvider";
+import { Perspective, resolvePerspectives } from "./perspectives";
+import { analyzeSensationalism } from "./sensationalism";
 
-const BASE_URL = "https://app.backboard.io/api";
+// Share of the sensationalism score that comes from the lexical analyzer
+export const LEXICAL_WEIGHT = 0.3;
 
-function getHeaders(contentType: string = "application/json"): Record<string, string> {
-  const key = process.env.BACKBOARD_API_KEY;
-  if (!key) {
-    throw new Error("BACKBOARD_API_KEY not set in environment variables");
-  }
-  return {
-    "X-API-Key": key,
-    "Content-Type": contentType,
-  };
-}
-
-// Cache assistant IDs
-const assistantCache: Record<string, string> = {};
-
-async function getOrCreatePerspectiveAssistant(
-  perspective: "us-left" | "us-right" | "international"
-): Promise<string> {
-  const name = `VerifyShot-Bias-${perspective}-v3`;
-  if (assistantCache[name]) return assistantCache[name];
-
-  // Perspective-specific prompts (NO curly braces — Backboard uses Python .format())
-  const prompts: Record<string, string> = {
-    "us-left": [
-      "You are a media bias analyst specializing in progressive and left-leaning framing.",
-      "Analyze claims for political bias and sensationalism.",
-      "Consider how language, framing, and fact selection might appeal to left-leaning audiences.",
-      "Return ONLY valid JSON with these fields: politicalBias (number -1 to 1), sensationalism (number 0 to 1), reasoning (string).",
-      "No markdown, no code blocks, no extra text. Just the JSON object.",
-    ].join("\n"),
-
-    "us-right": [
-      "You are a media bias analyst specializing in conservative and right-leaning framing.",
-      "Analyze claims for political bias and sensationalism.",
-      "Consider how language, framing, and fact selection might appeal to right-leaning audiences.",
-      "Return ONLY valid JSON with these fields: politicalBias (number -1 to 1), sensationalism (number 0 to 1), reasoning (string).",
-      "No markdown, no code blocks, no extra text. Just the JSON object.",
-    ].join("\n"),
-
-    "international": [
-      "You are a neutral international media analyst from a non-US perspective.",
-      "Analyze claims for political bias and sensationalism objectively.",
-      "Consider how the framing might appear to audiences outside the US political context.",
-      "Return ONLY valid JSON with these fields: politicalBias (number -1 to 1), sensationalism (number 0 to 1), reasoning (string).",
-      "No markdown, no code blocks, no extra text. Just the JSON object.",
-    ].join("\n"),
-  };
-
-  try {
-    // Check if assistant exists
-    const listRes = await fetch(`${BASE_URL}/assistants`, {
-      headers: getHeaders(),
-    });
-
-    if (listRes.ok) {
-      const assistants = (await listRes.json()) as any;
-      const existing = Array.isArray(assistants)
-        ? assistants.find((a: any) => a.name === name)
-        : null;
-
-      if (existing?.assistant_id) {
-        assistantCache[name] = existing.assistant_id;
-        return existing.assistant_id;
-      }
-    }
-
-    // Create new assistant
-    const createRes = await fetch(`${BASE_URL}/assistants`, {
-      method: "POST",
-      headers: getHeaders(),
-      body: JSON.stringify({
-        name,
-        system_prompt: prompts[perspective],
-      }),
-    });
-
-    if (!createRes.ok) {
-      const errorText = await createRes.text();
-      throw new Error(`Backboard API error (${createRes.status}): ${errorText}`);
-    }
-
-    const assistant = (await createRes.json()) as any;
-    if (assistant.assistant_id) {
-      assistantCache[name] = assistant.assistant_id;
-      return assistant.assistant_id;
-    }
-
-    throw new Error("Failed to create assistant: no assistant_id in response");
-  } catch (err: any) {
-    console.error(`[BiasDetection] Failed to create assistant "${name}":`, err.message);
-    throw new Error(`Bias assistant creation failed: ${err.message}`);
-  }
-}
+// Appended to every perspective's prompt (NO curly braces — Backboard uses Python .format())
+const RESPONSE_FORMAT = [
+  "Return ONLY valid JSON with these fields: politicalBias (number -1 to 1), sensationalism (number 0 to 1), reasoning (string) for the text as a whole,",
+  "and claims (array with one object per numbered claim: claim (its number), politicalBias, sensationalism, reasoning) rating each claim on its own wording.",
+  "No markdown, no code blocks, no extra text. Just the JSON object.",
+].join("\n");
 
-interface ModelBiasAssessment {
+interface BiasScores {
   politicalBias: number;
   sensationalism: number;
   reasoning: string;
 }
 
+interface ModelBiasAssessment extends BiasScores {
+  claims: BiasScores[];        // one per claim, in order; the whole-text scores where the model gave none
+  failed?: boolean;            // the call failed: left out of the averages
+}
+
+function toScores(raw: any, fallback: Omit<BiasScores, "reasoning"> & { reasoning?: string }): BiasScores {
+  const bias = typeof raw?.politicalBias === "number" ? raw.politicalBias : fallback.politicalBias;
+  const sens = typeof raw?.sensationalism === "number" ? raw.sensationalism : fallback.sensationalism;
+  return {
+    politicalBias: Math.max(-1, Math.min(1, bias)),
+    sensationalism: Math.max(0, Math.min(1, sens)),
+    reasoning: typeof raw?.reasoning === "string" && raw.reasoning ? raw.reasoning : fallback.reasoning ?? "Bias assessment completed.",
+  };
+}
+
 async function assessBias(
-  assistantId: string,
+  perspective: Perspective,
   claims: string[],
   ocrText: string,
   sources: Source[],
-  perspectiveLabel: string
+  lexicalScore: number         // stands in for a sensationalism the model left out
 ): Promise<ModelBiasAssessment> {
   const srcBlock = sources.length > 0
     ? sources.slice(0, 5).map((s, i) => `[${i + 1}] ${s.title} (${s.domain})\n${s.snippet}`).join("\n\n")
@@ -129,112 +69,135 @@ ${contextBlock}
 
 ${srcBlock ? `SOURCES:\n${srcBlock}` : ""}
 
-Analyze the language, framing, and tone of these claims for political bias and sensationalism. Return JSON with politicalBias (number -1 to 1), sensationalism (number 0 to 1), and reasoning (string).`;
+Analyze the language, framing, and tone of the text as a whole and of each numbered claim for political bias and sensationalism. Return JSON with politicalBias (number -1 to 1), sensationalism (number 0 to 1) and reasoning (string) for the whole text, plus claims: one entry per claim with claim (its number), politicalBias, sensationalism and reasoning.`;
 
   try {
-    // Create thread
-    const threadRes = await fetch(`${BASE_URL}/assistants/${assistantId}/threads`, {
-      method: "POST",
-      headers: getHeaders(),
-      body: JSON.stringify({}),
+    const parsed = await getLLMProvider().completeJSON<any>({
+      assistant: `VerifyShot-Bias-${perspective.id}-v4`,
+      systemPrompt: `${perspective.prompt}\n${RESPONSE_FORMAT}`,
+      message: userMessage,
+      model: { provider: "openai", name: "gpt-4o" },
+    }, "object");
+
+    const overall = toScores(parsed, { politicalBias: 0, sensationalism: lexicalScore });
+    // Entries are matched by their claim number; a claim the model skipped gets the whole-text scores
+    const perClaim = Array.isArray(parsed.claims) ? parsed.claims : [];
+    const claimScores = claims.map((_, i) => {
+      const entry = perClaim.find((c: any) => Number(c?.claim) === i + 1) ?? (perClaim.length === claims.length ? perClaim[i] : undefined);
+      return entry ? toScores(entry, overall) : overall;
     });
-
-    if (!threadRes.ok) {
-      throw new Error(`Thread creation failed: ${threadRes.status}`);
-    }
-
-    const thread = (await threadRes.json()) as any;
-    const threadId = thread.thread_id;
-
-    // Send message
-    const formData = new URLSearchParams();
-    formData.append("content", userMessage);
-    formData.append("stream", "false");
-    formData.append("llm_provider", "openai");
-    formData.append("model_name", "gpt-4o");
-
-    const messageRes = await fetch(`${BASE_URL}/threads/${threadId}/messages`, {
-      method: "POST",
-      headers: getHeaders("application/x-www-form-urlencoded"),
-      body: formData.toString(),
-    });
-
-    if (!messageRes.ok) {
-      const errorText = await messageRes.text();
-      throw new Error(`Message failed: ${messageRes.status} - ${errorText}`);
-    }
-
-    const resp = (await messageRes.json()) as any;
-    let content = resp.content || resp.message?.content || "";
-
-    // Parse JSON from response
-    content = content.trim();
-    if (content.startsWith("```")) {
-      content = content.replace(/```(?:json)?\n?/g, "").replace(/```\s*$/g, "").trim();
-    }
-
-    const firstBrace = content.indexOf("{");
-    const lastBrace = content.lastIndexOf("}");
-
-    if (firstBrace === -1 || lastBrace === -1) {
-      throw new Error(`No JSON found in ${perspectiveLabel} response: ${content.slice(0, 200)}`);
-    }
-
-    const jsonStr = content.substring(firstBrace, lastBrace + 1);
-    const parsed = JSON.parse(jsonStr) as any;
-
-    return {
-      politicalBias: Math.max(-1, Math.min(1, parsed.politicalBias || 0)),
-      sensationalism: Math.max(0, Math.min(1, parsed.sensationalism || 0.3)),
-      reasoning: parsed.reasoning || "Bias assessment completed.",
-    };
+    return { ...overall, claims: claimScores };
   } catch (err: any) {
-    console.error(`[BiasDetection] ${perspectiveLabel} failed:`, err.message);
-    return {
-      politicalBias: 0,
-      sensationalism: 0.3,
-      reasoning: `Error: ${err.message}`,
-    };
+    console.error(`[BiasDetection] ${perspective.label} failed:`, err.message);
+    const failed = { politicalBias: 0, sensationalism: 0, reasoning: `Error: ${err.message}` };
+    return { ...failed, claims: claims.map(() => failed), failed: true };
   }
 }
 
 // ──────────────────────────────────────────────
-//  Main export: 3 parallel calls, returns BiasSignals
+//  Main export: 1 call per perspective (parallel), returns
+//  BiasSignals for the whole post and for each claim
 // ──────────────────────────────────────────────
 
 export async function detectBias(
   claims: string[],
   ocrText: string,
-  sources: Source[]
-): Promise<BiasSignals> {
-  console.log(`[BiasDetection] Starting 3-perspective analysis for ${claims.length} claim(s)…`);
-
-  // Step 1: Get/create 3 perspective assistants (parallel)
-  const [leftId, rightId, intlId] = await Promise.all([
-    getOrCreatePerspectiveAssistant("us-left"),
-    getOrCreatePerspectiveAssistant("us-right"),
-    getOrCreatePerspectiveAssistant("international"),
-  ]);
-
-  // Step 2: Run 3 assessments in parallel (one per perspective)
-  const [leftResult, rightResult, intlResult] = await Promise.all([
-    assessBias(leftId, claims, ocrText, sources, "US Left"),
-    assessBias(rightId, claims, ocrText, sources, "US Right"),
-    assessBias(intlId, claims, ocrText, sources, "International"),
-  ]);
-
-  console.log(`[BiasDetection] Results:`, {
-    left: { bias: leftResult.politicalBias, sens: leftResult.sensationalism },
-    right: { bias: rightResult.politicalBias, sens: rightResult.sensationalism },
-    intl: { bias: intlResult.politicalBias, sens: intlResult.sensationalism },
-  });
+  sources: Source[],
+  perspectives: Perspective[] = resolvePerspectives()
+): Promise<BiasAnalysis> {
+  console.log(`[BiasDetection] Starting ${perspectives.length}-perspective analysis (${perspectives.map((p) => p.id).join(", ")}) for ${claims.length} claim(s)…`);
+
+  // Local and free: the fallback when every perspective fails
+  const lexical = analyzeSensationalism(ocrText);
+  const claimLexical = claims.map((c) => analyzeSensationalism(c));
+
+  // Run the assessments in parallel (one per perspective)
+  const results = await Promise.all(perspectives.map((p) => assessBias(p, claims, ocrText, sources, lexical.score)));
+
+  console.log(`[BiasDetection] Results:`, Object.fromEntries(
+    perspectives.map((p, i) => [p.id, results[i].failed ? "failed" : { bias: results[i].politicalBias, sens: results[i].sensationalism }])
+  ), `lexical: ${lexical.score}`);
+
+  const live = perspectives.map((_, i) => i).filter((i) => !results[i].failed);
+  const document = combinePerspectives(
+    live.map((i) => perspectives[i]),
+    live.map((i) => results[i]),
+    lexical,
+    "",
+    perspectives.length
+  );
+  const claimSignals = claims.map((_, c) =>
+    combinePerspectives(
+      live.map((i) => perspectives[i]),
+      live.map((i) => results[i].claims[c]),
+      claimLexical[c],
+      " of this claim",
+      perspectives.length
+    )
+  );
+
+  console.log(`[BiasDetection] ✅ Done — bias: ${document.politicalBias.toFixed(2)}, sens: ${document.sensationalism.toFixed(2)}, agreement: ${document.agreement}; per claim sens: ${claimSignals.map((c) => c.sensationalism.toFixed(2)).join(", ")}`);
+
+  return { document, claims: claimSignals };
+}
 
-  // Step 3: Aggregate
-  const allBiases = [leftResult.politicalBias, rightResult.politicalBias, intlResult.politicalBias];
-  const allSens = [leftResult.sensationalism, rightResult.sensationalism, intlResult.sensationalism];
+const round2 = (n: number) => Math.round(n * 100) / 100;
 
-  const avgBias = allBiases.reduce((s, b) => s + b, 0) / 3;
-  const avgSens = allSens.reduce((s, b) => s + b, 0) / 3;
+/**
+ * Bias signals from the lexical analysis alone — for when the perspective
+ * calls cannot run at all (no sources, or detectBias threw).
+ */
+export function lexicalBiasSignals(text: string, explanation: string): BiasSignals {
+  const lexical = analyzeSensationalism(text);
+  return {
+    politicalBias: 0,
+    sensationalism: lexical.score,
+    overallBias: "center",
+    explanation,
+    ...(lexical.features.length > 0 ? { keySignals: lexical.features.map((f) => f.label) } : {}),
+    lexical,
+  };
+}
+
+/**
+ * Average the perspectives that answered into BiasSignals (for the post,
+ * or one claim), blending in the lexical sensationalism. With no
+ * perspective left the lexical analysis is all there is.
+ */
+function combinePerspectives(
+  perspectives: Perspective[],
+  results: BiasScores[],
+  lexical: LexicalSensationalism,
+  subject: string,
+  requested: number
+): BiasSignals {
+  const lexicalNote = lexical.features.length > 0
+    ? ` Lexical markers: ${lexical.features.map((f) => `${f.label.toLowerCase()} (${f.count})`).join(", ")}.`
+    : "";
+  const lexicalSignals = lexical.features.map((f) => f.label);
+
+  if (results.length === 0) {
+    const sensDesc = lexical.score > 0.7 ? "highly sensational" : lexical.score > 0.4 ? "moderately sensational" : "low sensationalism";
+    return {
+      politicalBias: 0,
+      sensationalism: lexical.score,
+      overallBias: "center",
+      explanation: `Perspective analysis${subject} unavailable (all ${requested} calls failed); lexical analysis shows ${sensDesc}.${lexicalNote}`,
+      confidence: 0,
+      agreement: "low",
+      perspectives: {},
+      keySignals: lexicalSignals.length > 0 ? lexicalSignals : ["Standard reporting"],
+      lexical,
+    };
+  }
+
+  // Aggregate
+  const allBiases = results.map((r) => r.politicalBias);
+  const allSens = results.map((r) => r.sensationalism);
+
+  const avgBias = allBiases.reduce((s, b) => s + b, 0) / results.length;
+  const modelSens = allSens.reduce((s, b) => s + b, 0) / results.length;
+  const avgSens = (1 - LEXICAL_WEIGHT) * modelSens + LEXICAL_WEIGHT * lexical.score;
 
   const stdDev = calculateStdDev(allBiases);
   const confidence = Math.max(0, Math.min(1, 1 - stdDev));
@@ -252,43 +215,38 @@ export async function detectBias(
   else if (avgBias > 0.15) overallBias = "slight_right";
   else overallBias = "center";
 
-  // Key signals from all reasoning
-  const allReasoning = [leftResult.reasoning, rightResult.reasoning, intlResult.reasoning].join(" ");
-  const keySignals = extractKeySignals(allReasoning);
+  // Key signals from all reasoning, then what the lexical analysis found
+  const allReasoning = results.map((r) => r.reasoning).join(" ");
+  const keySignals = [...new Set([...extractKeySignals(allReasoning), ...lexicalSignals])];
 
   // Explanation
   const biasDesc = avgBias < -0.3 ? "left-leaning" : avgBias > 0.3 ? "right-leaning" : "relatively neutral";
   const sensDesc = avgSens > 0.7 ? "highly sensational" : avgSens > 0.4 ? "moderately sensational" : "low sensationalism";
   const agreeDesc = agreement === "high" ? "strong" : agreement === "medium" ? "moderate" : "low";
-  const explanation = `3-perspective analysis (US Left, US Right, International) shows ${biasDesc} framing with ${sensDesc}. ${agreeDesc} agreement among perspectives. Key signals: ${keySignals.slice(0, 3).join(", ")}.`;
-
-  console.log(`[BiasDetection] ✅ Done — bias: ${avgBias.toFixed(2)}, sens: ${avgSens.toFixed(2)}, agreement: ${agreement}`);
+  const lenses = perspectives.map((p) => p.label).join(", ");
+  const failedNote = requested > results.length ? ` (${requested - results.length} of ${requested} failed)` : "";
+  const explanation = `${perspectives.length}-perspective analysis${subject} (${lenses})${failedNote} shows ${biasDesc} framing with ${sensDesc}. ${agreeDesc} agreement among perspectives. Key signals: ${keySignals.slice(0, 3).join(", ")}.${lexicalNote}`;
+
+  const perspectiveScores: Record<string, PerspectiveScore> = {};
+  perspectives.forEach((p, i) => {
+    perspectiveScores[p.id] = {
+      label: p.label,
+      bias: round2(results[i].politicalBias),
+      sensationalism: round2(results[i].sensationalism),
+      consensus: 1, // single model, consensus is 1
+    };
+  });
 
   return {
-    politicalBias: Math.round(avgBias * 100) / 100,
-    sensationalism: Math.round(avgSens * 100) / 100,
+    politicalBias: round2(avgBias),
+    sensationalism: round2(avgSens),
     overallBias,
     explanation,
     confidence,
     agreement,
-    perspectives: {
-      usLeft: {
-        bias: Math.round(leftResult.politicalBias * 100) / 100,
-        sensationalism: Math.round(leftResult.sensationalism * 100) / 100,
-        consensus: 1, // single model, consensus is 1
-      },
-      usRight: {
-        bias: Math.round(rightResult.politicalBias * 100) / 100,
-        sensationalism: Math.round(rightResult.sensationalism * 100) / 100,
-        consensus: 1,
-      },
-      international: {
-        bias: Math.round(intlResult.politicalBias * 100) / 100,
-        sensationalism: Math.round(intlResult.sensationalism * 100) / 100,
-        consensus: 1,
-      },
-    },
+    perspectives: perspectiveScores,
     keySignals,
+    lexical,
   };
 }
 
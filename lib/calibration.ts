@@ -0,0 +1,295 @@
+// ──────────────────────────────────────────────
+//  Calibration — does a 75 really mean "Likely True"?
+//  A benchmark is a set of cases (a screenshot or plain post text)
+//  with the claims a reader would expect and their correct verdict.
+//  The runner (scripts/calibrate.ts) pushes each case through the
+//  pipeline; this module matches the pipeline's claims to the
+//  labels and computes the metrics:
+//    accuracy + confusion matrix  over Claim.verdict
+//    Brier score + reliability    trustScore/100 as P(true), on claims
+//                                 labeled likely_true / likely_misleading
+//    suggested thresholds         trustLabel bands that best reproduce
+//                                 the labels (true / mixed / misleading)
+// ──────────────────────────────────────────────
+
+import { AnalysisResult, Claim } from "./types";
+import { claimMatchScore } from "./factCheck";
+import { LabelThresholds } from "./scoreProfiles";
+
+export type Verdict = Claim["verdict"];
+
+export const VERDICTS: Verdict[] = ["likely_true", "mixed", "likely_misleading", "unable_to_verify", "satire"];
+
+// A benchmark claim counts as found when a pipeline claim shares this much of its terms
+export const CLAIM_MATCH_THRESHOLD = 0.5;
+
+export interface BenchmarkClaim {
+  text: string;
+  expected: Verdict;
+}
+
+export interface BenchmarkCase {
+  id: string;
+  image?: string;              // screenshot URL; without it `text` is analyzed as the post
+  text?: string;
+  fixture?: string;            // test/fixtures/<name>.json answering the case offline
+  profile?: string;            // trust-score profile (default: the run's profile)
+  claims: BenchmarkClaim[];
+  notes?: string;
+}
+
+export interface Benchmark {
+  name: string;
+  version: number;
+  description?: string;
+  cases: BenchmarkCase[];
+}
+
+export interface CalibrationSample {
+  caseId: string;
+  claimText: string;
+  expected: Verdict;
+  verdict: Verdict | "missing"; // "missing": the pipeline extracted no matching claim
+  trustScore: number | null;
+}
+
+export interface ReliabilityBin {
+  from: number;                // trustScore band, inclusive
+  to: number;                  // exclusive (100 is inclusive in the last bin)
+  count: number;
+  meanPredicted: number;       // mean trustScore / 100
+  observed: number;            // share labeled likely_true
+}
+
+export interface ThresholdFit extends LabelThresholds {
+  accuracy: number;            // share of true/mixed/misleading labels the bands reproduce
+}
+
+export interface CalibrationReport {
+  benchmark: string;
+  samples: number;
+  missing: number;
+  accuracy: number;
+  confusion: Record<Verdict, Record<Verdict | "missing", number>>;
+  brierScore: number | null;   // null without any true/misleading-labeled scored claim
+  reliability: ReliabilityBin[];
+  thresholds: { current: ThresholdFit; suggested: ThresholdFit } | null;
+}
+
+// ──────────────────────────────────────────────
+//  Benchmark files
+// ──────────────────────────────────────────────
+
+export function validateBenchmark(raw: any, origin: string): Benchmark {
+  if (!raw || !Array.isArray(raw.cases)) {
+    throw new Error(`Benchmark (${origin}) needs a "cases" array`);
+  }
+  const ids = new Set<string>();
+  const cases: BenchmarkCase[] = raw.cases.map((c: any, i: number) => {
+    const id = String(c?.id || `case-${i + 1}`);
+    if (ids.has(id)) throw new Error(`Benchmark (${origin}) has duplicate case id "${id}"`);
+    ids.add(id);
+    if (!c.image && !c.text) throw new Error(`Benchmark (${origin}) case "${id}" needs "image" or "text"`);
+    if (!Array.isArray(c.claims) || c.claims.length === 0) {
+      throw new Error(`Benchmark (${origin}) case "${id}" needs at least one labeled claim`);
+    }
+    const claims: BenchmarkClaim[] = c.claims.map((claim: any, j: number) => {
+      if (!claim?.text || !VERDICTS.includes(claim.expected)) {
+        throw new Error(`Benchmark (${origin}) case "${id}" claim #${j + 1} needs "text" and "expected" (${VERDICTS.join(", ")})`);
+      }
+      return { text: String(claim.text), expected: claim.expected };
+    });
+    return {
+      id,
+      ...(c.image ? { image: String(c.image) } : {}),
+      ...(c.text ? { text: String(c.text) } : {}),
+      ...(c.fixture ? { fixture: String(c.fixture) } : {}),
+      ...(c.profile ? { profile: String(c.profile) } : {}),
+      claims,
+      ...(c.notes ? { notes: String(c.notes) } : {}),
+    };
+  });
+  return {
+    name: String(raw.name || origin),
+    version: typeof raw.version === "number" ? raw.version : 1,
+    ...(raw.description ? { description: String(raw.description) } : {}),
+    cases,
+  };
+}
+
+/**
+ * Pair each labeled claim with the pipeline claim that matches it best.
+ * A pipeline claim is used at most once; labels without a match are "missing".
+ */
+export function matchClaims(benchmarkCase: BenchmarkCase, result: AnalysisResult | null): CalibrationSample[] {
+  const used = new Set<string>();
+  return benchmarkCase.claims.map((label) => {
+    let best: Claim | null = null;
+    let bestScore = CLAIM_MATCH_THRESHOLD;
+    for (const claim of result?.claims ?? []) {
+      if (used.has(claim.id)) continue;
+      const score = claimMatchScore(label.text, claim.text);
+      if (score >= bestScore) {
+        best = claim;
+        bestScore = score;
+      }
+    }
+    if (best) used.add(best.id);
+    return {
+      caseId: benchmarkCase.id,
+      claimText: label.text,
+      expected: label.expected,
+      verdict: best ? best.verdict : "missing",
+      trustScore: best ? best.trustScore : null,
+    };
+  });
+}
+
+// ──────────────────────────────────────────────
+//  Metrics
+// ──────────────────────────────────────────────
+
+const round = (n: number) => Math.round(n * 1000) / 1000;
+
+export function confusionMatrix(samples: CalibrationSample[]): CalibrationReport["confusion"] {
+  const matrix = {} as CalibrationReport["confusion"];
+  for (const expected of VERDICTS) {
+    matrix[expected] = {} as Record<Verdict | "missing", number>;
+    for (const actual of [...VERDICTS, "missing" as const]) matrix[expected][actual] = 0;
+  }
+  for (const s of samples) matrix[s.expected][s.verdict]++;
+  return matrix;
+}
+
+// The scored, binary-labeled samples: P(true) = trustScore / 100
+function binarySamples(samples: CalibrationSample[]): Array<{ p: number; outcome: number }> {
+  return samples
+    .filter((s) => s.trustScore !== null && (s.expected === "likely_true" || s.expected === "likely_misleading"))
+    .map((s) => ({ p: s.trustScore! / 100, outcome: s.expected === "likely_true" ? 1 : 0 }));
+}
+
+/** Mean squared error of trustScore/100 against the true/misleading labels (0 is perfect, 0.25 is a coin flip). */
+export function brierScore(samples: CalibrationSample[]): number | null {
+  const binary = binarySamples(samples);
+  if (binary.length === 0) return null;
+  return round(binary.reduce((s, b) => s + (b.p - b.outcome) ** 2, 0) / binary.length);
+}
+
+/** How often claims in each trustScore band are actually true. Empty bands are left out. */
+export function reliabilityCurve(samples: CalibrationSample[], bins = 10): ReliabilityBin[] {
+  const width = 100 / bins;
+  const curve: ReliabilityBin[] = [];
+  const binary = binarySamples(samples);
+  for (let i = 0; i < bins; i++) {
+    const from = i * width;
+    const to = (i + 1) * width;
+    const inBin = binary.filter((b) => b.p * 100 >= from && (b.p * 100 < to || (i === bins - 1 && b.p * 100 <= to)));
+    if (inBin.length === 0) continue;
+    curve.push({
+      from: round(from),
+      to: round(to),
+      count: inBin.length,
+      meanPredicted: round(inBin.reduce((s, b) => s + b.p, 0) / inBin.length),
+      observed: round(inBin.reduce((s, b) => s + b.outcome, 0) / inBin.length),
+    });
+  }
+  return curve;
+}
+
+type LabelBand = "likely_true" | "mixed" | "likely_misleading";
+
+function band(score: number, t: LabelThresholds): LabelBand {
+  if (score >= t.likelyTrue) return "likely_true";
+  if (score >= t.mixed) return "mixed";
+  return "likely_misleading";
+}
+
+function thresholdAccuracy(samples: Array<{ score: number; expected: LabelBand }>, t: LabelThresholds): number {
+  return samples.filter((s) => band(s.score, t) === s.expected).length / samples.length;
+}
+
+/**
+ * The trustLabel thresholds that reproduce the most labels, searched over
+ * every whole-number pair. Ties go to the pair closest to the current one,
+ * so a benchmark that already agrees suggests no change.
+ */
+export function suggestThresholds(
+  samples: CalibrationSample[],
+  current: LabelThresholds
+): { current: ThresholdFit; suggested: ThresholdFit } | null {
+  const labeled = samples
+    .filter((s) => s.trustScore !== null && (s.expected === "likely_true" || s.expected === "mixed" || s.expected === "likely_misleading"))
+    .map((s) => ({ score: s.trustScore!, expected: s.expected as LabelBand }));
+  if (labeled.length === 0) return null;
+
+  let best: ThresholdFit = { ...current, accuracy: thresholdAccuracy(labeled, current) };
+  let bestDistance = 0;
+  for (let mixed = 1; mixed < 100; mixed++) {
+    for (let likelyTrue = mixed + 1; likelyTrue <= 100; likelyTrue++) {
+      const accuracy = thresholdAccuracy(labeled, { likelyTrue, mixed });
+      const distance = Math.abs(likelyTrue - current.likelyTrue) + Math.abs(mixed - current.mixed);
+      if (accuracy > best.accuracy || (accuracy === best.accuracy && distance < bestDistance)) {
+        best = { likelyTrue, mixed, accuracy };
+        bestDistance = distance;
+      }
+    }
+  }
+  return {
+    current: { ...current, accuracy: round(thresholdAccuracy(labeled, current)) },
+    suggested: { ...best, accuracy: round(best.accuracy) },
+  };
+}
+
+export function calibrationReport(
+  benchmark: string,
+  samples: CalibrationSample[],
+  currentThresholds: LabelThresholds
+): CalibrationReport {
+  const correct = samples.filter((s) => s.verdict === s.expected).length;
+  return {
+    benchmark,
+    samples: samples.length,
+    missing: samples.filter((s) => s.verdict === "missing").length,
+    accuracy: samples.length > 0 ? round(correct / samples.length) : 0,
+    confusion: confusionMatrix(samples),
+    brierScore: brierScore(samples),
+    reliability: reliabilityCurve(samples),
+    thresholds: suggestThresholds(samples, currentThresholds),
+  };
+}
+
+/** The report as a plain-text table for the terminal. */
+export function formatCalibrationReport(report: CalibrationReport): string {
+  const pct = (n: number) => `${Math.round(n * 1000) / 10}%`;
+  const lines: string[] = [
+    `Benchmark: ${report.benchmark}`,
+    `Claims: ${report.samples} (${report.missing} not extracted)`,
+    `Verdict accuracy: ${pct(report.accuracy)}`,
+    `Brier score: ${report.brierScore ?? "n/a (no true/misleading labels were scored)"}`,
+    "",
+    "Confusion matrix (rows: expected, columns: pipeline verdict)",
+  ];
+  const columns: Array<Verdict | "missing"> = [...VERDICTS, "missing"];
+  const used = VERDICTS.filter((v) => columns.some((c) => report.confusion[v][c] > 0));
+  const width = Math.max(...columns.map((c) => c.length), ...used.map((v) => v.length)) + 2;
+  lines.push("".padEnd(width) + columns.map((c) => c.padStart(width)).join(""));
+  for (const expected of used) {
+    lines.push(expected.padEnd(width) + columns.map((c) => String(report.confusion[expected][c]).padStart(width)).join(""));
+  }
+
+  lines.push("", "Reliability (trustScore band → share actually true)");
+  if (report.reliability.length === 0) lines.push("  n/a");
+  for (const bin of report.reliability) {
+    lines.push(`  ${String(bin.from).padStart(3)}–${String(bin.to).padEnd(3)}  n=${String(bin.count).padEnd(4)} predicted ${pct(bin.meanPredicted).padEnd(6)} observed ${pct(bin.observed)}`);
+  }
+
+  if (report.thresholds) {
+    const { current, suggested } = report.thresholds;
+    lines.push(
+      "",
+      `trustLabel thresholds: current Likely True ≥ ${current.likelyTrue}, Mixed ≥ ${current.mixed} (${pct(current.accuracy)} of labels)`,
+      `                       suggested Likely True ≥ ${suggested.likelyTrue}, Mixed ≥ ${suggested.mixed} (${pct(suggested.accuracy)} of labels)`
+    );
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,69 @@
+// ──────────────────────────────────────────────
+//  Weighted-vote consensus over the verifier panel
+//  Works for any number of models. Failed models are excluded —
+//  they neither vote nor count toward agreement or confidence.
+//
+//  1. Quorum: at least quorum.minModels answered, carrying at least
+//     quorum.minWeightFraction of the enabled panel's weight.
+//     Otherwise the claim is "unable_to_verify".
+//  2. Each answering model adds its weight to its verdict.
+//     The verdict with the most weight wins.
+//  3. Ties: likely_true vs likely_misleading → "mixed" (the evidence
+//     is contested); "mixed" vs one clear verdict → the clear verdict
+//     (a hedge defers to a model that committed).
+// ──────────────────────────────────────────────
+
+import { QuorumRules } from "./verifierPanel";
+
+export type ModelVerdictValue = "likely_true" | "mixed" | "likely_misleading";
+
+export interface WeightedVote {
+  verdict: ModelVerdictValue;
+  confidence: number;          // 0-1, the model's truth likelihood
+  weight: number;
+}
+
+export interface ConsensusResult {
+  verdict: ModelVerdictValue | "unable_to_verify";
+  quorumMet: boolean;
+  agreement: number;           // 0-1, winning weight / answering weight
+  confidence: number;          // 0-1, weight-averaged confidence of answering models
+  responded: number;
+  respondedWeight: number;
+  panelWeight: number;
+  tally: Record<ModelVerdictValue, number>;
+}
+
+const EPSILON = 1e-9;
+
+export function weightedConsensus(votes: WeightedVote[], panelWeight: number, quorum: QuorumRules): ConsensusResult {
+  const tally: Record<ModelVerdictValue, number> = { likely_true: 0, mixed: 0, likely_misleading: 0 };
+  let respondedWeight = 0;
+  let weightedConfidence = 0;
+  for (const vote of votes) {
+    tally[vote.verdict] += vote.weight;
+    respondedWeight += vote.weight;
+    weightedConfidence += vote.weight * vote.confidence;
+  }
+
+  const confidence = respondedWeight > 0 ? weightedConfidence / respondedWeight : 0;
+  const quorumMet =
+    votes.length >= quorum.minModels &&
+    panelWeight > 0 &&
+    respondedWeight / panelWeight + EPSILON >= quorum.minWeightFraction;
+
+  const base = { quorumMet, confidence, responded: votes.length, respondedWeight, panelWeight, tally };
+  if (!quorumMet) {
+    return { ...base, verdict: "unable_to_verify", agreement: 0 };
+  }
+
+  const top = Math.max(tally.likely_true, tally.mixed, tally.likely_misleading);
+  const leaders = (Object.keys(tally) as ModelVerdictValue[]).filter((v) => Math.abs(tally[v] - top) < EPSILON);
+
+  let verdict: ModelVerdictValue;
+  if (leaders.length === 1) verdict = leaders[0];
+  else if (leaders.includes("likely_true") && leaders.includes("likely_misleading")) verdict = "mixed";
+  else verdict = leaders.find((v) => v !== "mixed") ?? "mixed";
+
+  return { ...base, verdict, agreement: respondedWeight > 0 ? tally[verdict] / respondedWeight : 0 };
+}
@@ -0,0 +1,194 @@
+// ──────────────────────────────────────────────
+//  Domain credibility registry
+//  Scores, categories and countries live in config/domains.json
+//  (versioned; change it through reviewed PRs). Lookup order:
+//    1. reviewed runtime override (POST /api/admin/domains)
+//    2. the domain itself, then each parent domain
+//       (edition.cnn.com → cnn.com; factcheck.afp.com beats afp.com)
+//    3. suffix rules (.gov, .edu, …)
+//    4. registry default
+//  Handles of satire outlets and known fabricators are listed too
+//  (lookupHandle) so screenshots of their posts can be recognised.
+//  Overrides are kept in the "domain-overrides" namespace of the job
+//  store so every instance sees them; lookups read an in-memory
+//  snapshot refreshed by refreshDomainOverrides().
+// ──────────────────────────────────────────────
+
+import registryFile from "../config/domains.json";
+import { DomainCategory } from "./types";
+import { createStore, JobStore } from "./jobStore";
+
+export interface DomainEntry {
+  score: number;               // 0-1
+  category: DomainCategory;
+  country?: string;            // ISO 3166-1 alpha-2
+  notes?: string;
+}
+
+export interface DomainOverride extends Partial<DomainEntry> {
+  domain: string;
+  reviewedBy: string;
+  reason: string;
+  updatedAt: string;
+}
+
+export interface DomainInfo extends DomainEntry {
+  domain: string;              // the hostname that was looked up (no www.)
+  matched: string | null;      // registry key / suffix that matched, null for the default
+  origin: "override" | "registry" | "suffix" | "default";
+}
+
+/** A social-media handle of a satire outlet or known fabricator. */
+export interface HandleEntry {
+  category: "satire" | "fabricator";
+  domain: string;
+  name: string;
+}
+
+interface SuffixRule extends DomainEntry {
+  suffix: string;
+}
+
+interface RegistryFile {
+  version: string;
+  updatedAt: string;
+  defaults: { score: number; category: DomainCategory };
+  suffixRules: SuffixRule[];
+  domains: Record<string, DomainEntry>;
+  handles: Record<string, HandleEntry>;
+}
+
+export const DOMAIN_CATEGORIES: DomainCategory[] = [
+  "wire_service", "fact_checker", "news", "state_media", "satire", "fabricator",
+  "user_generated", "academic", "government", "reference", "unknown",
+];
+
+const registry = registryFile as RegistryFile;
+
+export function registryVersion(): string {
+  return registry.version;
+}
+
+export function normalizeDomain(hostname: string): string {
+  return hostname.trim().toLowerCase().replace(/\.$/, "").replace(/^www\./, "");
+}
+
+// ──────────────────────────────────────────────
+//  Reviewed overrides
+// ──────────────────────────────────────────────
+
+const OVERRIDE_REFRESH_MS = 60_000;
+
+let overrideStore: JobStore<DomainOverride> | null = null;
+let overrides = new Map<string, DomainOverride>();
+let overridesLoadedAt = 0;
+
+function getOverrideStore(): JobStore<DomainOverride> {
+  if (!overrideStore) overrideStore = createStore<DomainOverride>("domain-overrides");
+  return overrideStore;
+}
+
+/** Swap the backend (tests). */
+export function setDomainOverrideStore(store: JobStore<DomainOverride> | null): void {
+  overrideStore = store;
+  overrides = new Map();
+  overridesLoadedAt = 0;
+}
+
+/**
+ * Reload the override snapshot if it is older than a minute (or `force`).
+ * Call before a batch of lookups; a store outage keeps the last snapshot.
+ */
+export async function refreshDomainOverrides(force = false): Promise<void> {
+  if (!force && Date.now() - overridesLoadedAt < OVERRIDE_REFRESH_MS) return;
+  try {
+    const records = await getOverrideStore().list();
+    overrides = new Map(records.map((r) => [r.key, r.value]));
+    overridesLoadedAt = Date.now();
+  } catch (err: any) {
+    console.warn(`[DomainRegistry] Could not load overrides (keeping ${overrides.size}):`, err.message);
+  }
+}
+
+export async function listDomainOverrides(): Promise<DomainOverride[]> {
+  await refreshDomainOverrides(true);
+  return [...overrides.values()].sort((a, b) => a.domain.localeCompare(b.domain));
+}
+
+export async function saveDomainOverride(override: Omit<DomainOverride, "updatedAt">): Promise<DomainOverride> {
+  const record: DomainOverride = { ...override, domain: normalizeDomain(override.domain), updatedAt: new Date().toISOString() };
+  // Overrides never expire — they are removed explicitly
+  await getOverrideStore().set(record.domain, record, 0);
+  await refreshDomainOverrides(true);
+  return record;
+}
+
+export async function deleteDomainOverride(domain: string): Promise<boolean> {
+  const key = normalizeDomain(domain);
+  const existed = (await getOverrideStore().get(key)) !== null;
+  await getOverrideStore().delete(key);
+  await refreshDomainOverrides(true);
+  return existed;
+}
+
+// ──────────────────────────────────────────────
+//  Lookup
+// ──────────────────────────────────────────────
+
+function registryMatch(domain: string): { key: string; entry: DomainEntry } | null {
+  const labels = domain.split(".");
+  // Stop before the bare TLD ("com") — suffix rules handle those
+  for (let i = 0; i < labels.length - 1; i++) {
+    const candidate = labels.slice(i).join(".");
+    const entry = registry.domains[candidate];
+    if (entry) return { key: candidate, entry };
+  }
+  return null;
+}
+
+export function lookupDomain(hostname: string): DomainInfo {
+  const domain = normalizeDomain(hostname);
+  const base = registryMatch(domain);
+  let info: DomainInfo;
+
+  if (base) {
+    info = { domain, matched: base.key, origin: "registry", ...base.entry };
+  } else {
+    const rule = registry.suffixRules.find((r) => domain.endsWith(r.suffix));
+    info = rule
+      ? { domain, matched: rule.suffix, origin: "suffix", score: rule.score, category: rule.category, country: rule.country }
+      : { domain, matched: null, origin: "default", ...registry.defaults };
+  }
+
+  // Overrides apply to the domain and its subdomains, closest parent first
+  const labels = domain.split(".");
+  for (let i = 0; i < labels.length - 1; i++) {
+    const override = overrides.get(labels.slice(i).join("."));
+    if (!override) continue;
+    return {
+      ...info,
+      matched: override.domain,
+      origin: "override",
+      ...(override.score !== undefined ? { score: override.score } : {}),
+      ...(override.category !== undefined ? { category: override.category } : {}),
+      ...(override.country !== undefined ? { country: override.country } : {}),
+      ...(override.notes !== undefined ? { notes: override.notes } : {}),
+    };
+  }
+  return info;
+}
+
+export function credibilityForDomain(hostname: string): number {
+  return lookupDomain(hostname).score;
+}
+
+/** Registry entry for a social-media handle (with or without the @). */
+export function lookupHandle(handle: string): HandleEntry | null {
+  return registry.handles[handle.replace(/^@/, "").toLowerCase()] ?? null;
+}
+
+/** The registry fields every Source carries. */
+export function domainFields(hostname: string): { credibilityScore: number; category: DomainCategory } {
+  const info = lookupDomain(hostname);
+  return { credibilityScore: info.score, category: info.category };
+}
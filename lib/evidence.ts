@@ -0,0 +1,427 @@
+// ──────────────────────────────────────────────
+//  Evidence stage — read the actual source pages
+//  Search snippets are often empty or reconstructed by regex, so
+//  verifiers would judge claims from headlines alone. For each
+//  source: download the page, extract the main article text and
+//  publication date, and keep the passages most relevant to the
+//  claim (Source.evidencePassages). 0 LLM calls.
+//  EVIDENCE_FETCH=off skips the stage (sources pass through).
+// ──────────────────────────────────────────────
+
+import { promises as dns } from "dns";
+import { isIP, LookupFunction } from "net";
+import { Agent } from "undici";
+import { DateConfidence, Source } from "./types";
+import { extractQuotedPhrases } from "./queryPlanner";
+import { DatedValue, isBetterDate, toIsoDate } from "./sourceDates";
+
+export const PAGE_TIMEOUT_MS = 5000;
+export const MAX_PAGE_BYTES = 1_500_000;
+const MAX_PASSAGES = 3;
+const MAX_PASSAGE_CHARS = 420;
+const MIN_PARAGRAPH_CHARS = 40;
+
+export interface PageContent {
+  title: string;
+  text: string;                // main article text, paragraphs separated by \n\n
+  paragraphs: string[];
+  publishedAt: string | null;  // YYYY-MM-DD
+  publishedAtConfidence: DateConfidence;
+  structuredData: any[];       // parsed JSON-LD blocks (ClaimReview etc. — see factCheck.ts)
+}
+
+/** Per-analysis page cache — the same URL often backs several claims. */
+export type PageCache = Map<string, Promise<PageContent | null>>;
+
+/** fetchPage through the cache: each URL is downloaded at most once per analysis. */
+export function cachedPage(pages: PageCache, url: string): Promise<PageContent | null> {
+  let page = pages.get(url);
+  if (!page) {
+    page = fetchPage(url).catch(() => null);
+    pages.set(url, page);
+  }
+  return page;
+}
+
+// ──────────────────────────────────────────────
+//  Fetching
+// ──────────────────────────────────────────────
+
+// URLs come from LLM output — never let them point the server at itself.
+// Checked for the first URL, every redirect hop and every address a hostname resolves to;
+// the connection is then pinned to those checked addresses (no second DNS answer).
+const MAX_REDIRECTS = 5;
+
+type HostLookup = (hostname: string) => Promise<string[]>;
+
+const systemLookup: HostLookup = async (hostname) =>
+  (await dns.lookup(hostname, { all: true, verbatim: true })).map((a) => a.address);
+
+let lookupHost: HostLookup = systemLookup;
+
+/** Swap the DNS resolver (tests). */
+export function setHostLookup(lookup: HostLookup | null): void {
+  lookupHost = lookup ?? systemLookup;
+}
+
+// Loopback, private, link-local, shared, documentation, benchmarking, multicast and reserved ranges
+function isPrivateAddress(address: string): boolean {
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateAddress(mapped[1]);
+  if (isIP(address) === 4) {
+    const [a, b, c] = address.split(".").map((n) => parseInt(n, 10));
+    return a === 0 || a === 10 || a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||          // 100.64.0.0/10 carrier-grade NAT
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 0 && (c === 0 || c === 2)) || // 192.0.0.0/24 IETF, 192.0.2.0/24 TEST-NET-1
+      (a === 192 && b === 168) ||
+      (a === 198 && (b === 18 || b === 19)) ||        // 198.18.0.0/15 benchmarking
+      (a === 198 && b === 51 && c === 100) ||         // TEST-NET-2
+      (a === 203 && b === 0 && c === 113) ||          // TEST-NET-3
+      a >= 224;                                       // multicast 224/4, reserved 240/4, broadcast
+  }
+  if (isIP(address) === 6) {
+    const ip = address.toLowerCase();
+    return ip === "::" || ip === "::1" || /^f[cd]/.test(ip) || /^fe[89ab]/.test(ip) || ip.startsWith("ff");
+  }
+  return true;
+}
+
+/**
+ * The addresses `raw` may be fetched from: [] for a public IP literal (nothing
+ * to resolve), the checked DNS answer for a hostname, null when it must not be fetched.
+ */
+async function fetchableAddresses(raw: string): Promise<string[] | null> {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+  const host = url.hostname.toLowerCase();
+  if (host === "localhost" || host.endsWith(".localhost") || host.endsWith(".local") || host.endsWith(".internal")) return null;
+  if (/^\[/.test(host) || host.includes(":")) return null; // IPv6 literals
+  if (isIP(host)) return isPrivateAddress(host) ? null : [];
+
+  // A public-looking name may still resolve to an internal address
+  try {
+    const addresses = await lookupHost(host);
+    return addresses.length > 0 && !addresses.some(isPrivateAddress) ? addresses : null;
+  } catch (err: any) {
+    console.log(`[Evidence] ${host} → DNS lookup failed: ${err.code || err.message}`);
+    return null;
+  }
+}
+
+// An agent that connects each checked hostname to its checked addresses only
+function pinnedAgent(pins: Map<string, string[]>): Agent {
+  return new Agent({
+    connect: {
+      lookup: ((hostname: string, options: any, callback: any) => {
+        const addresses = pins.get(hostname.toLowerCase());
+        if (!addresses || addresses.length === 0) {
+          callback(Object.assign(new Error(`${hostname} was not checked before connecting`), { code: "ENOTFOUND" }));
+        } else if (options?.all) {
+          callback(null, addresses.map((address) => ({ address, family: isIP(address) })));
+        } else {
+          callback(null, addresses[0], isIP(addresses[0]));
+        }
+      }) as LookupFunction,
+    },
+  });
+}
+
+// Read at most `maxBytes` of the body; the rest is never downloaded
+async function readCapped(res: Response, maxBytes: number): Promise<string> {
+  if (!res.body) return "";
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (size < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.byteLength;
+  }
+  if (size >= maxBytes) await reader.cancel().catch(() => {});
+  return new TextDecoder().decode(Buffer.concat(chunks).subarray(0, maxBytes));
+}
+
+export async function fetchPage(url: string, timeoutMs = PAGE_TIMEOUT_MS): Promise<PageContent | null> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const pins = new Map<string, string[]>();
+  const agent = pinnedAgent(pins);
+  try {
+    // Redirects are followed by hand so every hop gets the same checks
+    let current = url;
+    for (let hop = 0; ; hop++) {
+      const addresses = await fetchableAddresses(current);
+      if (!addresses) {
+        if (hop > 0) console.log(`[Evidence] ${url} → redirect to ${current} refused`);
+        return null;
+      }
+      if (addresses.length > 0) pins.set(new URL(current).hostname.toLowerCase(), addresses);
+      const res = await fetch(current, {
+        headers: {
+          "User-Agent": "Mozilla/5.0 (compatible; VerifyShot/1.0; +https://verifyshot.app)",
+          Accept: "text/html,application/xhtml+xml",
+        },
+        redirect: "manual",
+        signal: controller.signal,
+        dispatcher: agent,
+      } as RequestInit);
+
+      const location = res.status >= 300 && res.status < 400 ? res.headers.get("location") : null;
+      if (location) {
+        await res.body?.cancel().catch(() => {});
+        if (hop >= MAX_REDIRECTS) {
+          console.log(`[Evidence] ${url} → more than ${MAX_REDIRECTS} redirects`);
+          return null;
+        }
+        current = new URL(location, current).toString();
+        continue;
+      }
+      if (!res.ok) {
+        console.log(`[Evidence] ${url} → HTTP ${res.status}`);
+        return null;
+      }
+      const contentType = res.headers.get("content-type") || "";
+      if (contentType && !/html|xml/.test(contentType)) return null;
+
+      return extractArticle(await readCapped(res, MAX_PAGE_BYTES));
+    }
+  } catch (err: any) {
+    console.log(`[Evidence] ${url} → ${err.name === "AbortError" ? "timed out" : err.message}`);
+    return null;
+  } finally {
+    clearTimeout(timer);
+    agent.destroy().catch(() => {});
+  }
+}
+
+// ──────────────────────────────────────────────
+//  HTML → article text + publication date
+// ──────────────────────────────────────────────
+
+const ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: " ",
+  rsquo: "’", lsquo: "‘", rdquo: "”", ldquo: "“", mdash: "—", ndash: "–", hellip: "…",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (whole, code: string) => {
+    if (code[0] === "#") {
+      const n = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(n) ? String.fromCodePoint(n) : whole;
+    }
+    return ENTITIES[code.toLowerCase()] ?? whole;
+  });
+}
+
+function stripTags(html: string): string {
+  return decodeEntities(html.replace(/<[^>]+>/g, " ")).replace(/\s+/g, " ").trim();
+}
+
+function metaContent(html: string, names: string[]): string | null {
+  for (const name of names) {
+    const escaped = name.replace(/[.:]/g, "\\$&");
+    const patterns = [
+      new RegExp(`<meta[^>]+(?:property|name|itemprop)=["']${escaped}["'][^>]*content=["']([^"']+)["']`, "i"),
+      new RegExp(`<meta[^>]+content=["']([^"']+)["'][^>]*(?:property|name|itemprop)=["']${escaped}["']`, "i"),
+    ];
+    for (const p of patterns) {
+      const m = html.match(p);
+      if (m) return decodeEntities(m[1]);
+    }
+  }
+  return null;
+}
+
+/**
+ * Publication date from meta tags or JSON-LD (high confidence), then the
+ * first <time datetime> (medium — it may date a comment or related story).
+ */
+export function findPublishedDate(html: string): DatedValue | null {
+  const meta = metaContent(html, [
+    "article:published_time", "og:published_time", "datePublished",
+    "pubdate", "publishdate", "date", "dc.date", "dc.date.issued", "sailthru.date", "parsely-pub-date",
+  ]);
+  const fromMeta = toIsoDate(meta);
+  if (fromMeta) return { date: fromMeta, confidence: "high" };
+
+  const ld = html.match(/"datePublished"\s*:\s*"([^"]+)"/);
+  const fromLd = toIsoDate(ld?.[1]);
+  if (fromLd) return { date: fromLd, confidence: "high" };
+
+  const time = html.match(/<time[^>]+datetime=["']([^"']+)["']/i);
+  const fromTime = toIsoDate(time?.[1]);
+  return fromTime ? { date: fromTime, confidence: "medium" } : null;
+}
+
+export function extractPublishedDate(html: string): string | null {
+  return findPublishedDate(html)?.date ?? null;
+}
+
+/** Every parseable <script type="application/ld+json"> block, in page order. */
+export function extractJsonLd(html: string): any[] {
+  const blocks: any[] = [];
+  const regex = /<script[^>]+type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+  let m;
+  while ((m = regex.exec(html)) !== null) {
+    try {
+      blocks.push(JSON.parse(m[1].trim()));
+    } catch {
+      // Malformed markup is common — skip the block
+    }
+  }
+  return blocks;
+}
+
+export function extractArticle(html: string): PageContent {
+  const titleMatch = metaContent(html, ["og:title"]) || html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1] || "";
+  const published = findPublishedDate(html);
+
+  // Drop chrome and non-content blocks before looking for paragraphs
+  let body = html
+    .replace(/<!--[\s\S]*?-->/g, " ")
+    .replace(/<(script|style|noscript|svg|iframe|form|nav|header|footer|aside|figure)\b[\s\S]*?<\/\1>/gi, " ");
+
+  // Prefer the <article> (or <main>) region when the page has one
+  const region = body.match(/<article\b[\s\S]*?<\/article>/i)?.[0] || body.match(/<main\b[\s\S]*?<\/main>/i)?.[0];
+  if (region) body = region;
+
+  const paragraphs: string[] = [];
+  const pRegex = /<(p|li|blockquote|h2|h3)\b[^>]*>([\s\S]*?)<\/\1>/gi;
+  let m;
+  while ((m = pRegex.exec(body)) !== null) {
+    const text = stripTags(m[2]);
+    if (text.length >= MIN_PARAGRAPH_CHARS) paragraphs.push(text);
+  }
+
+  // Pages without paragraph markup: fall back to the visible text, in chunks
+  if (paragraphs.length === 0) {
+    const text = stripTags(body);
+    for (let i = 0; i < text.length && paragraphs.length < 40; i += MAX_PASSAGE_CHARS) {
+      paragraphs.push(text.slice(i, i + MAX_PASSAGE_CHARS));
+    }
+  }
+
+  return {
+    title: stripTags(titleMatch),
+    text: paragraphs.join("\n\n"),
+    paragraphs,
+    publishedAt: published?.date ?? null,
+    publishedAtConfidence: published?.confidence ?? "none",
+    structuredData: extractJsonLd(html),
+  };
+}
+
+// ──────────────────────────────────────────────
+//  Passage selection
+// ──────────────────────────────────────────────
+
+const PASSAGE_STOPWORDS = new Set([
+  "the", "a", "an", "and", "or", "of", "to", "in", "on", "at", "for", "by", "with", "from",
+  "is", "are", "was", "were", "be", "been", "has", "have", "had", "will", "would", "that",
+  "this", "it", "its", "as", "said", "says", "not", "but", "they", "their", "he", "she",
+]);
+
+/** Lowercased content words and figures, for overlap scoring. */
+export function contentTerms(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}$%.]+/gu) || [])
+    .map((t) => t.replace(/\.+$/, ""))
+    .filter((t) => t.length > 1 && !PASSAGE_STOPWORDS.has(t));
+}
+
+// Long paragraphs are split into sentence windows so passages stay readable
+function candidatePassages(paragraphs: string[]): string[] {
+  const out: string[] = [];
+  for (const p of paragraphs) {
+    if (p.length <= MAX_PASSAGE_CHARS) {
+      out.push(p);
+      continue;
+    }
+    const sentences = p.match(/[^.!?]+[.!?]+["”’)]*\s*|[^.!?]+$/g) || [p];
+    let window = "";
+    for (const sentence of sentences) {
+      if (window && (window + sentence).length > MAX_PASSAGE_CHARS) {
+        out.push(window.trim());
+        window = "";
+      }
+      window += sentence;
+    }
+    if (window.trim()) out.push(window.trim().slice(0, MAX_PASSAGE_CHARS));
+  }
+  return out;
+}
+
+/**
+ * Rank passages by overlap with the claim's terms; numbers and quoted
+ * phrases from the claim count extra. Returns up to `limit`, in page order.
+ */
+export function selectPassages(paragraphs: string[], claimText: string, limit = MAX_PASSAGES): string[] {
+  const claimTerms = new Set(contentTerms(claimText));
+  if (claimTerms.size === 0) return [];
+  const quotes = extractQuotedPhrases(claimText).map((q) => q.toLowerCase());
+
+  const scored = candidatePassages(paragraphs).map((passage, index) => {
+    const passageTerms = new Set(contentTerms(passage));
+    let score = 0;
+    for (const t of claimTerms) {
+      if (!passageTerms.has(t)) continue;
+      score += /\d/.test(t) ? 2 : 1;
+    }
+    score /= claimTerms.size;
+    const lower = passage.toLowerCase();
+    if (quotes.some((q) => lower.includes(q))) score += 1;
+    return { passage, index, score };
+  });
+
+  return scored
+    .filter((s) => s.score >= 0.2)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, limit)
+    .sort((a, b) => a.index - b.index)
+    .map((s) => s.passage);
+}
+
+// ──────────────────────────────────────────────
+//  Main export
+// ──────────────────────────────────────────────
+
+/**
+ * Attach evidence passages (and the page's real publication date) to each
+ * source. Unreachable pages leave the source as it was. Never throws.
+ */
+export async function gatherEvidence(
+  claimText: string,
+  sources: Source[],
+  pages: PageCache = new Map()
+): Promise<Source[]> {
+  if ((process.env.EVIDENCE_FETCH || "").toLowerCase() === "off") return sources;
+
+  const enriched = await Promise.all(
+    sources.map(async (source): Promise<Source> => {
+      const content = await cachedPage(pages, source.url);
+      if (!content) return source;
+
+      const evidencePassages = selectPassages(content.paragraphs, claimText);
+      return {
+        ...source,
+        // Page metadata usually beats a date guessed from the URL or snippet
+        ...(content.publishedAt && isBetterDate(content.publishedAtConfidence, source.dateConfidence)
+          ? { date: content.publishedAt, dateConfidence: content.publishedAtConfidence }
+          : {}),
+        snippet: source.snippet || evidencePassages[0] || content.paragraphs[0]?.slice(0, 200) || "",
+        evidencePassages,
+      };
+    })
+  );
+
+  const withPassages = enriched.filter((s) => s.evidencePassages?.length).length;
+  console.log(`[Evidence] ${withPassages}/${sources.length} source(s) yielded passages for "${claimText.slice(0, 50)}…"`);
+  return enriched;
+}
@@ -0,0 +1,195 @@
+// ──────────────────────────────────────────────
+//  Published fact-checks (schema.org ClaimReview)
+//  Fact-checkers (registry category "fact_checker": Snopes,
+//  PolitiFact, factcheck.org, …) mark up their ratings as
+//  ClaimReview JSON-LD. For each fact-checker source: read the
+//  markup from its page, map the publisher's rating onto our
+//  verdict scale and score how closely the reviewed claim matches
+//  ours. 0 LLM calls; pages come from the evidence stage's cache.
+//
+//  A strong (definitive) rating on a closely matching claim anchors
+//  the claim's verdict — see anchoringFactCheck().
+// ──────────────────────────────────────────────
+
+import { FactCheckRating, Source } from "./types";
+import { cachedPage, contentTerms, PageCache } from "./evidence";
+
+export const MATCH_THRESHOLD = 0.6;
+
+type RatingVerdict = FactCheckRating["verdict"];
+
+// Publisher labels, lowercased. Strong labels are definitive; the rest
+// (hedges like "Mostly False" or "Half True") inform but never anchor.
+const RATING_LABELS: Record<string, { verdict: RatingVerdict; strong: boolean }> = {
+  "true": { verdict: "likely_true", strong: true },
+  "correct": { verdict: "likely_true", strong: true },
+  "accurate": { verdict: "likely_true", strong: true },
+  "correct attribution": { verdict: "likely_true", strong: true },
+  "mostly true": { verdict: "likely_true", strong: false },
+  "mostly correct": { verdict: "likely_true", strong: false },
+  "half true": { verdict: "mixed", strong: false },
+  "half-true": { verdict: "mixed", strong: false },
+  "mixture": { verdict: "mixed", strong: false },
+  "mixed": { verdict: "mixed", strong: false },
+  "partly false": { verdict: "mixed", strong: false },
+  "partly true": { verdict: "mixed", strong: false },
+  "unproven": { verdict: "mixed", strong: false },
+  "unsupported": { verdict: "mixed", strong: false },
+  "missing context": { verdict: "mixed", strong: false },
+  "lacks context": { verdict: "mixed", strong: false },
+  "outdated": { verdict: "mixed", strong: false },
+  "mostly false": { verdict: "likely_misleading", strong: false },
+  "misleading": { verdict: "likely_misleading", strong: false },
+  "exaggerated": { verdict: "likely_misleading", strong: false },
+  "labeled satire": { verdict: "likely_misleading", strong: false },
+  "false": { verdict: "likely_misleading", strong: true },
+  "incorrect": { verdict: "likely_misleading", strong: true },
+  "pants on fire": { verdict: "likely_misleading", strong: true },
+  "pants on fire!": { verdict: "likely_misleading", strong: true },
+  "fake": { verdict: "likely_misleading", strong: true },
+  "fabricated": { verdict: "likely_misleading", strong: true },
+  "hoax": { verdict: "likely_misleading", strong: true },
+  "scam": { verdict: "likely_misleading", strong: true },
+  "misattributed": { verdict: "likely_misleading", strong: true },
+  "miscaptioned": { verdict: "likely_misleading", strong: true },
+};
+
+// ──────────────────────────────────────────────
+//  Parsing
+// ──────────────────────────────────────────────
+
+function isClaimReview(node: any): boolean {
+  const type = node?.["@type"];
+  return type === "ClaimReview" || (Array.isArray(type) && type.includes("ClaimReview"));
+}
+
+/** ClaimReview nodes anywhere in the page's JSON-LD (arrays, @graph, nested reviews). */
+export function findClaimReviews(structuredData: any[]): any[] {
+  const found: any[] = [];
+  const visit = (node: any, depth: number) => {
+    if (!node || typeof node !== "object" || depth > 6) return;
+    if (Array.isArray(node)) {
+      for (const child of node) visit(child, depth + 1);
+      return;
+    }
+    if (isClaimReview(node)) {
+      found.push(node);
+      return;
+    }
+    for (const value of Object.values(node)) visit(value, depth + 1);
+  };
+  visit(structuredData, 0);
+  return found;
+}
+
+function text(value: any): string {
+  if (typeof value === "string") return value.trim();
+  if (Array.isArray(value)) return text(value[0]);
+  if (value && typeof value === "object") return text(value.name ?? value["@value"] ?? "");
+  return "";
+}
+
+/**
+ * Map a reviewRating onto our verdict scale: the publisher's label
+ * (alternateName) when we know it, otherwise the numeric position between
+ * worstRating and bestRating. Returns null when neither is usable.
+ */
+export function mapRating(rating: any): { label: string; verdict: RatingVerdict; strong: boolean } | null {
+  if (!rating || typeof rating !== "object") return null;
+  const label = text(rating.alternateName) || text(rating.name);
+  const known = RATING_LABELS[label.toLowerCase().replace(/\s+/g, " ").replace(/[.]$/, "")];
+  if (known) return { label, ...known };
+
+  const value = parseFloat(rating.ratingValue);
+  const best = parseFloat(rating.bestRating ?? 5);
+  const worst = parseFloat(rating.worstRating ?? 1);
+  if (!Number.isFinite(value) || !Number.isFinite(best) || !Number.isFinite(worst) || best === worst) return null;
+
+  const position = Math.max(0, Math.min(1, (value - worst) / (best - worst)));
+  const verdict: RatingVerdict = position >= 0.75 ? "likely_true" : position <= 0.25 ? "likely_misleading" : "mixed";
+  return {
+    label: label || `${value}/${best}`,
+    verdict,
+    strong: position >= 0.9 || position <= 0.1,
+  };
+}
+
+/** Share of the shorter text's terms that the other also contains (0-1). */
+export function claimMatchScore(claimText: string, claimReviewed: string): number {
+  const a = new Set(contentTerms(claimText));
+  const b = new Set(contentTerms(claimReviewed));
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const t of b) if (a.has(t)) shared++;
+  return shared / Math.min(a.size, b.size);
+}
+
+function toRating(review: any, source: Source, claimText: string): FactCheckRating | null {
+  const mapped = mapRating(review.reviewRating);
+  const claimReviewed = text(review.claimReviewed) || text(review.itemReviewed?.name) || source.title;
+  if (!mapped || !claimReviewed) return null;
+
+  const reviewDate = text(review.datePublished).match(/^\d{4}-\d{2}-\d{2}/)?.[0];
+  return {
+    publisher: text(review.author) || source.domain,
+    url: text(review.url) || source.url,
+    claimReviewed,
+    rating: mapped.label,
+    verdict: mapped.verdict,
+    strong: mapped.strong,
+    matchScore: Math.round(claimMatchScore(claimText, claimReviewed) * 100) / 100,
+    ...(reviewDate ? { reviewDate } : {}),
+  };
+}
+
+// ──────────────────────────────────────────────
+//  Main exports
+// ──────────────────────────────────────────────
+
+/**
+ * ClaimReview ratings from the claim's fact-checker sources, best match
+ * first. Unreachable pages and pages without markup are skipped. Never throws.
+ */
+export async function gatherFactChecks(
+  claimText: string,
+  sources: Source[],
+  pages: PageCache = new Map()
+): Promise<FactCheckRating[]> {
+  const factCheckers = sources.filter((s) => s.category === "fact_checker");
+  if (factCheckers.length === 0) return [];
+
+  const perSource = await Promise.all(
+    factCheckers.map(async (source) => {
+      const page = await cachedPage(pages, source.url);
+      if (!page) return [];
+      return findClaimReviews(page.structuredData)
+        .map((review) => toRating(review, source, claimText))
+        .filter((r): r is FactCheckRating => r !== null);
+    })
+  );
+
+  // The same review can be reachable through two URLs of one article
+  const seen = new Set<string>();
+  const ratings = perSource.flat().filter((r) => {
+    const key = `${r.publisher}|${r.claimReviewed}|${r.rating}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  ratings.sort((a, b) => b.matchScore - a.matchScore);
+
+  if (ratings.length > 0) {
+    console.log(`[FactCheck] ${ratings.length} rating(s) for "${claimText.slice(0, 50)}…": ${ratings.map((r) => `${r.publisher} "${r.rating}" (match ${r.matchScore})`).join(", ")}`);
+  }
+  return ratings;
+}
+
+/**
+ * The fact-check that decides the verdict: a strong rating whose reviewed
+ * claim matches ours. If strong matching fact-checks disagree, none anchors.
+ */
+export function anchoringFactCheck(ratings: FactCheckRating[]): FactCheckRating | null {
+  const candidates = ratings.filter((r) => r.strong && r.matchScore >= MATCH_THRESHOLD);
+  if (candidates.length === 0) return null;
+  return candidates.every((r) => r.verdict === candidates[0].verdict) ? candidates[0] : null;
+}
@@ -0,0 +1,92 @@
+// ──────────────────────────────────────────────
+//  File-backed job store
+//  One JSON file per record under JOB_STORE_DIR/<namespace>/.
+//  Survives restarts; shared by every instance that mounts the same directory.
+// ──────────────────────────────────────────────
+
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { createHash, randomUUID } from "crypto";
+import type { JobStore, StoredRecord } from "./jobStore";
+
+export class FileJobStore<T> implements JobStore<T> {
+  readonly backend = "file" as const;
+  private readonly dir: string;
+
+  constructor(baseDir: string | undefined, namespace: string, private readonly defaultTtl: number) {
+    this.dir = path.join(baseDir || path.join(os.tmpdir(), "verifyshot-jobs"), namespace);
+  }
+
+  // Keys are hashed so arbitrary ids (URLs, hashes with slashes) are safe file names
+  private fileFor(key: string): string {
+    return path.join(this.dir, `${createHash("sha256").update(key).digest("hex").slice(0, 40)}.json`);
+  }
+
+  private async readRecord(file: string): Promise<StoredRecord<T> | null> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(file, "utf8");
+    } catch (err: any) {
+      if (err.code === "ENOENT") return null;
+      throw err;
+    }
+
+    let record: StoredRecord<T>;
+    try {
+      record = JSON.parse(raw) as StoredRecord<T>;
+    } catch {
+      console.warn(`[FileJobStore] Ignoring corrupt record ${path.basename(file)}`);
+      return null;
+    }
+
+    if (record.expiresAt !== null && record.expiresAt <= Date.now()) {
+      await fs.unlink(file).catch(() => undefined);
+      return null;
+    }
+    return record;
+  }
+
+  async get(key: string): Promise<T | null> {
+    const record = await this.readRecord(this.fileFor(key));
+    return record ? record.value : null;
+  }
+
+  async set(key: string, value: T, ttlSeconds = this.defaultTtl): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const record: StoredRecord<T> = {
+      key,
+      value,
+      expiresAt: ttlSeconds > 0 ? Date.now() + ttlSeconds * 1000 : null,
+    };
+    // Write to a temp file then rename, so readers never see a half-written record.
+    // Concurrent writes of one key each get their own temp file; the last rename wins.
+    const file = this.fileFor(key);
+    const tmp = `${file}.${randomUUID()}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(record), "utf8");
+    await fs.rename(tmp, file);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.unlink(this.fileFor(key)).catch((err: any) => {
+      if (err.code !== "ENOENT") throw err;
+    });
+  }
+
+  async list(): Promise<StoredRecord<T>[]> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.dir);
+    } catch (err: any) {
+      if (err.code === "ENOENT") return [];
+      throw err;
+    }
+
+    const records = await Promise.all(
+      names
+        .filter((name) => name.endsWith(".json"))
+        .map((name) => this.readRecord(path.join(this.dir, name)))
+    );
+    return records.filter((r): r is StoredRecord<T> => r !== null);
+  }
+}
@@ -4,15 +4,20 @@
 //  We use Gemini's multimodal capabilities for OCR.
 // ──────────────────────────────────────────────
 
-export async function extractTextFromImage(imageUrl: string): Promise<string> {
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) throw new Error("GEMINI_API_KEY not set — required for screenshot OCR");
-
-  // 1. Download the image
+export async function downloadImage(imageUrl: string): Promise<Buffer> {
   console.log("[OCR] Downloading image…");
   const imgRes = await fetch(imageUrl);
   if (!imgRes.ok) throw new Error(`Failed to download image: ${imgRes.statusText}`);
-  const buffer = Buffer.from(await imgRes.arrayBuffer());
+  return Buffer.from(await imgRes.arrayBuffer());
+}
+
+/** OCR an image URL, or bytes that were already downloaded via downloadImage(). */
+export async function extractTextFromImage(image: string | Buffer): Promise<string> {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) throw new Error("GEMINI_API_KEY not set — required for screenshot OCR");
+
+  // 1. Download the image (unless the caller already has the bytes)
+  const buffer = typeof image === "string" ? await downloadImage(image) : image;
   const base64 = buffer.toString("base64");
 
   // Detect MIME type from first bytes
@@ -0,0 +1,881 @@
+// ──────────────────────────────────────────────
+//  Image integrity — local forensics, 0 API calls
+//  Runs on the downloaded screenshot while it is OCR'd:
+//    metadata      EXIF, XMP and PNG text chunks: editing software,
+//                  edit history, camera tags, dates that disagree,
+//                  an EXIF thumbnail that no longer matches
+//    compression   the JPEG quality (from its quantization tables)
+//                  and earlier saves at another quality ("ghosts")
+//    error level   re-save at a known quality and compare: regions
+//                  whose error stands out from similar-looking content
+//    text          per text line: stroke width, anti-aliasing and
+//                  letter spacing against the lines around it
+//  These are indicators, not proof — apps re-save screenshots all
+//  the time. The section sits beside the claims and never changes
+//  their verdicts or trust scores. IMAGE_FORENSICS=off skips it.
+// ──────────────────────────────────────────────
+
+import { inflateSync } from "zlib";
+import { decode as decodeJpeg, encode as encodeJpeg } from "jpeg-js";
+import { PNG } from "pngjs";
+import {
+  ImageFileMetadata,
+  ImageFormat,
+  ImageIntegrity,
+  ImageIntegrityReport,
+  ImageRegion,
+  IntegrityIndicator,
+  IntegrityIndicatorKind,
+} from "./types";
+
+// Pixel checks cover at most this many pixels, from the top (where a post's text is)
+const MAX_PIXEL_AREA = 2_000_000;
+const MAX_DECODE_MP = 50;
+
+// Error level analysis: re-save quality (when no earlier save was found), cell size, outliers
+const ELA_QUALITY = 90;
+const ELA_CELL = 16;
+const ELA_MIN_TEXTURE = 4;         // mean luma gradient; flatter cells carry no signal
+const ELA_REFERENCE_DROP = 25;     // the lower re-save each cell's error is taken relative to
+const ELA_OUTLIER_SPREAD = 3;      // robust z-score of log(error ratio), median / MAD
+const ELA_MIN_SPREAD = 0.2;
+const ELA_MIN_CLUSTER = 3;         // adjacent outlier cells
+
+// JPEG ghosts: re-save a window at lower qualities and look for a dip
+const GHOST_WINDOW = 256;
+const GHOST_WINDOWS = 3;           // the most detailed ones, so one fresh region cannot hide an earlier save
+const GHOST_MIN_QUALITY = 40;
+const GHOST_STEP = 5;
+const GHOST_DIP = 0.9;
+
+// Text rendering: what counts as ink, and the heights a line of text can have
+const INK_CONTRAST = 64;
+const PARTIAL_CONTRAST = 16;
+const MIN_LINE_HEIGHT = 6;
+const MAX_LINE_HEIGHT = 72;
+
+const MAX_REGIONS = 5;
+
+// How much each indicator adds to an image's score (combined as 1 − Π(1 − w))
+const INDICATORS: Record<IntegrityIndicatorKind, { label: string; weight: number }> = {
+  editing_software: { label: "saved by an image editor", weight: 0.35 },
+  edit_history: { label: "edit history in the metadata", weight: 0.25 },
+  camera_metadata: { label: "camera metadata", weight: 0.1 },
+  date_mismatch: { label: "modified after it was created", weight: 0.15 },
+  thumbnail_mismatch: { label: "a thumbnail that differs from the image", weight: 0.3 },
+  recompressed: { label: "re-encoded as JPEG", weight: 0.05 },
+  double_compression: { label: "saved as JPEG more than once", weight: 0.2 },
+  error_level: { label: "regions with an inconsistent error level", weight: 0.35 },
+  font_inconsistency: { label: "text rendered inconsistently", weight: 0.4 },
+};
+
+const EDITOR_PATTERN =
+  /photoshop|lightroom|illustrator|gimp|affinity|pixelmator|paint\.net|photopea|canva|picsart|snapseed|facetune|meitu|fotor|pixlr|befunky|krita|inkscape|photoscape|polarr/i;
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const XMP_HEADER = "http://ns.adobe.com/xap/1.0/\0";
+
+// IJG's luminance table (natural order), which libjpeg and most encoders scale by quality
+const STD_LUMA = [
+  16, 11, 10, 16, 24, 40, 51, 61, 12, 12, 14, 19, 26, 58, 60, 55,
+  14, 13, 16, 24, 40, 57, 69, 56, 14, 17, 22, 29, 51, 87, 80, 62,
+  18, 22, 37, 56, 68, 109, 103, 77, 24, 35, 55, 64, 81, 104, 113, 92,
+  49, 64, 78, 87, 103, 121, 120, 101, 72, 92, 95, 98, 112, 100, 103, 99,
+];
+
+// Position in natural order of each coefficient as a DQT segment lists them
+const ZIGZAG = [
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+  12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+  58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+];
+
+export function sniffFormat(image: Buffer): ImageFormat {
+  if (image.length >= 3 && image[0] === 0xff && image[1] === 0xd8 && image[2] === 0xff) return "jpeg";
+  if (image.length >= 8 && image.subarray(0, 8).equals(PNG_SIGNATURE)) return "png";
+  if (image.length >= 6 && image.toString("latin1", 0, 4) === "GIF8") return "gif";
+  if (image.length >= 12 && image.toString("latin1", 0, 4) === "RIFF" && image.toString("latin1", 8, 12) === "WEBP") return "webp";
+  return "unknown";
+}
+
+// ──────────────────────────────────────────────
+//  File structure and metadata
+// ──────────────────────────────────────────────
+
+interface FileInfo {
+  width?: number;
+  height?: number;
+  metadata: ImageFileMetadata;
+  quantTables: number[][];     // JPEG, natural order, by table id
+  thumbnail?: Buffer;          // the EXIF thumbnail (a JPEG)
+  editorMarker?: string;       // a segment only an editor writes (Photoshop's APP13)
+}
+
+function readJpeg(image: Buffer): FileInfo {
+  const info: FileInfo = { metadata: {}, quantTables: [] };
+  let i = 2;
+  while (i + 4 <= image.length) {
+    if (image[i] !== 0xff) break;               // lost sync: a damaged file
+    const marker = image[i + 1];
+    if (marker === 0xff) { i++; continue; }     // fill byte
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) { i += 2; continue; }
+    if (marker === 0xda || marker === 0xd9) break;  // the scan: the headers are done
+    const length = image.readUInt16BE(i + 2);
+    const data = image.subarray(i + 4, Math.min(image.length, i + 2 + length));
+    try {
+      readJpegSegment(marker, data, info);
+    } catch {
+      // A malformed segment is skipped; the rest of the file may still be readable
+    }
+    i += 2 + length;
+  }
+  return info;
+}
+
+function readJpegSegment(marker: number, data: Buffer, info: FileInfo): void {
+  const startsWith = (s: string) => data.toString("latin1", 0, s.length) === s;
+  if (marker === 0xe1 && startsWith("Exif\0\0")) readExif(data.subarray(6), info);
+  else if (marker === 0xe1 && startsWith(XMP_HEADER)) readXmp(data.subarray(XMP_HEADER.length).toString("utf8"), info.metadata);
+  else if (marker === 0xed && startsWith("Photoshop 3.0")) info.editorMarker = "Adobe Photoshop";
+  else if (marker === 0xfe && !info.metadata.comment) info.metadata.comment = data.toString("utf8").replace(/\0+$/, "").trim() || undefined;
+  else if (marker === 0xdb) readQuantTables(data, info.quantTables);
+  else if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+    info.height = data.readUInt16BE(1);
+    info.width = data.readUInt16BE(3);
+  }
+}
+
+function readQuantTables(data: Buffer, tables: number[][]): void {
+  let p = 0;
+  while (p < data.length) {
+    const wide = data[p] >> 4 === 1;
+    const id = data[p] & 0x0f;
+    const size = wide ? 128 : 64;
+    if (p + 1 + size > data.length) return;
+    const table = new Array<number>(64);
+    for (let k = 0; k < 64; k++) table[ZIGZAG[k]] = wide ? data.readUInt16BE(p + 1 + 2 * k) : data[p + 1 + k];
+    tables[id] = table;
+    p += 1 + size;
+  }
+}
+
+/** The IJG quality (1-100) whose scaled standard table is closest to this luminance table. */
+function estimateJpegQuality(table: number[]): number {
+  let best = { quality: 0, error: Infinity };
+  for (let q = 1; q <= 100; q++) {
+    const scale = q < 50 ? Math.floor(5000 / q) : 200 - 2 * q;
+    let error = 0;
+    for (let i = 0; i < 64; i++) {
+      error += Math.abs(table[i] - Math.min(255, Math.max(1, Math.floor((STD_LUMA[i] * scale + 50) / 100))));
+    }
+    if (error < best.error) best = { quality: q, error };
+  }
+  return best.quality;
+}
+
+// "2023:03:03 10:15:00" (EXIF) or "2023-03-03T10:15:00-05:00" (XMP) → "2023-03-03T10:15:00"
+function isoDate(raw: string | undefined): string | undefined {
+  const m = raw?.trim().match(/^(\d{4})[:-](\d{2})[:-](\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?/);
+  if (!m || m[1] === "0000") return undefined;
+  return `${m[1]}-${m[2]}-${m[3]}T${m[4] ?? "00"}:${m[5] ?? "00"}:${m[6] ?? "00"}`;
+}
+
+// A TIFF structure: the body of a JPEG's Exif segment or a PNG's eXIf chunk
+function readExif(tiff: Buffer, info: FileInfo): void {
+  const little = tiff.toString("latin1", 0, 2) === "II";
+  const u16 = (o: number) => (little ? tiff.readUInt16LE(o) : tiff.readUInt16BE(o));
+  const u32 = (o: number) => (little ? tiff.readUInt32LE(o) : tiff.readUInt32BE(o));
+
+  // Tag → offset of its 12-byte entry, and the offset of the next IFD
+  const readIfd = (offset: number) => {
+    const entries = new Map<number, number>();
+    const count = u16(offset);
+    for (let n = 0; n < count; n++) entries.set(u16(offset + 2 + 12 * n), offset + 2 + 12 * n);
+    return { entries, next: u32(offset + 2 + 12 * count) };
+  };
+  const ascii = (entries: Map<number, number>, tag: number): string | undefined => {
+    const at = entries.get(tag);
+    if (at === undefined || u16(at + 2) !== 2) return undefined;
+    const count = u32(at + 4);
+    const start = count <= 4 ? at + 8 : u32(at + 8);
+    return tiff.toString("latin1", start, Math.min(tiff.length, start + count)).replace(/\0[\s\S]*$/, "").trim() || undefined;
+  };
+  const integer = (entries: Map<number, number>, tag: number): number | undefined => {
+    const at = entries.get(tag);
+    if (at === undefined) return undefined;
+    return u16(at + 2) === 3 ? u16(at + 8) : u32(at + 8);
+  };
+
+  const m = info.metadata;
+  const ifd0 = readIfd(u32(4));
+  m.make = m.make ?? ascii(ifd0.entries, 0x010f);
+  m.model = m.model ?? ascii(ifd0.entries, 0x0110);
+  m.software = m.software ?? ascii(ifd0.entries, 0x0131);
+  m.modifiedAt = m.modifiedAt ?? isoDate(ascii(ifd0.entries, 0x0132));
+
+  const exifOffset = integer(ifd0.entries, 0x8769);
+  if (exifOffset) {
+    const exif = readIfd(exifOffset);
+    m.createdAt = m.createdAt ?? isoDate(ascii(exif.entries, 0x9003) ?? ascii(exif.entries, 0x9004));
+  }
+
+  // IFD1 describes the thumbnail
+  if (ifd0.next) {
+    const ifd1 = readIfd(ifd0.next);
+    const offset = integer(ifd1.entries, 0x0201);
+    const length = integer(ifd1.entries, 0x0202);
+    if (offset && length && offset + length <= tiff.length) info.thumbnail = tiff.subarray(offset, offset + length);
+  }
+}
+
+// All values of an XMP property, written as an attribute or as an element
+function xmpValues(xml: string, name: string): string[] {
+  const values: string[] = [];
+  for (const m of xml.matchAll(new RegExp(`${name}="([^"]*)"|<${name}>([^<]*)</${name}>`, "g"))) {
+    const value = (m[1] ?? m[2]).trim();
+    if (value) values.push(value);
+  }
+  return values;
+}
+
+function readXmp(xml: string, m: ImageFileMetadata): void {
+  m.software = m.software ?? xmpValues(xml, "xmp:CreatorTool")[0];
+  m.createdAt = m.createdAt ?? isoDate(xmpValues(xml, "xmp:CreateDate")[0]);
+  m.modifiedAt = m.modifiedAt ?? isoDate(xmpValues(xml, "xmp:ModifyDate")[0]);
+  // xmpMM:History: one rdf:li per event
+  const history = xml.split(/<rdf:li\b/).slice(1).flatMap((item) => {
+    const action = xmpValues(item, "stEvt:action")[0];
+    const agent = xmpValues(item, "stEvt:softwareAgent")[0];
+    return action ? [agent ? `${action} (${agent})` : action] : [];
+  });
+  if (history.length > 0 && !m.editHistory) m.editHistory = history;
+}
+
+function readPng(image: Buffer): FileInfo {
+  const info: FileInfo = { metadata: {}, quantTables: [] };
+  let p = PNG_SIGNATURE.length;
+  while (p + 8 <= image.length) {
+    const length = image.readUInt32BE(p);
+    const type = image.toString("latin1", p + 4, p + 8);
+    try {
+      readPngChunk(type, image.subarray(p + 8, Math.min(image.length, p + 8 + length)), info);
+    } catch {
+      // A malformed chunk is skipped
+    }
+    if (type === "IEND") break;
+    p += 12 + length;
+  }
+  return info;
+}
+
+function readPngChunk(type: string, data: Buffer, info: FileInfo): void {
+  const m = info.metadata;
+  if (type === "IHDR") {
+    info.width = data.readUInt32BE(0);
+    info.height = data.readUInt32BE(4);
+  } else if (type === "eXIf") {
+    readExif(data, info);
+  } else if (type === "tIME") {
+    const pad = (n: number) => String(n).padStart(2, "0");
+    m.modifiedAt = m.modifiedAt ?? `${data.readUInt16BE(0)}-${pad(data[2])}-${pad(data[3])}T${pad(data[4])}:${pad(data[5])}:${pad(data[6])}`;
+  } else if (type === "tEXt" || type === "zTXt" || type === "iTXt") {
+    const { keyword, text } = pngText(type, data);
+    if (keyword === "Software") m.software = m.software ?? (text.trim() || undefined);
+    else if (keyword === "Creation Time") m.createdAt = m.createdAt ?? pngCreationTime(text);
+    else if (keyword === "XML:com.adobe.xmp") readXmp(text, m);
+    else if ((keyword === "Comment" || keyword === "Description") && !m.comment) m.comment = text.trim() || undefined;
+  }
+}
+
+function pngText(type: string, data: Buffer): { keyword: string; text: string } {
+  const nul = data.indexOf(0);
+  const keyword = data.toString("latin1", 0, nul);
+  if (type === "tEXt") return { keyword, text: data.toString("latin1", nul + 1) };
+  if (type === "zTXt") return { keyword, text: inflateSync(data.subarray(nul + 2)).toString("latin1") };
+  // iTXt: compression flag and method, then language and translated keyword (NUL-terminated)
+  const compressed = data[nul + 1] === 1;
+  const language = data.indexOf(0, nul + 3);
+  const translated = data.indexOf(0, language + 1);
+  const body = data.subarray(translated + 1);
+  return { keyword, text: (compressed ? inflateSync(body) : body).toString("utf8") };
+}
+
+// Free-form, usually RFC 1123 ("Fri, 03 Mar 2023 10:15:00 GMT") or ISO
+function pngCreationTime(text: string): string | undefined {
+  const iso = isoDate(text);
+  if (iso) return iso;
+  const ms = Date.parse(text);
+  return Number.isNaN(ms) ? undefined : new Date(ms).toISOString().slice(0, 19);
+}
+
+function readFileInfo(image: Buffer, format: ImageFormat): FileInfo {
+  if (format === "jpeg") return readJpeg(image);
+  if (format === "png") return readPng(image);
+  return { metadata: {}, quantTables: [] };
+}
+
+// ──────────────────────────────────────────────
+//  Indicators from the metadata
+// ──────────────────────────────────────────────
+
+interface Finding {
+  indicator: IntegrityIndicator;
+  weight: number;
+}
+
+function finding(kind: IntegrityIndicatorKind, detail: string, strength = 1, regions?: ImageRegion[]): Finding {
+  const weight = INDICATORS[kind].weight * Math.min(1, strength);
+  return {
+    indicator: {
+      kind,
+      severity: weight >= 0.2 ? "warning" : "info",
+      detail,
+      ...(regions && regions.length > 0 ? { regions: regions.slice(0, MAX_REGIONS) } : {}),
+    },
+    weight,
+  };
+}
+
+function metadataFindings(info: FileInfo): Finding[] {
+  const m = info.metadata;
+  const findings: Finding[] = [];
+  const editor = [m.software, info.editorMarker].find((s) => s && EDITOR_PATTERN.test(s));
+  if (editor) findings.push(finding("editing_software", `The file was saved by ${editor}, an image editor.`));
+  if (m.editHistory) {
+    const steps = m.editHistory.length;
+    findings.push(finding("edit_history", `The file's XMP history records ${steps} step(s): ${m.editHistory.slice(0, 3).join("; ")}${steps > 3 ? "; …" : ""}.`));
+  }
+  if (m.make || m.model) {
+    const camera = [m.make, m.model].filter(Boolean).join(" ");
+    findings.push(finding("camera_metadata", `Camera metadata (${camera}): a photo, possibly of a screen, rather than a screen capture.`));
+  }
+  if (m.createdAt && m.modifiedAt && Date.parse(`${m.modifiedAt}Z`) - Date.parse(`${m.createdAt}Z`) > 60_000) {
+    findings.push(finding("date_mismatch", `Modified ${m.modifiedAt.replace("T", " ")}, after it was created ${m.createdAt.replace("T", " ")}.`));
+  }
+  return findings;
+}
+
+// ──────────────────────────────────────────────
+//  Pixels
+// ──────────────────────────────────────────────
+
+export interface Raster {
+  width: number;
+  height: number;
+  data: Uint8Array;            // RGBA
+}
+
+/** Decode a JPEG or PNG to RGBA; null for other formats. Throws on a broken file. */
+export function decodePixels(image: Buffer, format: ImageFormat): Raster | null {
+  if (format === "jpeg") {
+    const { width, height, data } = decodeJpeg(image, { useTArray: true, formatAsRGBA: true, maxResolutionInMP: MAX_DECODE_MP });
+    return { width, height, data };
+  }
+  if (format === "png") {
+    const { width, height, data } = PNG.sync.read(image);
+    return { width, height, data };
+  }
+  return null;
+}
+
+/** An image with its format and pixels, decoded once and shared by every local check. */
+export interface DecodedImage {
+  bytes: Buffer;
+  format: ImageFormat;
+  raster: Raster | null;       // null for other formats or a broken file
+  error?: string;              // why a JPEG or PNG could not be decoded
+}
+
+/** Sniff and decode `image`. Never throws: a broken file is reported in `error`. */
+export function decodeImage(image: Buffer): DecodedImage {
+  const format = sniffFormat(image);
+  try {
+    return { bytes: image, format, raster: decodePixels(image, format) };
+  } catch (err: any) {
+    return { bytes: image, format, raster: null, error: err.message };
+  }
+}
+
+function luma(raster: Raster): Uint8Array {
+  const { data } = raster;
+  const out = new Uint8Array(raster.width * raster.height);
+  for (let i = 0, p = 0; i < out.length; i++, p += 4) out[i] = (data[p] * 77 + data[p + 1] * 150 + data[p + 2] * 29) >> 8;
+  return out;
+}
+
+function resave(raster: Raster, quality: number): Raster {
+  const { data } = encodeJpeg({ width: raster.width, height: raster.height, data: raster.data }, quality);
+  const decoded = decodeJpeg(data, { useTArray: true, formatAsRGBA: true });
+  return { width: decoded.width, height: decoded.height, data: decoded.data };
+}
+
+function crop(raster: Raster, r: ImageRegion): Raster {
+  const data = new Uint8Array(r.width * r.height * 4);
+  for (let y = 0; y < r.height; y++) {
+    const from = ((r.y + y) * raster.width + r.x) * 4;
+    data.set(raster.data.subarray(from, from + r.width * 4), y * r.width * 4);
+  }
+  return { width: r.width, height: r.height, data };
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// Mean |gradient| of luma over a block: how much there is to compress
+function texture(lum: Uint8Array, width: number, r: ImageRegion): number {
+  let sum = 0;
+  let n = 0;
+  for (let y = r.y; y < r.y + r.height - 1; y++) {
+    for (let x = r.x; x < r.x + r.width - 1; x++) {
+      const i = y * width + x;
+      sum += Math.abs(lum[i + 1] - lum[i]) + Math.abs(lum[i + width] - lum[i]);
+      n++;
+    }
+  }
+  return n ? sum / n : 0;
+}
+
+// Group flagged cells (4-connected) into pixel regions, largest first
+function clusters(flags: boolean[], cols: number, rows: number, cell: number, minCells: number): Array<ImageRegion & { cells: number }> {
+  const seen = new Uint8Array(flags.length);
+  const out: Array<ImageRegion & { cells: number }> = [];
+  for (let start = 0; start < flags.length; start++) {
+    if (!flags[start] || seen[start]) continue;
+    const stack = [start];
+    seen[start] = 1;
+    let cells = 0, minX = cols, minY = rows, maxX = 0, maxY = 0;
+    while (stack.length > 0) {
+      const c = stack.pop()!;
+      const cx = c % cols, cy = Math.floor(c / cols);
+      cells++;
+      minX = Math.min(minX, cx); maxX = Math.max(maxX, cx);
+      minY = Math.min(minY, cy); maxY = Math.max(maxY, cy);
+      const neighbours = [cx > 0 ? c - 1 : -1, cx < cols - 1 ? c + 1 : -1, cy > 0 ? c - cols : -1, cy < rows - 1 ? c + cols : -1];
+      for (const n of neighbours) {
+        if (n >= 0 && flags[n] && !seen[n]) { seen[n] = 1; stack.push(n); }
+      }
+    }
+    if (cells >= minCells) {
+      out.push({ x: minX * cell, y: minY * cell, width: (maxX - minX + 1) * cell, height: (maxY - minY + 1) * cell, cells });
+    }
+  }
+  return out.sort((a, b) => b.cells - a.cells);
+}
+
+// Mean absolute error per ELA_CELL cell between an image and its re-save
+function cellErrors(raster: Raster, quality: number, cols: number, rows: number): Float64Array {
+  const resaved = resave(raster, quality).data;
+  const { width, data } = raster;
+  const errors = new Float64Array(cols * rows);
+  for (let y = 0; y < rows * ELA_CELL; y++) {
+    for (let x = 0, p = y * width * 4; x < cols * ELA_CELL; x++, p += 4) {
+      errors[Math.floor(y / ELA_CELL) * cols + Math.floor(x / ELA_CELL)] +=
+        Math.max(Math.abs(data[p] - resaved[p]), Math.abs(data[p + 1] - resaved[p + 1]), Math.abs(data[p + 2] - resaved[p + 2]));
+    }
+  }
+  return errors.map((e) => e / (ELA_CELL * ELA_CELL));
+}
+
+/**
+ * Error level analysis: re-save at `quality` and compare, per cell.
+ * How much a cell changes depends mostly on its content (text edges
+ * change more than a photo's gradients), so each cell's error is taken
+ * relative to its error at a much lower quality. Content that was
+ * compressed at `quality` before barely changes, content added since
+ * changes like fresh pixels: cells far above the image's typical
+ * ratio are grouped into regions.
+ */
+function errorLevelFinding(raster: Raster, lum: Uint8Array, quality: number): Finding | null {
+  const cols = Math.floor(raster.width / ELA_CELL);
+  const rows = Math.floor(raster.height / ELA_CELL);
+  const high = cellErrors(raster, quality, cols, rows);
+  const low = cellErrors(raster, Math.max(10, quality - ELA_REFERENCE_DROP), cols, rows);
+
+  const ratios = new Array<number | null>(cols * rows).fill(null);
+  for (let i = 0; i < ratios.length; i++) {
+    const cell = { x: (i % cols) * ELA_CELL, y: Math.floor(i / cols) * ELA_CELL, width: ELA_CELL, height: ELA_CELL };
+    if (texture(lum, raster.width, cell) >= ELA_MIN_TEXTURE && low[i] > 0) ratios[i] = Math.log((high[i] + 0.05) / low[i]);
+  }
+  const measured = ratios.filter((r): r is number => r !== null);
+  if (measured.length < 4 * ELA_MIN_CLUSTER) return null;
+  const typical = median(measured);
+  const spread = Math.max(1.4826 * median(measured.map((r) => Math.abs(r - typical))), ELA_MIN_SPREAD);
+  const flags = ratios.map((r) => r !== null && (r - typical) / spread > ELA_OUTLIER_SPREAD);
+  const regions = clusters(flags, cols, rows, ELA_CELL, ELA_MIN_CLUSTER);
+  if (regions.length === 0) return null;
+
+  const flagged = regions.reduce((sum, r) => sum + r.cells, 0);
+  return finding(
+    "error_level",
+    `${regions.length} region(s) (${flagged} cells of ${ELA_CELL}px) change far more when re-saved at quality ${quality} than the rest of the image: they may have been added or edited after it was compressed.`,
+    flagged / (4 * ELA_MIN_CLUSTER),
+    regions.map(({ cells: _cells, ...region }) => region)
+  );
+}
+
+/**
+ * JPEG ghosts: re-saving at the quality an image was once saved at
+ * changes it least. A copy saved only at `quality` differs less and
+ * less as the re-save quality rises toward it; a minimum that the
+ * curve climbs out of again is an earlier save at that lower quality.
+ * Checked on the most detailed windows of the image.
+ */
+function compressionGhost(raster: Raster, lum: Uint8Array, quality: number): { finding: Finding; earlierQuality: number } | null {
+  if (quality - GHOST_STEP <= GHOST_MIN_QUALITY + GHOST_STEP) return null;
+  const size = Math.min(GHOST_WINDOW, raster.width, raster.height) & ~7;
+  if (size < 64) return null;
+
+  const candidates: Array<ImageRegion & { detail: number }> = [];
+  for (let y = 0; y + size <= raster.height; y += size) {
+    for (let x = 0; x + size <= raster.width; x += size) {
+      const window = { x, y, width: size, height: size };
+      const detail = texture(lum, raster.width, window);
+      if (detail >= ELA_MIN_TEXTURE) candidates.push({ ...window, detail });
+    }
+  }
+  candidates.sort((a, b) => b.detail - a.detail);
+
+  let earliest: number | null = null;
+  for (const { detail: _detail, ...window } of candidates.slice(0, GHOST_WINDOWS)) {
+    const sample = crop(raster, window);
+    const original = luma(sample);
+    const curve: Array<{ quality: number; diff: number }> = [];
+    for (let q = GHOST_MIN_QUALITY; q < quality; q += GHOST_STEP) {
+      const resaved = luma(resave(sample, q));
+      let diff = 0;
+      for (let i = 0; i < original.length; i++) diff += (original[i] - resaved[i]) ** 2;
+      curve.push({ quality: q, diff: diff / original.length });
+    }
+    for (let i = 1; i < curve.length - 1; i++) {
+      const later = Math.max(...curve.slice(i + 1).map((c) => c.diff));
+      if (curve[i].diff <= curve[i - 1].diff && curve[i].diff < GHOST_DIP * later) {
+        if (earliest === null || curve[i].quality < earliest) earliest = curve[i].quality;
+        break;
+      }
+    }
+  }
+  if (earliest === null) return null;
+  return {
+    finding: finding("double_compression", `The image was saved as JPEG at quality ~${earliest} before its current save at ~${quality}.`),
+    earlierQuality: earliest,
+  };
+}
+
+/**
+ * The EXIF thumbnail is written when the photo is taken; editors often
+ * leave it alone. Another shape (ignoring black letterbox bars) means
+ * the image was cropped since, other content means it was edited.
+ */
+function thumbnailFinding(thumbnail: Buffer, raster: Raster, lum: Uint8Array): Finding | null {
+  const thumb = decodeJpeg(thumbnail, { useTArray: true, formatAsRGBA: true, maxResolutionInMP: 1 });
+  const tl = luma({ width: thumb.width, height: thumb.height, data: thumb.data });
+  let top = thumb.height, bottom = -1, left = thumb.width, right = -1;
+  for (let y = 0; y < thumb.height; y++) {
+    for (let x = 0; x < thumb.width; x++) {
+      if (tl[y * thumb.width + x] > 16) {
+        top = Math.min(top, y); bottom = Math.max(bottom, y);
+        left = Math.min(left, x); right = Math.max(right, x);
+      }
+    }
+  }
+  if (bottom < 0) return null;
+  const tw = right - left + 1, th = bottom - top + 1;
+  const shape = (tw / th) / (raster.width / raster.height);
+  if (Math.abs(shape - 1) > 0.08) {
+    return finding("thumbnail_mismatch", `The embedded thumbnail (${tw}×${th}) has other proportions than the image (${raster.width}×${raster.height}): it was cropped after the thumbnail was made.`);
+  }
+
+  // Same shape: compare the content at thumbnail size
+  let diff = 0;
+  for (let y = 0; y < th; y++) {
+    for (let x = 0; x < tw; x++) {
+      const x0 = Math.floor((x * raster.width) / tw), x1 = Math.max(x0 + 1, Math.floor(((x + 1) * raster.width) / tw));
+      const y0 = Math.floor((y * raster.height) / th), y1 = Math.max(y0 + 1, Math.floor(((y + 1) * raster.height) / th));
+      let sum = 0;
+      for (let yy = y0; yy < y1; yy++) for (let xx = x0; xx < x1; xx++) sum += lum[yy * raster.width + xx];
+      diff += Math.abs(sum / ((x1 - x0) * (y1 - y0)) - tl[(top + y) * thumb.width + left + x]);
+    }
+  }
+  if (diff / (tw * th) <= 20) return null;
+  return finding("thumbnail_mismatch", "The embedded thumbnail shows different content from the image: it was edited after the thumbnail was made.");
+}
+
+// ──────────────────────────────────────────────
+//  Text rendering
+// ──────────────────────────────────────────────
+
+interface TextLine extends ImageRegion {
+  stroke: number;              // median stroke width, in full-ink pixels
+  softness: number;            // anti-aliased edge pixels per stroke
+  letterGap: number | null;    // median gap between glyphs in a word, px
+  words: Array<ImageRegion & { letterGap: number }>;  // words with enough letters to measure
+}
+
+function backgroundLuma(lum: Uint8Array): number {
+  const histogram = new Uint32Array(256);
+  for (const v of lum) histogram[v]++;
+  let mode = 0;
+  for (let v = 1; v < 256; v++) if (histogram[v] > histogram[mode]) mode = v;
+  return mode;
+}
+
+/** Find lines of text (bands of rows with ink) and measure how they are rendered. */
+function textLines(lum: Uint8Array, width: number, height: number): TextLine[] {
+  const bg = backgroundLuma(lum);
+  const contrast = (i: number) => Math.abs(lum[i] - bg);
+
+  const rowInk = new Uint32Array(height);
+  for (let y = 0; y < height; y++) for (let x = 0; x < width; x++) if (contrast(y * width + x) >= INK_CONTRAST) rowInk[y]++;
+
+  const lines: TextLine[] = [];
+  for (let y = 0; y < height; ) {
+    if (!rowInk[y]) { y++; continue; }
+    const top = y;
+    while (y < height && rowInk[y]) y++;
+    const line = measureLine(lum, width, top, y - top, contrast);
+    if (line) lines.push(line);
+  }
+  return lines;
+}
+
+function measureLine(lum: Uint8Array, width: number, top: number, height: number, contrast: (i: number) => number): TextLine | null {
+  if (height < MIN_LINE_HEIGHT || height > MAX_LINE_HEIGHT) return null;
+
+  // The text colour: the typical contrast of the line's ink
+  const columnInk = new Uint8Array(width);
+  const inkContrast: number[] = [];
+  for (let y = top; y < top + height; y++) {
+    for (let x = 0; x < width; x++) {
+      const c = contrast(y * width + x);
+      if (c >= INK_CONTRAST) { inkContrast.push(c); columnInk[x] = 1; }
+    }
+  }
+  const level = median(inkContrast);
+  const ink = inkContrast.length;
+
+  // Horizontal runs through a stroke, edges included: the run's ink mass
+  // is its width in full-ink pixels (robust to anti-aliasing and JPEG
+  // ringing), its partial pixels are the anti-aliased edge
+  const strokes: number[] = [];
+  const edges: number[] = [];
+  for (let y = top; y < top + height; y++) {
+    let mass = 0, partial = 0, hasInk = false;
+    for (let x = 0; x <= width; x++) {
+      const c = x < width ? contrast(y * width + x) : 0;
+      if (c >= PARTIAL_CONTRAST) {
+        mass += Math.min(1, c / level);
+        if (c >= INK_CONTRAST) hasInk = true;
+        else partial++;
+      } else if (mass > 0) {
+        if (hasInk) { strokes.push(mass); edges.push(partial); }
+        mass = 0; partial = 0; hasInk = false;
+      }
+    }
+  }
+
+  // Glyphs: runs of columns with ink
+  const glyphs: Array<[number, number]> = [];
+  for (let x = 0; x < width; ) {
+    if (!columnInk[x]) { x++; continue; }
+    const start = x;
+    while (x < width && columnInk[x]) x++;
+    glyphs.push([start, x - 1]);
+  }
+  if (glyphs.length < 3) return null;
+  const left = glyphs[0][0], right = glyphs[glyphs.length - 1][1];
+  // Solid shapes (buttons, images) are not text
+  if (ink / (height * (right - left + 1)) > 0.6) return null;
+
+  const gaps = glyphs.slice(1).map(([start], i) => start - glyphs[i][1] - 1);
+  const wordBreak = Math.max(3, 2 * median(gaps) + 1);
+  const words: TextLine["words"] = [];
+  let wordStart = 0;
+  for (let i = 0; i <= gaps.length; i++) {
+    if (i < gaps.length && gaps[i] <= wordBreak) continue;
+    const letterGaps = gaps.slice(wordStart, i);
+    if (letterGaps.length >= 4) {
+      words.push({
+        x: glyphs[wordStart][0], y: top, width: glyphs[i][1] - glyphs[wordStart][0] + 1, height,
+        letterGap: median(letterGaps),
+      });
+    }
+    wordStart = i + 1;
+  }
+  const letterGaps = gaps.filter((g) => g <= wordBreak);
+
+  return {
+    x: left, y: top, width: right - left + 1, height,
+    stroke: median(strokes),
+    softness: edges.reduce((sum, e) => sum + e, 0) / Math.max(1, edges.length),
+    letterGap: letterGaps.length >= 4 ? median(letterGaps) : null,
+    words,
+  };
+}
+
+// How a line or word differs from its neighbours, if it clearly does
+function renderingDifferences(line: TextLine, block: TextLine[]): string[] {
+  const reasons: string[] = [];
+  const stroke = median(block.map((l) => l.stroke));
+  if (Math.abs(line.stroke - stroke) >= 0.75 && (line.stroke >= 1.4 * stroke || line.stroke <= stroke / 1.4)) {
+    reasons.push(line.stroke > stroke ? "heavier strokes" : "lighter strokes");
+  }
+  const softness = median(block.map((l) => l.softness));
+  if (Math.abs(line.softness - softness) >= 1) {
+    reasons.push(line.softness > softness ? "softer anti-aliasing" : "sharper anti-aliasing");
+  }
+  const gaps = block.map((l) => l.letterGap).filter((g): g is number => g !== null);
+  if (line.letterGap !== null && gaps.length >= 3) {
+    const gap = median(gaps);
+    if (Math.abs(line.letterGap - gap) >= 2 && (line.letterGap >= 1.6 * gap || line.letterGap <= gap / 1.6)) {
+      reasons.push(line.letterGap > gap ? "wider letter spacing" : "tighter letter spacing");
+    }
+  }
+  return reasons;
+}
+
+/**
+ * Lines of one paragraph (similar height, close together) should be
+ * rendered alike, and so should the words of one line. Text typed in
+ * afterwards rarely matches the original font, weight, anti-aliasing
+ * and spacing exactly.
+ */
+function fontFinding(lum: Uint8Array, width: number, height: number): Finding | null {
+  const lines = textLines(lum, width, height);
+
+  const blocks: TextLine[][] = [];
+  for (const line of lines) {
+    const block = blocks[blocks.length - 1];
+    const prev = block?.[block.length - 1];
+    const sameParagraph = prev && line.y - (prev.y + prev.height) <= 1.5 * prev.height && line.height / prev.height >= 0.75 && line.height / prev.height <= 1.33;
+    if (sameParagraph) block.push(line);
+    else blocks.push([line]);
+  }
+
+  const flagged: ImageRegion[] = [];
+  const reasons = new Set<string>();
+  for (const block of blocks) {
+    if (block.length < 3) continue;
+    for (const line of block) {
+      const differences = renderingDifferences(line, block);
+      if (differences.length === 0) continue;
+      differences.forEach((d) => reasons.add(d));
+      flagged.push({ x: line.x, y: line.y, width: line.width, height: line.height });
+    }
+  }
+  // Kerning: one word spaced unlike the rest of its line
+  for (const line of lines) {
+    if (line.words.length < 3) continue;
+    const gap = median(line.words.map((w) => w.letterGap));
+    for (const { letterGap, ...word } of line.words) {
+      if (Math.abs(letterGap - gap) >= 3 && (letterGap >= 2 * gap || letterGap <= gap / 2)) {
+        reasons.add("a word spaced unlike its line");
+        flagged.push(word);
+      }
+    }
+  }
+  if (flagged.length === 0) return null;
+
+  return finding(
+    "font_inconsistency",
+    `${flagged.length} text line(s) or word(s) are rendered differently from the text around them (${[...reasons].join(", ")}).`,
+    flagged.length / 2,
+    flagged
+  );
+}
+
+// ──────────────────────────────────────────────
+//  Reports
+// ──────────────────────────────────────────────
+
+function pixelFindings(full: Raster, info: FileInfo, quality: number | undefined) {
+  // Tall captures: the top of the image, on a JPEG block boundary
+  const rows = Math.min(full.height, Math.floor(MAX_PIXEL_AREA / full.width / 8) * 8 || full.height);
+  const area: ImageRegion = { x: 0, y: 0, width: full.width, height: rows };
+  const raster = rows === full.height ? full : crop(full, area);
+  const lum = luma(raster);
+
+  // An earlier save is where added content stands out most
+  const ghost = quality !== undefined ? compressionGhost(raster, lum, quality) : null;
+  const findings = [
+    ghost?.finding ?? null,
+    errorLevelFinding(raster, lum, ghost?.earlierQuality ?? ELA_QUALITY),
+    fontFinding(lum, raster.width, raster.height),
+    info.thumbnail && raster === full ? thumbnailFinding(info.thumbnail, raster, lum) : null,
+  ].filter((f): f is Finding => f !== null);
+  return { area, width: full.width, height: full.height, findings };
+}
+
+function combinedScore(findings: Finding[]): number {
+  return Math.round((1 - findings.reduce((p, f) => p * (1 - f.weight), 1)) * 100) / 100;
+}
+
+/** Inspect one image. Never throws: what cannot be read is left out. */
+export function inspectImage(input: Buffer | DecodedImage, index = 0): ImageIntegrityReport {
+  const { bytes: image, format, raster, error } = Buffer.isBuffer(input) ? decodeImage(input) : input;
+  let info: FileInfo = { metadata: {}, quantTables: [] };
+  try {
+    info = readFileInfo(image, format);
+  } catch (err: any) {
+    console.warn(`[Forensics] Could not read the ${format} file structure: ${err.message}`);
+  }
+
+  const quality = info.quantTables[0] ? estimateJpegQuality(info.quantTables[0]) : undefined;
+  const findings = metadataFindings(info);
+  if (format === "jpeg") {
+    findings.push(finding("recompressed", `Saved as JPEG${quality ? ` at quality ~${quality}` : ""}: screenshots are captured losslessly, so this copy was re-encoded (often by an app it was shared through).`));
+  }
+
+  let pixels: ReturnType<typeof pixelFindings> | null = null;
+  if (error) {
+    console.warn(`[Forensics] Pixel checks skipped: ${error}`);
+  } else if (raster) {
+    try {
+      pixels = pixelFindings(raster, info, quality);
+      findings.push(...pixels.findings);
+    } catch (err: any) {
+      console.warn(`[Forensics] Pixel checks skipped: ${err.message}`);
+    }
+  }
+
+  return {
+    index,
+    format,
+    ...(pixels || info.width ? { width: pixels?.width ?? info.width, height: pixels?.height ?? info.height } : {}),
+    decoded: pixels !== null,
+    ...(pixels ? { pixelArea: pixels.area } : {}),
+    metadata: info.metadata,
+    ...(quality !== undefined ? { jpegQuality: quality } : {}),
+    indicators: findings.map((f) => f.indicator),
+    score: combinedScore(findings),
+  };
+}
+
+function integrityLevel(score: number): ImageIntegrity["level"] {
+  if (score < 0.1) return "none";
+  if (score < 0.3) return "low";
+  if (score < 0.6) return "medium";
+  return "high";
+}
+
+/** The imageIntegrity section for the screenshot(s) of one analysis, in order. */
+export function imageIntegrity(images: Array<Buffer | DecodedImage>): ImageIntegrity {
+  const reports = images.map((image, index) => inspectImage(image, index));
+  const score = Math.max(0, ...reports.map((r) => r.score));
+  const level = integrityLevel(score);
+
+  let summary: string;
+  if (level === "none") {
+    summary = reports.every((r) => r.decoded)
+      ? "No signs of editing were found."
+      : "No signs of editing were found, but only the file's metadata could be checked.";
+  } else {
+    const labels = new Set(reports.flatMap((r) => r.indicators.map((i) => INDICATORS[i.kind].label)));
+    summary = `Signs of editing (${level}): ${[...labels].join("; ")}. They suggest, but do not prove, that the image was altered.`;
+  }
+  return { level, score, summary, images: reports };
+}
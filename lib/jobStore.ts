@@ -1,32 +1,276 @@
 // ──────────────────────────────────────────────
-//  Simple in-memory job store for MVP
-//  (Replace with KV/Redis for production)
+//  Job store — pluggable persistence with TTL expiry
+//  Backends: memory (default), file (shared disk), redis (shared across instances)
+//  Selected by JOB_STORE=memory|file|redis (redis is picked automatically when
+//  REDIS_URL is set). Records expire after JOB_TTL_SECONDS (default 24h).
 // ──────────────────────────────────────────────
 
-import { JobStatus, AnalysisResult } from "./types";
+import { JobStatus, AnalysisResult, AnalysisStage, AnalysisEvent } from "./types";
+import { FileJobStore } from "./fileJobStore";
+import { RedisJobStore } from "./redisJobStore";
 
-const jobs = new Map<string, JobStatus>();
+export interface StoredRecord<T> {
+  key: string;
+  value: T;
+  expiresAt: number | null;    // epoch ms, null = never expires
+}
+
+/**
+ * A namespaced key → record store. Jobs use the "jobs" namespace; other
+ * modules can open their own namespace on the same backend via createStore().
+ */
+export interface JobStore<T = JobStatus> {
+  readonly backend: "memory" | "file" | "redis";
+  get(key: string): Promise<T | null>;
+  set(key: string, value: T, ttlSeconds?: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(): Promise<StoredRecord<T>[]>;
+}
+
+export const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+
+export function defaultTtlSeconds(): number {
+  const ttl = parseInt(process.env.JOB_TTL_SECONDS || "", 10);
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_TTL_SECONDS;
+}
+
+// ──────────────────────────────────────────────
+//  In-memory backend (per instance, lost on cold start)
+// ──────────────────────────────────────────────
+
+export class MemoryJobStore<T = JobStatus> implements JobStore<T> {
+  readonly backend = "memory" as const;
+  private records = new Map<string, StoredRecord<T>>();
+
+  constructor(private readonly defaultTtl: number = DEFAULT_TTL_SECONDS) {}
+
+  async get(key: string): Promise<T | null> {
+    const record = this.records.get(key);
+    if (!record) return null;
+    if (record.expiresAt !== null && record.expiresAt <= Date.now()) {
+      this.records.delete(key);
+      return null;
+    }
+    return record.value;
+  }
+
+  async set(key: string, value: T, ttlSeconds = this.defaultTtl): Promise<void> {
+    const expiresAt = ttlSeconds > 0 ? Date.now() + ttlSeconds * 1000 : null;
+    this.records.set(key, { key, value, expiresAt });
+  }
 
-export function createJob(jobId: string): void {
-  jobs.set(jobId, { status: "pending" });
+  async delete(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+
+  async list(): Promise<StoredRecord<T>[]> {
+    const now = Date.now();
+    const live: StoredRecord<T>[] = [];
+    for (const [key, record] of this.records) {
+      if (record.expiresAt !== null && record.expiresAt <= now) this.records.delete(key);
+      else live.push(record);
+    }
+    return live;
+  }
+}
+
+// ──────────────────────────────────────────────
+//  Backend selection
+// ──────────────────────────────────────────────
+
+// Memory stores must be shared per namespace or every caller would get an empty map
+const memoryStores = new Map<string, MemoryJobStore<any>>();
+
+export function createStore<T>(namespace: string): JobStore<T> {
+  const backend = (process.env.JOB_STORE || (process.env.REDIS_URL ? "redis" : "memory")).toLowerCase();
+
+  if (backend === "redis") {
+    const url = process.env.REDIS_URL;
+    if (!url) throw new Error("JOB_STORE=redis requires REDIS_URL");
+    return new RedisJobStore<T>(url, namespace, defaultTtlSeconds());
+  }
+  if (backend === "file") {
+    return new FileJobStore<T>(process.env.JOB_STORE_DIR, namespace, defaultTtlSeconds());
+  }
+  if (backend !== "memory") {
+    console.warn(`[JobStore] Unknown JOB_STORE "${backend}", falling back to memory`);
+  }
+
+  let store = memoryStores.get(namespace);
+  if (!store) {
+    store = new MemoryJobStore<T>(defaultTtlSeconds());
+    memoryStores.set(namespace, store);
+  }
+  return store;
 }
 
-export function setProgress(jobId: string, progress: string): void {
-  const job = jobs.get(jobId);
-  if (job) {
-    job.status = "processing";
-    job.progress = progress;
+let jobStore: JobStore | null = null;
+
+export function getJobStore(): JobStore {
+  if (!jobStore) {
+    jobStore = createStore<JobStatus>("jobs");
+    console.log(`[JobStore] Using ${jobStore.backend} backend`);
   }
+  return jobStore;
+}
+
+/** Swap the backend (tests, or callers that build a store from explicit config). */
+export function setJobStore(store: JobStore | null): void {
+  jobStore = store;
+}
+
+// ──────────────────────────────────────────────
+//  Job lifecycle helpers
+// ──────────────────────────────────────────────
+
+export async function createJob(
+  jobId: string,
+  imageUrl?: string,
+  imageUrls?: string[],
+  perceptualHashes?: Array<string | null>
+): Promise<void> {
+  const now = new Date().toISOString();
+  await getJobStore().set(jobId, {
+    status: "pending",
+    imageUrl,
+    ...(imageUrls && imageUrls.length > 1 ? { imageUrls } : {}),
+    ...(perceptualHashes?.some(Boolean) ? { perceptualHashes } : {}),
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+// Job updates are read-modify-write (parallel claims report progress at once),
+// so serialize them per job within this instance — the instance running the
+// job is the only writer.
+const updateQueues = new Map<string, Promise<void>>();
+
+function updateJob<T>(jobId: string, update: (store: JobStore) => Promise<T>): Promise<T> {
+  const prev = updateQueues.get(jobId) ?? Promise.resolve();
+  const next = prev.then(() => update(getJobStore()));
+  const settled = next.then(() => undefined, () => undefined);
+  updateQueues.set(jobId, settled);
+  settled.then(() => {
+    if (updateQueues.get(jobId) === settled) updateQueues.delete(jobId);
+  });
+  return next;
+}
+
+/**
+ * Flip a pending job to "processing". Returns false if the job does not exist
+ * or was already started, so the same job is never analyzed twice.
+ */
+export function startJob(jobId: string): Promise<boolean> {
+  return updateJob(jobId, async (store) => {
+    const job = await store.get(jobId);
+    if (!job || job.status !== "pending") return false;
+    await store.set(jobId, {
+      ...job,
+      status: "processing",
+      progress: "Starting analysis…",
+      updatedAt: new Date().toISOString(),
+    });
+    return true;
+  });
+}
+
+// A finished job keeps its outcome: late progress from a timed-out run is dropped
+export function setProgress(jobId: string, progress: string, stage?: AnalysisStage): Promise<void> {
+  return updateJob(jobId, async (store) => {
+    const job = await store.get(jobId);
+    if (job && job.status !== "completed" && job.status !== "error") {
+      await store.set(jobId, {
+        ...job,
+        status: "processing",
+        progress,
+        stage: stage ?? job.stage,
+        updatedAt: new Date().toISOString(),
+      });
+    }
+  });
 }
 
-export function setJobResult(jobId: string, result: AnalysisResult): void {
-  jobs.set(jobId, { status: "completed", result });
+/** Record the images' perceptual hashes on the job (no-op if there is no job). */
+export function setPerceptualHashes(jobId: string, perceptualHashes: Array<string | null>): Promise<void> {
+  return updateJob(jobId, async (store) => {
+    const job = await store.get(jobId);
+    if (job && perceptualHashes.some(Boolean)) {
+      await store.set(jobId, { ...job, perceptualHashes, updatedAt: new Date().toISOString() });
+    }
+  });
 }
 
-export function setJobError(jobId: string, error: string): void {
-  jobs.set(jobId, { status: "error", error });
+export function setJobResult(jobId: string, result: AnalysisResult): Promise<void> {
+  return updateJob(jobId, async (store) => {
+    const prev = await store.get(jobId);
+    await store.set(jobId, {
+      status: "completed",
+      imageUrl: prev?.imageUrl ?? result.imageUrl,
+      ...(prev?.perceptualHashes ? { perceptualHashes: prev.perceptualHashes } : {}),
+      createdAt: prev?.createdAt,
+      updatedAt: new Date().toISOString(),
+      result,
+    });
+  });
+}
+
+export function setJobError(jobId: string, error: string): Promise<void> {
+  return updateJob(jobId, async (store) => {
+    const prev = await store.get(jobId);
+    await store.set(jobId, {
+      status: "error",
+      stage: prev?.stage,
+      imageUrl: prev?.imageUrl,
+      ...(prev?.perceptualHashes ? { perceptualHashes: prev.perceptualHashes } : {}),
+      createdAt: prev?.createdAt,
+      updatedAt: new Date().toISOString(),
+      error,
+    });
+  });
+}
+
+export async function getJobStatus(jobId: string): Promise<JobStatus | null> {
+  return getJobStore().get(jobId);
+}
+
+export async function listJobs(): Promise<Array<{ jobId: string; job: JobStatus }>> {
+  const records = await getJobStore().list();
+  return records.map((r) => ({ jobId: r.key, job: r.value }));
+}
+
+// ──────────────────────────────────────────────
+//  Job event log — replayed by /api/job/[id]/stream
+//  Kept in its own namespace so GET /api/job/[id] stays small.
+// ──────────────────────────────────────────────
+
+let eventStore: JobStore<AnalysisEvent[]> | null = null;
+
+function getEventStore(): JobStore<AnalysisEvent[]> {
+  if (!eventStore) eventStore = createStore<AnalysisEvent[]>("job-events");
+  return eventStore;
+}
+
+// Appends are read-modify-write, so serialize them per job within this instance
+// (the instance running the job is the only writer).
+const appendQueues = new Map<string, Promise<void>>();
+
+export function appendJobEvent(jobId: string, event: AnalysisEvent): Promise<void> {
+  const prev = appendQueues.get(jobId) ?? Promise.resolve();
+  const next = prev.then(async () => {
+    const store = getEventStore();
+    const events = (await store.get(jobId)) ?? [];
+    events.push(event);
+    await store.set(jobId, events);
+  }).catch((err: any) => {
+    console.warn(`[JobStore] Failed to append ${event.type} event for ${jobId}:`, err.message);
+  });
+  appendQueues.set(jobId, next);
+  next.then(() => {
+    if (appendQueues.get(jobId) === next) appendQueues.delete(jobId);
+  });
+  return next;
 }
 
-export function getJobStatus(jobId: string): JobStatus | null {
-  return jobs.get(jobId) ?? null;
+export async function getJobEvents(jobId: string): Promise<AnalysisEvent[]> {
+  return (await getEventStore().get(jobId)) ?? [];
 }
@@ -0,0 +1,79 @@
+// ──────────────────────────────────────────────
+//  LLM provider abstraction
+//  Every LLM-backed step (claim extraction, summary, verification,
+//  bias, search, chat) goes through one LLMProvider.
+//  Backboard.io is the production implementation; the scripted
+//  provider answers deterministically for offline runs and tests.
+//  Pick one with getLLMProvider() from ./llmProvider.
+// ──────────────────────────────────────────────
+
+export interface LLMModel {
+  provider: string;            // e.g. "openai", "anthropic", "openrouter"
+  name: string;                // e.g. "gpt-4o", "perplexity/sonar-pro"
+}
+
+export interface LLMTool {
+  definition: any;             // OpenAI-style function tool definition
+  handler: (args: any) => Promise<unknown>;
+}
+
+export interface LLMRequest {
+  assistant: string;           // stable assistant name — providers cache per name
+  systemPrompt: string;
+  message: string;
+  model?: LLMModel;            // omit to use the provider's default model
+  memory?: "Off" | "Auto";     // omit to use the provider's default
+  tools?: LLMTool[];
+  threadKey?: string;          // reuse one conversation across calls (chat)
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  isConfigured(): boolean;
+  complete(request: LLMRequest): Promise<string>;
+  completeJSON<T = any>(request: LLMRequest, shape: "object" | "array"): Promise<T>;
+  /** Persist text to the assistant's long-term memory (optional, best-effort). */
+  remember?(assistant: string, systemPrompt: string, content: string): Promise<void>;
+}
+
+/**
+ * Pull a JSON object/array out of an LLM reply and repair the usual damage:
+ * markdown fences, prose around the JSON, Python-escaped quotes, trailing
+ * commas, raw newlines inside strings and single-quoted JSON.
+ */
+export function parseLLMJSON<T = any>(content: string, shape: "object" | "array"): T {
+  let text = (content || "").trim();
+  if (text.startsWith("```")) {
+    text = text.replace(/```(?:json)?\n?/g, "").replace(/```\s*$/g, "").trim();
+  }
+
+  const [open, close] = shape === "array" ? ["[", "]"] : ["{", "}"];
+  const first = text.indexOf(open);
+  const last = text.lastIndexOf(close);
+  if (first === -1 || last === -1 || last <= first) {
+    throw new Error(`No JSON ${shape} found in response: ${text.slice(0, 200)}`);
+  }
+
+  const raw = text.substring(first, last + 1);
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    // fall through to repairs
+  }
+
+  const repaired = raw
+    .replace(/\\'/g, "'")        // Python-escaped single quotes
+    .replace(/,\s*]/g, "]")      // trailing commas in arrays
+    .replace(/,\s*}/g, "}")      // trailing commas in objects
+    .replace(/\n/g, " ");        // raw newlines inside strings
+  try {
+    return JSON.parse(repaired) as T;
+  } catch (e: any) {
+    try {
+      // Last resort: single-quoted JSON (breaks apostrophes inside text)
+      return JSON.parse(repaired.replace(/'/g, '"')) as T;
+    } catch {
+      throw new Error(`Failed to parse JSON ${shape}: ${e.message}. Raw content: ${raw.slice(0, 200)}`);
+    }
+  }
+}
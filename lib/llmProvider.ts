@@ -0,0 +1,30 @@
+// ──────────────────────────────────────────────
+//  LLM provider selection
+//  LLM_PROVIDER=backboard|scripted (default: backboard)
+// ──────────────────────────────────────────────
+
+import { LLMProvider } from "./llm";
+import { BackboardProvider } from "./backboardHttp";
+import { ScriptedProvider } from "./scriptedProvider";
+
+let provider: LLMProvider | null = null;
+
+export function getLLMProvider(): LLMProvider {
+  if (provider) return provider;
+
+  const name = (process.env.LLM_PROVIDER || "backboard").toLowerCase();
+  if (name === "scripted") {
+    provider = new ScriptedProvider();
+  } else {
+    if (name !== "backboard") {
+      console.warn(`[LLM] Unknown LLM_PROVIDER "${name}", using backboard`);
+    }
+    provider = new BackboardProvider();
+  }
+  return provider;
+}
+
+/** Swap the provider (tests, offline runs). Pass null to re-read LLM_PROVIDER. */
+export function setLLMProvider(next: LLMProvider | null): void {
+  provider = next;
+}
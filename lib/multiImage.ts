@@ -0,0 +1,87 @@
+// ──────────────────────────────────────────────
+//  Multi-image input — threads and scrolling captures
+//  Each screenshot is OCR'd on its own; the texts are merged in the
+//  order the user sent them into one context for extractClaims.
+//  Consecutive captures usually overlap (the last lines of one are
+//  the first of the next): the overlap is kept once and its lines
+//  credited to both images. Every line keeps the image(s) it came
+//  from, and each claim is traced back to the lines it was read from.
+// ──────────────────────────────────────────────
+
+import { OcrLine } from "./types";
+import { contentTerms } from "./evidence";
+import { normalizeOcrText } from "./resultCache";
+
+// Each image is one OCR call — keep a request's fan-out bounded
+export const MAX_IMAGES = 10;
+
+// An overlap shorter than this (normalized chars) is more likely a
+// repeated "Reply" or "Show more" than the same lines captured twice
+const MIN_OVERLAP_CHARS = 20;
+
+// A claim may span a few lines (and the seam between two captures)
+const MAX_CLAIM_LINES = 4;
+
+export interface MergedText {
+  text: string;
+  lines: OcrLine[];
+}
+
+function splitLines(text: string): string[] {
+  return text.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
+}
+
+// The most lines at the end of `merged` repeated at the start of `next`
+function overlapLength(merged: OcrLine[], next: string[]): number {
+  const tail = merged.map((l) => normalizeOcrText(l.text));
+  const head = next.map(normalizeOcrText);
+  for (let k = Math.min(tail.length, head.length); k > 0; k--) {
+    const a = tail.slice(tail.length - k);
+    const b = head.slice(0, k);
+    if (a.every((line, i) => line === b[i]) && a.join("").length >= MIN_OVERLAP_CHARS) return k;
+  }
+  return 0;
+}
+
+/** Merge the OCR text of each image (in reading order) into one text with per-line provenance. */
+export function mergeImageTexts(texts: string[]): MergedText {
+  const lines: OcrLine[] = [];
+  texts.forEach((text, index) => {
+    const next = splitLines(text);
+    const overlap = overlapLength(lines, next);
+    for (let i = 0; i < overlap; i++) {
+      const line = lines[lines.length - overlap + i];
+      if (!line.images.includes(index)) line.images.push(index);
+    }
+    for (const line of next.slice(overlap)) lines.push({ text: line, images: [index] });
+  });
+  return { text: lines.map((l) => l.text).join("\n"), lines };
+}
+
+/**
+ * The images a claim was read from: the run of consecutive lines
+ * (up to MAX_CLAIM_LINES) sharing the most of its terms, and the
+ * images of the lines in it that contribute. Empty when nothing matches.
+ */
+export function sourceImagesFor(claimText: string, lines: OcrLine[]): number[] {
+  const claimTerms = new Set(contentTerms(claimText));
+  if (claimTerms.size === 0) return [];
+  const lineTerms = lines.map((l) => new Set(contentTerms(l.text).filter((t) => claimTerms.has(t))));
+
+  let best: { start: number; end: number; covered: number } | null = null;
+  for (let start = 0; start < lines.length; start++) {
+    const covered = new Set<string>();
+    for (let end = start; end < Math.min(lines.length, start + MAX_CLAIM_LINES); end++) {
+      for (const t of lineTerms[end]) covered.add(t);
+      // Shorter runs win ties: a longer one only adds noise
+      if (covered.size > 0 && (!best || covered.size > best.covered)) best = { start, end, covered: covered.size };
+    }
+  }
+  if (!best) return [];
+
+  const images = new Set<number>();
+  for (let i = best.start; i <= best.end; i++) {
+    if (lineTerms[i].size > 0) lines[i].images.forEach((img) => images.add(img));
+  }
+  return [...images].sort((a, b) => a - b);
+}
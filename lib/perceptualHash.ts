@@ -0,0 +1,314 @@
+// ──────────────────────────────────────────────
+//  Perceptual hashes — earlier analyses of the same image
+//  A cropped, resized or re-encoded copy of a viral screenshot has
+//  other bytes than the original (and often slightly other OCR), so
+//  the result cache misses it. A difference hash (dHash) of what the
+//  image shows survives those changes: uniform margins are trimmed,
+//  the rest is shrunk to a 17×16 grey grid, and each bit says whether
+//  a cell is darker than its right neighbour (256 bits, 64 hex chars).
+//  Copies differ in a few bits, different posts in many.
+//  Each analyzed image's hash is kept with the analysis' verdicts in
+//  the "perceptual-hashes" namespace of the job store (JOB_TTL_SECONDS).
+//  Lookups never scan that namespace: the hash is cut into 16 bands of
+//  16 bits, and "perceptual-hash-bands" lists the newest records per
+//  band value. Only records sharing a band are compared, so a copy
+//  within 15 bits is always found (some band is untouched), farther
+//  ones only when a band happens to agree.
+//  PERCEPTUAL_HASH_MAX_DISTANCE sets how many bits may differ for a
+//  match (default 32).
+// ──────────────────────────────────────────────
+
+import { createStore, getJobStatus, JobStore, MemoryJobStore } from "./jobStore";
+import { decodeImage, DecodedImage, Raster } from "./imageForensics";
+import { AnalysisResult, PreviousAnalysis } from "./types";
+
+const GRID_WIDTH = 17;
+const GRID_HEIGHT = 16;
+export const HASH_BITS = (GRID_WIDTH - 1) * GRID_HEIGHT;
+export const DEFAULT_MAX_DISTANCE = 32;
+
+// A margin row or column: at most 1% of its pixels differ from the background by more than this
+const MARGIN_TOLERANCE = 32;
+const MARGIN_OUTLIERS = 0.01;
+
+// A cell only counts as darker by more than this, so compression noise in flat areas flips no bits
+const MIN_STEP = 1;
+
+const MAX_PREVIOUSLY_SEEN = 5;
+
+// Index: 16 bands of 4 hex digits; each band value keeps its newest records
+const BAND_HEX_DIGITS = 4;
+const MAX_BAND_RECORDS = 64;
+const MAX_CANDIDATES = 100;
+// The lookup runs beside the cache lookup and OCR, but never holds the analysis up for long
+const LOOKUP_TIMEOUT_MS = 2000;
+
+export function maxHashDistance(): number {
+  const raw = process.env.PERCEPTUAL_HASH_MAX_DISTANCE;
+  const distance = parseInt(raw || "", 10);
+  return Number.isFinite(distance) && distance >= 0 ? Math.min(distance, HASH_BITS) : DEFAULT_MAX_DISTANCE;
+}
+
+// ──────────────────────────────────────────────
+//  Hashing
+// ──────────────────────────────────────────────
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+function grey(raster: Raster): Float64Array {
+  const { data } = raster;
+  const out = new Float64Array(raster.width * raster.height);
+  for (let i = 0, p = 0; i < out.length; i++, p += 4) out[i] = (data[p] * 77 + data[p + 1] * 150 + data[p + 2] * 29) / 256;
+  return out;
+}
+
+/**
+ * The image without its uniform margins (the top-left pixel's colour),
+ * so a copy cropped closer to the content hashes like the original.
+ */
+function contentBox(lum: Float64Array, width: number, height: number): Box {
+  const background = lum[0];
+  const isMargin = (start: number, step: number, count: number) => {
+    let outliers = 0;
+    for (let i = 0, p = start; i < count; i++, p += step) {
+      if (Math.abs(lum[p] - background) > MARGIN_TOLERANCE) outliers++;
+    }
+    return outliers <= count * MARGIN_OUTLIERS;
+  };
+
+  let top = 0, bottom = height, left = 0, right = width;
+  while (top < bottom - 1 && isMargin(top * width, 1, width)) top++;
+  while (bottom - 1 > top && isMargin((bottom - 1) * width, 1, width)) bottom--;
+  while (left < right - 1 && isMargin(top * width + left, width, bottom - top)) left++;
+  while (right - 1 > left && isMargin(top * width + right - 1, width, bottom - top)) right--;
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+// Mean grey level of each grid cell over the box
+function shrink(lum: Float64Array, width: number, box: Box): Float64Array {
+  const cells = new Float64Array(GRID_WIDTH * GRID_HEIGHT);
+  for (let cy = 0; cy < GRID_HEIGHT; cy++) {
+    const y0 = box.y + Math.floor((cy * box.height) / GRID_HEIGHT);
+    const y1 = box.y + Math.floor(((cy + 1) * box.height) / GRID_HEIGHT);
+    for (let cx = 0; cx < GRID_WIDTH; cx++) {
+      const x0 = box.x + Math.floor((cx * box.width) / GRID_WIDTH);
+      const x1 = box.x + Math.floor(((cx + 1) * box.width) / GRID_WIDTH);
+      let sum = 0;
+      for (let y = y0; y < y1; y++) for (let x = x0; x < x1; x++) sum += lum[y * width + x];
+      cells[cy * GRID_WIDTH + cx] = sum / ((x1 - x0) * (y1 - y0));
+    }
+  }
+  return cells;
+}
+
+/**
+ * The image's dHash as 64 hex characters; null when it cannot be decoded
+ * (not a JPEG or PNG, broken) or shows nothing but a flat colour. Takes
+ * the bytes, or an image already decoded for forensics. Never throws.
+ */
+export function perceptualHash(image: Buffer | DecodedImage): string | null {
+  const { raster, error } = Buffer.isBuffer(image) ? decodeImage(image) : image;
+  if (error) {
+    console.warn(`[PerceptualHash] Could not decode image:`, error);
+    return null;
+  }
+  if (!raster) return null;
+
+  const lum = grey(raster);
+  const box = contentBox(lum, raster.width, raster.height);
+  if (box.width < GRID_WIDTH || box.height < GRID_HEIGHT) return null;
+  const cells = shrink(lum, raster.width, box);
+
+  let hex = "";
+  for (let cy = 0; cy < GRID_HEIGHT; cy++) {
+    for (let cx = 0; cx < GRID_WIDTH - 1; cx += 4) {
+      let nibble = 0;
+      for (let b = 0; b < 4; b++) {
+        const i = cy * GRID_WIDTH + cx + b;
+        nibble = (nibble << 1) | (cells[i] < cells[i + 1] - MIN_STEP ? 1 : 0);
+      }
+      hex += nibble.toString(16);
+    }
+  }
+  return hex;
+}
+
+/** Number of differing bits between two hashes of the same length. */
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) throw new Error(`Cannot compare hashes of ${a.length} and ${b.length} hex digits`);
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let x = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    for (; x; x &= x - 1) distance++;
+  }
+  return distance;
+}
+
+// ──────────────────────────────────────────────
+//  Seen images — one record per analyzed image, keyed <jobId>:<index>
+// ──────────────────────────────────────────────
+
+export interface SeenImage {
+  hash: string;
+  jobId: string;
+  jobUrl?: string;
+  imageUrl: string;
+  analyzedAt: string;
+  trustLabel: string;
+  aggregateTrustScore: number;
+  claims: PreviousAnalysis["claims"];
+}
+
+let seenStore: JobStore<SeenImage> | null = null;
+let bandStore: JobStore<string[]> | null = null;
+
+function getSeenStore(): JobStore<SeenImage> {
+  if (!seenStore) seenStore = createStore<SeenImage>("perceptual-hashes");
+  return seenStore;
+}
+
+function getBandStore(): JobStore<string[]> {
+  if (!bandStore) bandStore = createStore<string[]>("perceptual-hash-bands");
+  return bandStore;
+}
+
+/** Swap the backends (tests); a swapped record store gets a fresh in-memory index unless one is given. */
+export function setSeenImageStore(
+  store: JobStore<SeenImage> | null,
+  bands: JobStore<string[]> | null = store ? new MemoryJobStore<string[]>() : null
+): void {
+  seenStore = store;
+  bandStore = bands;
+}
+
+// Index keys of a hash: <band>:<its hex digits>
+function bandKeys(hash: string): string[] {
+  const keys: string[] = [];
+  for (let i = 0; i < hash.length; i += BAND_HEX_DIGITS) keys.push(`${i / BAND_HEX_DIGITS}:${hash.slice(i, i + BAND_HEX_DIGITS)}`);
+  return keys;
+}
+
+// Band lists are read-modify-write: serialized per list within this instance (see updateJob in ./jobStore)
+const bandQueues = new Map<string, Promise<void>>();
+
+function addToBand(bandKey: string, recordKey: string): Promise<void> {
+  const prev = bandQueues.get(bandKey) ?? Promise.resolve();
+  const next = prev.then(async () => {
+    const records = (await getBandStore().get(bandKey)) ?? [];
+    await getBandStore().set(bandKey, [recordKey, ...records.filter((k) => k !== recordKey)].slice(0, MAX_BAND_RECORDS));
+  });
+  const settled = next.then(() => undefined, () => undefined);
+  bandQueues.set(bandKey, settled);
+  settled.then(() => {
+    if (bandQueues.get(bandKey) === settled) bandQueues.delete(bandKey);
+  });
+  return next;
+}
+
+// Records sharing a band with any of `hashes`, newest first per band, at most MAX_CANDIDATES
+async function candidates(hashes: string[], jobId: string): Promise<SeenImage[]> {
+  const keys = [...new Set(hashes.flatMap(bandKeys))];
+  const lists = await Promise.all(keys.map((key) => getBandStore().get(key)));
+  const recordKeys = [...new Set(lists.flatMap((list) => list ?? []))]
+    .filter((key) => !key.startsWith(`${jobId}:`))
+    .slice(0, MAX_CANDIDATES);
+  // Listed records may have expired since
+  const records = await Promise.all(recordKeys.map((key) => getSeenStore().get(key)));
+  return records.filter((seen): seen is SeenImage => seen !== null);
+}
+
+function withinLookupTime<T>(lookup: Promise<T>): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  return Promise.race([
+    lookup,
+    new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`no answer within ${LOOKUP_TIMEOUT_MS} ms`)), LOOKUP_TIMEOUT_MS);
+    }),
+  ]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Earlier analyses whose images are within `maxDistance` bits of any of
+ * `hashes` (null entries are skipped), closest first, then newest; one
+ * entry per earlier analysis. The current job is left out. Candidates
+ * come from the band index (see above). Lookup failures and slow lookups
+ * are logged and treated as no match.
+ */
+export async function findPreviouslySeen(
+  hashes: Array<string | null>,
+  jobId: string,
+  maxDistance: number = maxHashDistance()
+): Promise<PreviousAnalysis[]> {
+  const valid = hashes.filter((hash): hash is string => hash !== null && hash.length === HASH_BITS / 4);
+  if (valid.length === 0) return [];
+
+  let records: SeenImage[];
+  try {
+    records = await withinLookupTime(candidates(valid, jobId));
+  } catch (err: any) {
+    console.warn(`[PerceptualHash] Lookup failed (treating as unseen):`, err.message);
+    return [];
+  }
+
+  const closest = new Map<string, PreviousAnalysis>();
+  for (const seen of records) {
+    if (seen.jobId === jobId || seen.hash.length !== HASH_BITS / 4) continue;
+    hashes.forEach((hash, imageIndex) => {
+      if (!hash || hash.length !== seen.hash.length) return;
+      const distance = hammingDistance(hash, seen.hash);
+      const best = closest.get(seen.jobId);
+      if (distance > maxDistance || (best && best.distance <= distance)) return;
+      closest.set(seen.jobId, {
+        jobId: seen.jobId,
+        ...(seen.jobUrl ? { jobUrl: seen.jobUrl } : {}),
+        imageUrl: seen.imageUrl,
+        imageIndex,
+        distance,
+        analyzedAt: seen.analyzedAt,
+        trustLabel: seen.trustLabel,
+        aggregateTrustScore: seen.aggregateTrustScore,
+        claims: seen.claims,
+      });
+    });
+  }
+
+  return [...closest.values()]
+    .sort((a, b) => a.distance - b.distance || b.analyzedAt.localeCompare(a.analyzedAt))
+    .slice(0, MAX_PREVIOUSLY_SEEN);
+}
+
+/**
+ * Record the images of a finished analysis with its verdicts and index
+ * them by band, so later copies can link back to it. Never throws.
+ */
+export async function rememberAnalysis(hashes: Array<string | null>, result: AnalysisResult): Promise<void> {
+  if (!hashes.some(Boolean)) return;
+  try {
+    // Only jobs can be fetched again; a synchronous /api/analyze run has nothing to link to
+    const jobUrl = (await getJobStatus(result.jobId)) ? `/api/job/${result.jobId}` : undefined;
+    const claims = result.claims.map(({ text, verdict }) => ({ text, verdict }));
+    await Promise.all(hashes.map(async (hash, imageIndex) => {
+      if (!hash) return;
+      const key = `${result.jobId}:${imageIndex}`;
+      const seen: SeenImage = {
+        hash,
+        jobId: result.jobId,
+        ...(jobUrl ? { jobUrl } : {}),
+        imageUrl: result.images?.[imageIndex]?.imageUrl ?? result.imageUrl,
+        analyzedAt: result.generatedAt,
+        trustLabel: result.trustLabel,
+        aggregateTrustScore: result.aggregateTrustScore,
+        claims,
+      };
+      await getSeenStore().set(key, seen);
+      await Promise.all(bandKeys(hash).map((band) => addToBand(band, key)));
+    }));
+  } catch (err: any) {
+    console.warn(`[PerceptualHash] Store failed (non-critical):`, err.message);
+  }
+}
@@ -0,0 +1,125 @@
+// ──────────────────────────────────────────────
+//  Bias perspectives — the lenses detectBias reads a post through
+//  Defined in config/perspectives.json: each perspective has an id,
+//  a label, the locale whose media context it represents (null for
+//  subject lenses such as public health) and its system prompt.
+//  A request names its perspectives, or gets the set mapped to the
+//  user's locale, or the default trio. BIAS_PERSPECTIVES may hold a
+//  JSON override with the same shape.
+// ──────────────────────────────────────────────
+
+import perspectiveConfig from "../config/perspectives.json";
+
+export interface Perspective {
+  id: string;
+  label: string;
+  locale: string | null;
+  prompt: string;
+}
+
+export interface PerspectiveRegistry {
+  version: number;
+  defaultSet: string[];
+  locales: Record<string, string[]>;   // keys lowercased: "en-gb", "de"
+  perspectives: Record<string, Perspective>;
+}
+
+// Each perspective is one LLM call — keep a request's fan-out bounded
+export const MAX_PERSPECTIVES = 5;
+
+function validateSet(ids: any, known: Record<string, Perspective>, where: string): string[] {
+  if (!Array.isArray(ids) || ids.length === 0) throw new Error(`${where} needs a non-empty list of perspective ids`);
+  if (ids.length > MAX_PERSPECTIVES) throw new Error(`${where} has more than ${MAX_PERSPECTIVES} perspectives`);
+  const unique = [...new Set(ids.map(String))];
+  for (const id of unique) {
+    if (!known[id]) throw new Error(`${where} references unknown perspective "${id}"`);
+  }
+  return unique;
+}
+
+function validateRegistry(raw: any, origin: string): PerspectiveRegistry {
+  if (!raw || !Array.isArray(raw.perspectives)) {
+    throw new Error(`Perspectives (${origin}) need a "perspectives" array`);
+  }
+  const perspectives: Record<string, Perspective> = {};
+  raw.perspectives.forEach((p: any, i: number) => {
+    const prompt = Array.isArray(p?.prompt) ? p.prompt.join("\n") : p?.prompt;
+    if (!p?.id || typeof prompt !== "string" || !prompt.trim()) {
+      throw new Error(`Perspectives (${origin}) entry #${i + 1} needs "id" and "prompt"`);
+    }
+    const id = String(p.id);
+    if (!/^[a-z0-9-]+$/.test(id)) throw new Error(`Perspectives (${origin}) id "${id}": use lowercase letters, digits and dashes`);
+    if (perspectives[id]) throw new Error(`Perspectives (${origin}) has duplicate id "${id}"`);
+    // Backboard formats system prompts with Python's str.format()
+    if (/[{}]/.test(prompt)) throw new Error(`Perspectives (${origin}) prompt of "${id}" must not contain curly braces`);
+    perspectives[id] = { id, label: String(p.label || id), locale: p.locale ? String(p.locale) : null, prompt };
+  });
+
+  const locales: Record<string, string[]> = {};
+  for (const [locale, ids] of Object.entries(raw.locales ?? {})) {
+    locales[locale.toLowerCase()] = validateSet(ids, perspectives, `Perspectives (${origin}) locale "${locale}"`);
+  }
+  return {
+    version: typeof raw.version === "number" ? raw.version : 1,
+    defaultSet: validateSet(raw.default, perspectives, `Perspectives (${origin}) default`),
+    locales,
+    perspectives,
+  };
+}
+
+let registry: PerspectiveRegistry | null = null;
+
+export function getPerspectiveRegistry(): PerspectiveRegistry {
+  if (registry) return registry;
+  const override = process.env.BIAS_PERSPECTIVES;
+  if (override) {
+    try {
+      registry = validateRegistry(JSON.parse(override), "BIAS_PERSPECTIVES");
+    } catch (err: any) {
+      console.error(`[Perspectives] Ignoring BIAS_PERSPECTIVES: ${err.message}`);
+    }
+  }
+  if (!registry) registry = validateRegistry(perspectiveConfig, "config/perspectives.json");
+  return registry;
+}
+
+/** Swap the registry (tests, or callers that build one from explicit config). */
+export function setPerspectiveRegistry(next: unknown | null): void {
+  registry = next ? validateRegistry(next, "setPerspectiveRegistry") : null;
+}
+
+/** Ids the registry does not know (empty when all are valid). */
+export function unknownPerspectives(ids: string[]): string[] {
+  const { perspectives } = getPerspectiveRegistry();
+  return ids.filter((id) => !Object.prototype.hasOwnProperty.call(perspectives, id));
+}
+
+/**
+ * The set for a locale tag ("en-GB", "pt-BR", or an Accept-Language
+ * header): exact tag, then the language alone, else null.
+ */
+export function perspectivesForLocale(locale: string): string[] | null {
+  const { locales } = getPerspectiveRegistry();
+  const tag = locale.split(",")[0].split(";")[0].trim().replace(/_/g, "-").toLowerCase();
+  if (!tag) return null;
+  return locales[tag] ?? locales[tag.split("-")[0]] ?? null;
+}
+
+/**
+ * The perspectives for a request: the ids it names (in order), else the
+ * set for its locale, else the default. Throws on unknown ids — validate
+ * user input with unknownPerspectives().
+ */
+export function resolvePerspectives(selection: { ids?: string[]; locale?: string } = {}): Perspective[] {
+  const reg = getPerspectiveRegistry();
+  const ids = selection.ids && selection.ids.length > 0
+    ? validateSet(selection.ids, reg.perspectives, "Perspective selection")
+    : (selection.locale && perspectivesForLocale(selection.locale)) || reg.defaultSet;
+  return ids.map((id) => reg.perspectives[id]);
+}
+
+/** true when the perspectives are exactly the registry's default set. */
+export function isDefaultPerspectiveSet(perspectives: Perspective[]): boolean {
+  const { defaultSet } = getPerspectiveRegistry();
+  return perspectives.length === defaultSet.length && perspectives.every((p, i) => p.id === defaultSet[i]);
+}
@@ -0,0 +1,88 @@
+// ──────────────────────────────────────────────
+//  Platform profiles — how to read each kind of screenshot
+//  Defined in config/platformProfiles.json: per platform (see
+//  detectPlatform in ./screenshotMetadata), the extra instructions
+//  extractClaims and generateOCRSummary add to their prompts — which
+//  UI chrome to ignore, how to keep a quoted post apart. Screenshots
+//  from an unrecognized platform get the "generic" profile.
+//  PLATFORM_PROFILES may hold a JSON override with the same shape.
+// ──────────────────────────────────────────────
+
+import platformConfig from "../config/platformProfiles.json";
+import { SocialPlatform } from "./types";
+
+export interface PlatformProfile {
+  id: string;                  // a SocialPlatform, or "generic"
+  label: string;
+  extraction: string;          // prompt lines for extractClaims
+  summary: string;             // prompt lines for generateOCRSummary
+}
+
+export interface PlatformProfileSet {
+  version: number;
+  profiles: Record<string, PlatformProfile>;
+}
+
+export const GENERIC_PROFILE = "generic";
+
+function promptLines(raw: any, where: string): string {
+  const text = Array.isArray(raw) ? raw.join("\n") : raw;
+  if (typeof text !== "string" || !text.trim()) throw new Error(`${where} needs prompt lines`);
+  // Backboard formats system prompts with Python's str.format()
+  if (/[{}]/.test(text)) throw new Error(`${where} must not contain curly braces`);
+  return text;
+}
+
+function validateProfiles(raw: any, origin: string): PlatformProfileSet {
+  if (!raw || !Array.isArray(raw.profiles)) {
+    throw new Error(`Platform profiles (${origin}) need a "profiles" array`);
+  }
+  const profiles: Record<string, PlatformProfile> = {};
+  raw.profiles.forEach((p: any, i: number) => {
+    if (!p?.id) throw new Error(`Platform profiles (${origin}) entry #${i + 1} needs an "id"`);
+    const id = String(p.id);
+    if (!/^[a-z0-9-]+$/.test(id)) throw new Error(`Platform profiles (${origin}) id "${id}": use lowercase letters, digits and dashes`);
+    if (profiles[id]) throw new Error(`Platform profiles (${origin}) has duplicate id "${id}"`);
+    const where = `Platform profile "${id}" (${origin})`;
+    profiles[id] = {
+      id,
+      label: String(p.label || id),
+      extraction: promptLines(p.extraction, `${where} extraction`),
+      summary: promptLines(p.summary, `${where} summary`),
+    };
+  });
+  if (!profiles[GENERIC_PROFILE]) {
+    throw new Error(`Platform profiles (${origin}) need a "${GENERIC_PROFILE}" profile`);
+  }
+  return {
+    version: typeof raw.version === "number" ? raw.version : 1,
+    profiles,
+  };
+}
+
+let profileSet: PlatformProfileSet | null = null;
+
+export function getPlatformProfiles(): PlatformProfileSet {
+  if (profileSet) return profileSet;
+  const override = process.env.PLATFORM_PROFILES;
+  if (override) {
+    try {
+      profileSet = validateProfiles(JSON.parse(override), "PLATFORM_PROFILES");
+    } catch (err: any) {
+      console.error(`[PlatformProfiles] Ignoring PLATFORM_PROFILES: ${err.message}`);
+    }
+  }
+  if (!profileSet) profileSet = validateProfiles(platformConfig, "config/platformProfiles.json");
+  return profileSet;
+}
+
+/** Swap the profiles (tests, or callers that build them from explicit config). */
+export function setPlatformProfiles(next: unknown | null): void {
+  profileSet = next ? validateProfiles(next, "setPlatformProfiles") : null;
+}
+
+/** The platform's profile, or the generic one. */
+export function getPlatformProfile(platform?: SocialPlatform): PlatformProfile {
+  const { profiles } = getPlatformProfiles();
+  return (platform && Object.prototype.hasOwnProperty.call(profiles, platform) ? profiles[platform] : null) ?? profiles[GENERIC_PROFILE];
+}
@@ -0,0 +1,279 @@
+// ──────────────────────────────────────────────
+//  Query planner — focused search queries per claim
+//  Long or quote-heavy claim sentences make poor search queries.
+//  Build a few targeted ones instead (local heuristics, 0 API calls):
+//    entities_action  key names + what they did
+//    quoted_phrase    the exact quote, in quotes
+//    number_subject   the figure + what it counts
+//    date_window      the keywords + the month/year the claim is about
+//  The raw claim is only used for short claims or when nothing else fits.
+// ──────────────────────────────────────────────
+
+export type QueryKind = "entities_action" | "quoted_phrase" | "number_subject" | "date_window" | "full_claim";
+
+export interface PlannedQuery {
+  kind: QueryKind;
+  query: string;
+}
+
+export interface DateWindow {
+  from: string;                // YYYY-MM-DD, inclusive
+  to: string;                  // YYYY-MM-DD, inclusive
+  label: string;               // "March 2023", "2021" — used in queries
+}
+
+export const MAX_QUERIES_PER_CLAIM = 4;
+const MAX_QUERY_WORDS = 10;
+const SHORT_CLAIM_WORDS = 12;
+
+const STOPWORDS = new Set([
+  "a", "an", "the", "and", "or", "but", "of", "to", "in", "on", "at", "for", "by", "with",
+  "from", "into", "about", "over", "after", "before", "than", "that", "this", "these", "those",
+  "is", "are", "was", "were", "be", "been", "being", "has", "have", "had", "will", "would",
+  "could", "should", "may", "might", "can", "do", "does", "did", "not", "no", "it", "its",
+  "he", "she", "they", "them", "his", "her", "their", "we", "our", "you", "your", "i",
+  "as", "so", "if", "then", "just", "also", "only", "very", "more", "most", "all", "new",
+  "says", "said", "according", "reportedly", "per", "since", "among", "while", "when",
+  "where", "which", "who", "what", "there", "here", "now",
+  // number units travel with their figure (see extractNumberSubject)
+  "percent", "thousand", "million", "billion", "trillion",
+]);
+
+const MONTHS = [
+  "january", "february", "march", "april", "may", "june",
+  "july", "august", "september", "october", "november", "december",
+];
+export const MONTH_PATTERN = "\\b(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?";
+
+// Reporting / action verbs that don't end in -ed
+const IRREGULAR_ACTIONS = new Set([
+  "said", "says", "won", "lost", "made", "took", "gave", "paid", "sold", "bought", "met",
+  "told", "found", "left", "ran", "hit", "cut", "shut", "spent", "built", "began", "became",
+  "broke", "chose", "fell", "grew", "knew", "led", "rose", "saw", "stole", "struck", "wrote",
+  "bans", "cuts", "wins", "plans", "claims", "denies", "admits", "warns", "kills",
+]);
+
+const NUMBER_REGEX = /(?:[$€£]\s?\d[\d,.]*|\d[\d,.]*)(?:\s?(?:%|percent|million|billion|trillion|thousand|k\b|m\b|bn\b))?/gi;
+
+function words(text: string): string[] {
+  return text.split(/\s+/).map((w) => w.replace(/^[^\w$€£@#]+|[^\w%]+$/g, "")).filter(Boolean);
+}
+
+function isYear(token: string): boolean {
+  return /^(19|20)\d{2}$/.test(token);
+}
+
+function isMonth(token: string): boolean {
+  return new RegExp(`^${MONTH_PATTERN}$`, "i").test(token);
+}
+
+function contentWords(text: string): string[] {
+  return words(text).filter((w) => {
+    const lower = w.toLowerCase();
+    return !STOPWORDS.has(lower) && !isMonth(w) && !isYear(w) && !/^\d/.test(w) && !/^[$€£]/.test(w) && w.length > 2;
+  });
+}
+
+// Join query parts, dropping repeated words; quoted phrases stay whole
+function limitWords(parts: string[]): string {
+  const seen = new Set<string>();
+  const out: string[] = [];
+  let count = 0;
+  for (const part of parts) {
+    const units = part.startsWith('"') ? [part] : part.split(/\s+/);
+    for (const unit of units) {
+      const key = unit.toLowerCase();
+      if (!unit || seen.has(key)) continue;
+      const size = unit.split(/\s+/).length;
+      if (count > 0 && count + size > MAX_QUERY_WORDS) return out.join(" ");
+      seen.add(key);
+      out.push(unit);
+      count += size;
+    }
+  }
+  return out.join(" ");
+}
+
+/** Runs of Capitalized words, ACRONYMS and @handles (month names excluded). */
+export function extractEntities(text: string): string[] {
+  const tokens = words(text);
+  const entities: string[] = [];
+  let run: string[] = [];
+
+  const flush = () => {
+    if (run.length > 0) entities.push(run.join(" "));
+    run = [];
+  };
+
+  tokens.forEach((token, i) => {
+    const lower = token.toLowerCase();
+    const capitalized = /^[A-Z][\w'’.-]*$/.test(token) || /^[A-Z]{2,6}s?$/.test(token);
+    const handle = /^[@#]\w+/.test(token);
+    // Sentence-initial stopwords ("The", "A") are capitalized only by position
+    if (handle) {
+      flush();
+      entities.push(token);
+    } else if (capitalized && !isMonth(token) && !(STOPWORDS.has(lower) && run.length === 0 && (i === 0 || /[.!?:]$/.test(tokens[i - 1])))) {
+      run.push(token);
+    } else {
+      flush();
+    }
+  });
+  flush();
+
+  // Acronyms that spell a stopword ("WHO") are still entities
+  return [...new Set(entities.filter((e) => !STOPWORDS.has(e.toLowerCase()) || /^[A-Z]{2,}$/.test(e)))];
+}
+
+/** The main verb, by -ed/-es suffix or a list of common irregular actions. */
+export function extractAction(text: string): string | null {
+  for (const token of words(text)) {
+    const lower = token.toLowerCase();
+    if (/^[A-Z]/.test(token) && !IRREGULAR_ACTIONS.has(lower)) continue;
+    if (IRREGULAR_ACTIONS.has(lower)) return lower;
+    if (lower.length > 4 && /ed$/.test(lower) && !STOPWORDS.has(lower)) return lower;
+  }
+  return null;
+}
+
+/** Quoted phrases of 3+ words ("…", “…”, '…'). */
+export function extractQuotedPhrases(text: string): string[] {
+  const phrases: string[] = [];
+  const regex = /"([^"]+)"|“([^”]+)”|(?:^|\s)'([^']+)'(?=\s|[.,!?]|$)/g;
+  let match;
+  while ((match = regex.exec(text)) !== null) {
+    const phrase = (match[1] || match[2] || match[3] || "").trim().replace(/[.,!?]+$/, "");
+    if (phrase.split(/\s+/).length >= 3) phrases.push(phrase);
+  }
+  return phrases;
+}
+
+/** A figure plus up to three following content words ("$12 million budget"). */
+export function extractNumberSubject(text: string): { number: string; subject: string } | null {
+  const dateSpans = dateSpansIn(text);
+  NUMBER_REGEX.lastIndex = 0;
+  let match;
+  while ((match = NUMBER_REGEX.exec(text)) !== null) {
+    const number = match[0].trim().replace(/[.,]+$/, "");
+    const start = match.index;
+    if (isYear(number) || dateSpans.some(([s, e]) => start >= s && start < e)) continue;
+    if (!/\d/.test(number)) continue;
+
+    const after = words(text.slice(start + match[0].length)).slice(0, 4);
+    const subject: string[] = [];
+    for (const w of after) {
+      if (STOPWORDS.has(w.toLowerCase()) || /^\d/.test(w)) break;
+      subject.push(w);
+    }
+    if (subject.length === 0 && !/[$€£%]|percent|million|billion|trillion/i.test(number)) continue;
+    return { number, subject: subject.join(" ") };
+  }
+  return null;
+}
+
+function dateSpansIn(text: string): Array<[number, number]> {
+  const spans: Array<[number, number]> = [];
+  const patterns = [
+    new RegExp(`${MONTH_PATTERN}\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+(?:19|20)\\d{2}`, "gi"),
+    new RegExp(`\\d{1,2}\\s+${MONTH_PATTERN}\\s+(?:19|20)\\d{2}`, "gi"),
+    /\b(?:19|20)\d{2}-\d{2}-\d{2}\b/g,
+    /\b\d{1,2}\/\d{1,2}\/(?:19|20)\d{2}\b/g,
+  ];
+  for (const p of patterns) {
+    let m;
+    while ((m = p.exec(text)) !== null) spans.push([m.index, m.index + m[0].length]);
+  }
+  return spans;
+}
+
+export function isoDate(year: number, month: number, day: number): string {
+  return new Date(Date.UTC(year, month, day)).toISOString().split("T")[0];
+}
+
+export function monthIndex(name: string): number {
+  const lower = name.toLowerCase().replace(/\.$/, "");
+  return MONTHS.findIndex((m) => m.startsWith(lower.slice(0, 3)));
+}
+
+/**
+ * The time frame a claim is about, from explicit dates in its text:
+ * a full date → that month, "March 2023" → that month, a bare year → that year.
+ * Relative phrases ("yesterday") are not resolved.
+ */
+export function extractDateWindow(text: string): DateWindow | null {
+  let m = text.match(new RegExp(`${MONTH_PATTERN}\\s+(?:\\d{1,2}(?:st|nd|rd|th)?,?\\s+)?((?:19|20)\\d{2})`, "i"))
+    || text.match(new RegExp(`\\d{1,2}\\s+${MONTH_PATTERN}\\s+((?:19|20)\\d{2})`, "i"));
+  if (m) {
+    const month = monthIndex(m[1]);
+    const year = parseInt(m[2], 10);
+    if (month >= 0) {
+      return { from: isoDate(year, month, 1), to: isoDate(year, month + 1, 0), label: `${capitalize(MONTHS[month])} ${year}` };
+    }
+  }
+
+  m = text.match(/\b((?:19|20)\d{2})-(\d{2})-\d{2}\b/) || null;
+  if (m) {
+    const year = parseInt(m[1], 10);
+    const month = parseInt(m[2], 10) - 1;
+    return { from: isoDate(year, month, 1), to: isoDate(year, month + 1, 0), label: `${capitalize(MONTHS[month] || "")} ${year}`.trim() };
+  }
+
+  m = text.match(/\b\d{1,2}\/\d{1,2}\/((?:19|20)\d{2})\b/) || text.match(/\b(?:in|since|during|of)\s+((?:19|20)\d{2})\b/i);
+  if (m) {
+    const year = parseInt(m[1], 10);
+    return { from: isoDate(year, 0, 1), to: isoDate(year, 11, 31), label: String(year) };
+  }
+  return null;
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+/**
+ * Build up to MAX_QUERIES_PER_CLAIM distinct queries for a claim, most
+ * specific first. Always returns at least one query.
+ */
+export function planQueries(claimText: string): PlannedQuery[] {
+  const text = claimText.trim();
+  const entities = extractEntities(text);
+  const entityWords = new Set(entities.flatMap((e) => e.split(" ")));
+  const action = extractAction(text);
+
+  // Entities, the action and content words, in sentence order (quotes removed)
+  const coreTerms = words(text.replace(/"[^"]*"|“[^”]*”/g, " ")).filter((w) =>
+    entityWords.has(w) || w.toLowerCase() === action || contentWords(w).length > 0
+  );
+
+  const queries: PlannedQuery[] = [];
+  const add = (kind: QueryKind, query: string) => {
+    const q = query.trim();
+    if (q && !queries.some((existing) => existing.query.toLowerCase() === q.toLowerCase())) {
+      queries.push({ kind, query: q });
+    }
+  };
+
+  if (entities.length > 0 || action) add("entities_action", limitWords(coreTerms));
+
+  for (const phrase of extractQuotedPhrases(text).slice(0, 1)) {
+    add("quoted_phrase", limitWords([`"${phrase}"`, ...entities.slice(0, 2)]));
+  }
+
+  const figure = extractNumberSubject(text);
+  if (figure) {
+    // Quote figures with a unit ("$12 million"); a bare "13" is too loose to quote
+    const number = /[$€£%]|[a-z]/i.test(figure.number) ? `"${figure.number}"` : figure.number;
+    add("number_subject", limitWords([number, figure.subject, ...entities.slice(0, 2), ...coreTerms.slice(0, 3)]));
+  }
+
+  const window = extractDateWindow(text);
+  if (window) {
+    add("date_window", `${limitWords(coreTerms.slice(0, 6))} ${window.label}`);
+  }
+
+  if (text.split(/\s+/).length <= SHORT_CLAIM_WORDS || queries.length === 0) {
+    add("full_claim", text.split(/\s+/).slice(0, 25).join(" "));
+  }
+
+  return queries.slice(0, MAX_QUERIES_PER_CLAIM);
+}
@@ -0,0 +1,254 @@
+// ──────────────────────────────────────────────
+//  Redis-protocol job store (Redis, Valkey, Upstash, KeyDB …)
+//  Talks RESP directly over TCP/TLS — no client SDK, same
+//  reasoning as backboardHttp.ts. Expiry uses native key TTLs.
+// ──────────────────────────────────────────────
+
+import net from "net";
+import tls from "tls";
+import type { JobStore, StoredRecord } from "./jobStore";
+
+const KEY_PREFIX = "verifyshot";
+const CONNECT_TIMEOUT_MS = 5000;
+const COMMAND_TIMEOUT_MS = 5000;
+
+type RespValue = string | number | null | RespValue[];
+
+interface PendingReply {
+  resolve: (value: RespValue) => void;
+  reject: (err: Error) => void;
+}
+
+/**
+ * Parse one RESP reply starting at `offset`.
+ * Returns null when the buffer does not yet hold a complete reply.
+ */
+function parseReply(buf: Buffer, offset: number): { value: RespValue | Error; next: number } | null {
+  const lineEnd = buf.indexOf("\r\n", offset);
+  if (lineEnd === -1) return null;
+  const type = String.fromCharCode(buf[offset]);
+  const line = buf.toString("utf8", offset + 1, lineEnd);
+  const afterLine = lineEnd + 2;
+
+  switch (type) {
+    case "+":
+      return { value: line, next: afterLine };
+    case "-":
+      return { value: new Error(`Redis error: ${line}`), next: afterLine };
+    case ":":
+      return { value: parseInt(line, 10), next: afterLine };
+    case "$": {
+      const len = parseInt(line, 10);
+      if (len === -1) return { value: null, next: afterLine };
+      if (buf.length < afterLine + len + 2) return null;
+      return { value: buf.toString("utf8", afterLine, afterLine + len), next: afterLine + len + 2 };
+    }
+    case "*": {
+      const count = parseInt(line, 10);
+      if (count === -1) return { value: null, next: afterLine };
+      const items: RespValue[] = [];
+      let next = afterLine;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buf, next);
+        if (!item) return null;
+        if (item.value instanceof Error) return { value: item.value, next: item.next };
+        items.push(item.value);
+        next = item.next;
+      }
+      return { value: items, next };
+    }
+    default:
+      return { value: new Error(`Unexpected RESP type "${type}"`), next: buf.length };
+  }
+}
+
+function encodeCommand(args: string[]): string {
+  return `*${args.length}\r\n` + args.map((a) => `$${Buffer.byteLength(a)}\r\n${a}\r\n`).join("");
+}
+
+class RespConnection {
+  private socket: net.Socket | null = null;
+  private opened: net.Socket | null = null;     // the latest socket, connected or not; older ones are ignored
+  private ready: Promise<void> | null = null;   // open + AUTH/SELECT, shared by concurrent callers
+  private buffer: Buffer = Buffer.alloc(0);
+  private pending: PendingReply[] = [];
+
+  constructor(private readonly url: URL, private readonly commandTimeoutMs: number) {}
+
+  private connect(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.open().then(() => this.handshake());
+      this.ready.catch(() => { this.ready = null; });
+    }
+    return this.ready;
+  }
+
+  private open(): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const port = parseInt(this.url.port || "6379", 10);
+      const host = this.url.hostname;
+      const socket = this.url.protocol === "rediss:"
+        ? tls.connect({ host, port, servername: host })
+        : net.connect({ host, port });
+      const readyEvent = this.url.protocol === "rediss:" ? "secureConnect" : "connect";
+      this.opened = socket;
+
+      const timer = setTimeout(() => {
+        socket.destroy(new Error(`Redis connection to ${host}:${port} timed out`));
+      }, CONNECT_TIMEOUT_MS);
+
+      socket.once(readyEvent, () => {
+        clearTimeout(timer);
+        socket.unref(); // don't hold the process open between commands
+        this.socket = socket;
+        resolve();
+      });
+      socket.on("data", (chunk: Buffer) => this.onData(chunk));
+      socket.on("error", (err) => {
+        clearTimeout(timer);
+        if (this.opened === socket) this.reset(err);
+        reject(err);
+      });
+      // A dropped socket may close after its replacement connected
+      socket.on("close", () => {
+        if (this.opened === socket) this.reset(new Error("Redis connection closed"));
+      });
+    });
+  }
+
+  private async handshake(): Promise<void> {
+    const password = decodeURIComponent(this.url.password || "");
+    const username = decodeURIComponent(this.url.username || "");
+    if (password) {
+      await this.send(username ? ["AUTH", username, password] : ["AUTH", password]);
+    }
+    const db = this.url.pathname.replace("/", "");
+    if (db && db !== "0") await this.send(["SELECT", db]);
+  }
+
+  private reset(err: Error): void {
+    this.socket = null;
+    this.opened = null;
+    this.ready = null;
+    this.buffer = Buffer.alloc(0);
+    const waiting = this.pending;
+    this.pending = [];
+    waiting.forEach((p) => p.reject(err));
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+    let offset = 0;
+    while (offset < this.buffer.length) {
+      const parsed = parseReply(this.buffer, offset);
+      if (!parsed) break;
+      offset = parsed.next;
+      const waiter = this.pending.shift();
+      if (!waiter) continue;
+      if (parsed.value instanceof Error) waiter.reject(parsed.value);
+      else waiter.resolve(parsed.value);
+    }
+    this.buffer = this.buffer.subarray(offset);
+  }
+
+  // Write without connecting — used by the handshake, which runs mid-connect.
+  // Replies come back in order, so a stalled one holds up every later command:
+  // on timeout the socket is destroyed, which rejects everything pending (see reset).
+  private send(args: string[]): Promise<RespValue> {
+    return new Promise<RespValue>((resolve, reject) => {
+      const socket = this.socket;
+      if (!socket) return reject(new Error("Redis not connected"));
+      const timer = setTimeout(() => {
+        socket.destroy(new Error(`Redis ${args[0]} timed out after ${this.commandTimeoutMs} ms`));
+      }, this.commandTimeoutMs);
+      this.pending.push({
+        resolve: (value) => { clearTimeout(timer); resolve(value); },
+        reject: (err) => { clearTimeout(timer); reject(err); },
+      });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  async command(args: string[]): Promise<RespValue> {
+    await this.connect();
+    return this.send(args);
+  }
+}
+
+// One connection per Redis URL, reused across warm invocations
+const connections = new Map<string, RespConnection>();
+
+export class RedisJobStore<T> implements JobStore<T> {
+  readonly backend = "redis" as const;
+  private readonly conn: RespConnection;
+  private readonly prefix: string;
+
+  constructor(
+    redisUrl: string,
+    namespace: string,
+    private readonly defaultTtl: number,
+    commandTimeoutMs: number = COMMAND_TIMEOUT_MS   // taken by the first store on this URL
+  ) {
+    let conn = connections.get(redisUrl);
+    if (!conn) {
+      conn = new RespConnection(new URL(redisUrl), commandTimeoutMs);
+      connections.set(redisUrl, conn);
+    }
+    this.conn = conn;
+    this.prefix = `${KEY_PREFIX}:${namespace}:`;
+  }
+
+  private parse(raw: RespValue): StoredRecord<T> | null {
+    if (typeof raw !== "string") return null;
+    try {
+      return JSON.parse(raw) as StoredRecord<T>;
+    } catch {
+      return null;
+    }
+  }
+
+  async get(key: string): Promise<T | null> {
+    const record = this.parse(await this.conn.command(["GET", this.prefix + key]));
+    return record ? record.value : null;
+  }
+
+  async set(key: string, value: T, ttlSeconds = this.defaultTtl): Promise<void> {
+    const record: StoredRecord<T> = {
+      key,
+      value,
+      expiresAt: ttlSeconds > 0 ? Date.now() + ttlSeconds * 1000 : null,
+    };
+    const args = ["SET", this.prefix + key, JSON.stringify(record)];
+    if (ttlSeconds > 0) args.push("EX", String(Math.ceil(ttlSeconds)));
+    await this.conn.command(args);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.conn.command(["DEL", this.prefix + key]);
+  }
+
+  async list(): Promise<StoredRecord<T>[]> {
+    // SCAN rather than KEYS so large stores don't block the server
+    const keys: string[] = [];
+    let cursor = "0";
+    do {
+      const reply = await this.conn.command(["SCAN", cursor, "MATCH", `${this.prefix}*`, "COUNT", "200"]);
+      if (!Array.isArray(reply) || reply.length < 2) break;
+      cursor = String(reply[0]);
+      for (const k of (reply[1] as RespValue[]) || []) {
+        if (typeof k === "string") keys.push(k);
+      }
+    } while (cursor !== "0");
+
+    const records: StoredRecord<T>[] = [];
+    for (let i = 0; i < keys.length; i += 100) {
+      const values = await this.conn.command(["MGET", ...keys.slice(i, i + 100)]);
+      if (!Array.isArray(values)) continue;
+      for (const raw of values) {
+        const record = this.parse(raw);
+        if (record) records.push(record);
+      }
+    }
+    return records;
+  }
+}
@@ -0,0 +1,132 @@
+// ──────────────────────────────────────────────
+//  Result cache — content-addressed AnalysisResults
+//  The same viral screenshot is analyzed over and over; each run
+//  costs ~12 LLM calls. Results are stored under two keys:
+//    image:<sha256 of the image bytes>      (byte-identical re-uploads;
+//                                            several images: of their hashes)
+//    text:<sha256 of the normalized OCR>    (re-encoded / re-cropped copies)
+//  Results scored with a non-default trust-score profile or bias
+//  perspectives get a scope appended (image:<hash>@science|eu,uk):
+//  same image, other score.
+//  Lives in the "result-cache" namespace of the job store backend.
+//  RESULT_CACHE_MAX_AGE_SECONDS sets the freshness window (default 6h,
+//  0 disables the cache); callers may pass a shorter window per request.
+// ──────────────────────────────────────────────
+
+import { createHash } from "crypto";
+import { AnalysisResult } from "./types";
+import { createStore, JobStore } from "./jobStore";
+
+export const DEFAULT_CACHE_MAX_AGE_SECONDS = 6 * 60 * 60;
+
+export type CacheKeyKind = "image" | "text";
+
+export interface CacheKey {
+  kind: CacheKeyKind;
+  hash: string;
+  scope?: string;
+}
+
+function storeKey({ kind, hash, scope }: CacheKey): string {
+  return scope ? `${kind}:${hash}@${scope}` : `${kind}:${hash}`;
+}
+
+export interface CachedResult {
+  result: AnalysisResult;
+  cachedAt: string;
+}
+
+export function cacheMaxAgeSeconds(): number {
+  const raw = process.env.RESULT_CACHE_MAX_AGE_SECONDS;
+  if (raw === undefined || raw === "") return DEFAULT_CACHE_MAX_AGE_SECONDS;
+  const age = parseInt(raw, 10);
+  return Number.isFinite(age) && age >= 0 ? age : DEFAULT_CACHE_MAX_AGE_SECONDS;
+}
+
+export function hashImageBytes(bytes: Buffer): string {
+  return createHash("sha256").update(bytes).digest("hex");
+}
+
+/** Key for a multi-image run: the image hashes, in reading order. */
+export function hashImageSet(imageHashes: string[]): string {
+  return createHash("sha256").update(imageHashes.join(",")).digest("hex");
+}
+
+/**
+ * OCR of the same post varies in case, spacing and stray punctuation
+ * between captures — fold those away before hashing.
+ */
+export function normalizeOcrText(text: string): string {
+  return text
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[^\p{L}\p{N}$%@#'".,]+/gu, " ")
+    .trim();
+}
+
+export function hashOcrText(text: string): string {
+  return createHash("sha256").update(normalizeOcrText(text)).digest("hex");
+}
+
+let cacheStore: JobStore<CachedResult> | null = null;
+
+function getCacheStore(): JobStore<CachedResult> {
+  if (!cacheStore) cacheStore = createStore<CachedResult>("result-cache");
+  return cacheStore;
+}
+
+/** Swap the backend (tests). */
+export function setResultCacheStore(store: JobStore<CachedResult> | null): void {
+  cacheStore = store;
+}
+
+/**
+ * Fetch a fresh cached result. `maxAgeSeconds` can only narrow the
+ * configured window — records older than it are already gone.
+ * Cache failures are logged and treated as a miss.
+ */
+export async function getCachedResult(
+  kind: CacheKeyKind,
+  hash: string,
+  maxAgeSeconds?: number,
+  scope?: string
+): Promise<CachedResult | null> {
+  const configured = cacheMaxAgeSeconds();
+  if (configured === 0) return null;
+  const window = maxAgeSeconds !== undefined ? Math.min(maxAgeSeconds, configured) : configured;
+
+  try {
+    const entry = await getCacheStore().get(storeKey({ kind, hash, scope }));
+    if (!entry) return null;
+    const age = (Date.now() - new Date(entry.cachedAt).getTime()) / 1000;
+    return age <= window ? entry : null;
+  } catch (err: any) {
+    console.warn(`[ResultCache] Lookup failed (treating as miss):`, err.message);
+    return null;
+  }
+}
+
+/**
+ * Store a result under every given key. Never throws. Pass the original
+ * `cachedAt` when re-keying a hit so the freshness window is not extended.
+ */
+export async function putCachedResult(
+  keys: CacheKey[],
+  result: AnalysisResult,
+  cachedAt: string = new Date().toISOString()
+): Promise<void> {
+  const ttl = cacheMaxAgeSeconds();
+  if (ttl === 0) return;
+
+  // Strip markers from a result that was itself served from cache, and the
+  // earlier sightings of this run's image (each run looks those up itself)
+  const { cached: _cached, cachedAt: _cachedAt, previouslySeen: _seen, ...fresh } = result;
+  const entry: CachedResult = { result: fresh, cachedAt };
+  try {
+    await Promise.all(keys.map((key) => getCacheStore().set(storeKey(key), entry, ttl)));
+  } catch (err: any) {
+    console.warn(`[ResultCache] Store failed (non-critical):`, err.message);
+  }
+}
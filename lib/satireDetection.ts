@@ -0,0 +1,117 @@
+// ──────────────────────────────────────────────
+//  Satire / known-fabricator detection (0 LLM calls)
+//  Two levels, both driven by the domain registry:
+//    1. the screenshot itself — the post's author @handle and its link
+//       preview's domain (a post by @TheBabylonBee, a theonion.com card);
+//       an outlet that is only mentioned or quoted in the text doesn't count
+//    2. a claim's search results — when satire outlets make up at
+//       least half of the sources, the claim most likely started there
+//  A satire origin gives the claim the "satire" outcome instead of a
+//  fact-check; a fabricator origin is verified as usual but flagged.
+// ──────────────────────────────────────────────
+
+import { ClaimOrigin, ScreenshotMetadata, Source } from "./types";
+import { lookupDomain, lookupHandle } from "./domainRegistry";
+
+type OriginKind = ClaimOrigin["kind"];
+
+const ORIGIN_KINDS: OriginKind[] = ["satire", "fabricator"];
+const SOURCE_SHARE_THRESHOLD = 0.5;
+
+// Hostnames as they appear in link previews and bylines: "theonion.com",
+// "www.babylonbee.com/news/…", "ABCNEWS.COM.CO". Labels must contain a letter
+// so numbers like "3.5" never match.
+const DOMAIN_PATTERN = /\b((?:[a-z0-9-]*[a-z][a-z0-9-]*\.)+[a-z]{2,})\b/gi;
+const HANDLE_PATTERN = /(?:^|[^\w@])@([a-z0-9_]{2,30})\b/gi;
+
+function isOriginKind(category: string): category is OriginKind {
+  return (ORIGIN_KINDS as string[]).includes(category);
+}
+
+/** Satire wins over fabricator when a screenshot shows both. */
+function pickKind(found: Map<OriginKind, string[]>): OriginKind | null {
+  return ORIGIN_KINDS.find((kind) => (found.get(kind) || []).length > 0) ?? null;
+}
+
+/**
+ * Domains and @handles of satire outlets or known fabricators visible in
+ * the screenshot text. Returns null when none are present.
+ */
+export function detectOriginInText(ocrText: string): ClaimOrigin | null {
+  const found = new Map<OriginKind, string[]>();
+  const names = new Map<OriginKind, string>();
+  const add = (kind: OriginKind, match: string, name?: string) => {
+    const list = found.get(kind) || [];
+    if (!list.includes(match)) list.push(match);
+    found.set(kind, list);
+    if (name && !names.has(kind)) names.set(kind, name);
+  };
+
+  for (const m of ocrText.matchAll(DOMAIN_PATTERN)) {
+    const info = lookupDomain(m[1]);
+    // Only listed domains — suffix rules and the default never mark an origin
+    if ((info.origin === "registry" || info.origin === "override") && isOriginKind(info.category)) {
+      add(info.category, info.domain);
+    }
+  }
+
+  for (const m of ocrText.matchAll(HANDLE_PATTERN)) {
+    const entry = lookupHandle(m[1]);
+    if (entry) add(entry.category, `@${m[1]}`, entry.name);
+  }
+
+  const kind = pickKind(found);
+  if (!kind) return null;
+  return {
+    kind,
+    detectedIn: "screenshot",
+    matches: found.get(kind)!,
+    ...(names.has(kind) ? { name: names.get(kind) } : {}),
+  };
+}
+
+/**
+ * Where the post in the screenshot comes from, read from its metadata
+ * (./screenshotMetadata): the author's handle and the link preview's
+ * domain, or with `quoted` the quoted post's author. A fact-check or news
+ * post that mentions "babylonbee.com" in its text is not satire itself.
+ */
+export function detectPostOrigin(metadata: ScreenshotMetadata, quoted = false): ClaimOrigin | null {
+  const identity = quoted
+    ? [metadata.quotedPost?.author?.handle]
+    : [metadata.author?.handle, metadata.linkPreview?.domain];
+  const text = identity.filter(Boolean).join("\n");
+  return text ? detectOriginInText(text) : null;
+}
+
+/**
+ * A claim's origin judged from its search results: satire (or fabricator)
+ * outlets making up at least half of the sources. Returns null otherwise.
+ */
+export function detectOriginInSources(sources: Source[]): ClaimOrigin | null {
+  if (sources.length === 0) return null;
+  for (const kind of ORIGIN_KINDS) {
+    const matching = sources.filter((s) => s.category === kind);
+    if (matching.length > 0 && matching.length / sources.length >= SOURCE_SHARE_THRESHOLD) {
+      return {
+        kind,
+        detectedIn: "sources",
+        matches: [...new Set(matching.map((s) => s.domain))],
+      };
+    }
+  }
+  return null;
+}
+
+/** User-facing explanation for a claim with a satire or fabricator origin. */
+export function describeOrigin(origin: ClaimOrigin): string {
+  const outlet = origin.name ? `${origin.name} (${origin.matches.join(", ")})` : origin.matches.join(", ");
+  if (origin.kind === "satire") {
+    return origin.detectedIn === "screenshot"
+      ? `This comes from ${outlet}, a satire outlet. Satire is written to be funny, not to report facts, so it was not fact-checked as a news claim.`
+      : `Most sources for this claim are satire outlets (${outlet}), so it most likely started as satire rather than news. It was not fact-checked as a news claim.`;
+  }
+  return origin.detectedIn === "screenshot"
+    ? `Origin warning: this comes from ${outlet}, a site known for publishing fabricated stories.`
+    : `Origin warning: most sources for this claim are sites known for fabricated stories (${outlet}).`;
+}
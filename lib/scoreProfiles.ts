@@ -0,0 +1,163 @@
+// ──────────────────────────────────────────────
+//  Trust-score profiles — how a claim's score is weighted
+//  Defined in config/scoreProfiles.json: per profile, the weight of
+//  each formula component, the label thresholds (trustLabel) and what
+//  to do with a claim that has no sources. SCORE_PROFILES may hold a
+//  JSON override with the same shape. The formula itself lives in
+//  ./trustScore; /api/analyze picks a profile per request.
+// ──────────────────────────────────────────────
+
+import profileConfig from "../config/scoreProfiles.json";
+
+export interface ScoreWeights {
+  sourceQuality: number;
+  modelConsensus: number;
+  recency: number;
+  agreement: number;
+  modelAgreementBoost: number;
+  biasPenalty: number;           // subtracted
+}
+
+export interface LabelThresholds {
+  likelyTrue: number;            // score ≥ this → "Likely True"
+  mixed: number;                 // score ≥ this → "Unverified / Mixed", below → "Likely Misleading"
+}
+
+// reweight:      score with `weights`, standing in `baseline` for the source-based components
+// cap:           as reweight, then cap the score at `maxScore`
+// unverifiable:  do not score the claim — it is unable_to_verify
+export type MissingSourcesPolicy = "reweight" | "cap" | "unverifiable";
+
+export interface MissingSourcesRule {
+  policy: MissingSourcesPolicy;
+  weights: ScoreWeights;
+  baseline: { sourceQuality: number; agreement: number };
+  maxScore: number;
+}
+
+export interface ScoreProfile {
+  id: string;
+  label: string;
+  description: string;
+  weights: ScoreWeights;
+  labels: LabelThresholds;
+  missingSources: MissingSourcesRule;
+}
+
+export interface ScoreProfileSet {
+  version: number;
+  defaultProfile: string;
+  profiles: Record<string, ScoreProfile>;
+}
+
+const WEIGHT_KEYS: Array<keyof ScoreWeights> = [
+  "sourceQuality", "modelConsensus", "recency", "agreement", "modelAgreementBoost", "biasPenalty",
+];
+const POLICIES: MissingSourcesPolicy[] = ["reweight", "cap", "unverifiable"];
+
+function validateWeights(raw: any, where: string): ScoreWeights {
+  const weights = {} as ScoreWeights;
+  for (const key of WEIGHT_KEYS) {
+    const value = raw?.[key];
+    if (typeof value !== "number" || !(value >= 0 && value <= 1)) {
+      throw new Error(`${where} weight "${key}" must be a number between 0 and 1`);
+    }
+    weights[key] = value;
+  }
+  return weights;
+}
+
+function validateProfile(id: string, raw: any, origin: string): ScoreProfile {
+  const where = `Score profile "${id}" (${origin})`;
+  if (!/^[a-z0-9-]+$/.test(id)) throw new Error(`${where}: ids are lowercase letters, digits and dashes`);
+  const weights = validateWeights(raw?.weights, where);
+
+  const likelyTrue = raw?.labels?.likelyTrue;
+  const mixed = raw?.labels?.mixed;
+  if (typeof likelyTrue !== "number" || typeof mixed !== "number" || !(mixed > 0 && mixed < likelyTrue && likelyTrue <= 100)) {
+    throw new Error(`${where} needs labels with 0 < mixed < likelyTrue ≤ 100`);
+  }
+
+  const missing = raw?.missingSources ?? {};
+  const policy: MissingSourcesPolicy = missing.policy ?? "reweight";
+  if (!POLICIES.includes(policy)) {
+    throw new Error(`${where} has unknown missingSources policy "${missing.policy}"`);
+  }
+  const maxScore = policy === "cap" ? missing.maxScore : 100;
+  if (typeof maxScore !== "number" || !(maxScore >= 0 && maxScore <= 100)) {
+    throw new Error(`${where} needs missingSources.maxScore between 0 and 100 for the "cap" policy`);
+  }
+  const baseline = {
+    sourceQuality: Math.max(0, Math.min(1, missing.baseline?.sourceQuality ?? 0.3)),
+    agreement: Math.max(0, Math.min(1, missing.baseline?.agreement ?? 0.3)),
+  };
+
+  return {
+    id,
+    label: String(raw.label || id),
+    description: String(raw.description || ""),
+    weights,
+    labels: { likelyTrue, mixed },
+    missingSources: {
+      policy,
+      // Without its own weights a profile scores unsourced claims like sourced ones
+      weights: missing.weights ? validateWeights(missing.weights, `${where} missingSources`) : weights,
+      baseline,
+      maxScore,
+    },
+  };
+}
+
+function validateProfiles(raw: any, origin: string): ScoreProfileSet {
+  if (!raw || typeof raw.profiles !== "object" || raw.profiles === null) {
+    throw new Error(`Score profiles (${origin}) need a "profiles" object`);
+  }
+  const profiles: Record<string, ScoreProfile> = {};
+  for (const [id, entry] of Object.entries(raw.profiles)) {
+    profiles[id] = validateProfile(id, entry, origin);
+  }
+  const defaultProfile = String(raw.default ?? "general");
+  if (!profiles[defaultProfile]) {
+    throw new Error(`Score profiles (${origin}) default "${defaultProfile}" is not defined`);
+  }
+  return {
+    version: typeof raw.version === "number" ? raw.version : 1,
+    defaultProfile,
+    profiles,
+  };
+}
+
+let profileSet: ScoreProfileSet | null = null;
+
+export function getScoreProfiles(): ScoreProfileSet {
+  if (profileSet) return profileSet;
+  const override = process.env.SCORE_PROFILES;
+  if (override) {
+    try {
+      profileSet = validateProfiles(JSON.parse(override), "SCORE_PROFILES");
+    } catch (err: any) {
+      console.error(`[ScoreProfiles] Ignoring SCORE_PROFILES: ${err.message}`);
+    }
+  }
+  if (!profileSet) profileSet = validateProfiles(profileConfig, "config/scoreProfiles.json");
+  return profileSet;
+}
+
+/** Swap the profiles (tests, or callers that build them from explicit config). */
+export function setScoreProfiles(next: unknown | null): void {
+  profileSet = next ? validateProfiles(next, "setScoreProfiles") : null;
+}
+
+export function hasScoreProfile(id: string): boolean {
+  return Object.prototype.hasOwnProperty.call(getScoreProfiles().profiles, id);
+}
+
+/** The named profile, or the default one. Throws on an unknown id — validate user input with hasScoreProfile(). */
+export function getScoreProfile(id?: string): ScoreProfile {
+  const set = getScoreProfiles();
+  const profileId = id || set.defaultProfile;
+  if (!hasScoreProfile(profileId)) {
+    throw new Error(`Unknown score profile "${profileId}" (available: ${Object.keys(set.profiles).join(", ")})`);
+  }
+  return set.profiles[profileId];
+}
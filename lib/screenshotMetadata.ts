@@ -0,0 +1,261 @@
+// ──────────────────────────────────────────────
+//  Screenshot metadata — the post behind the OCR text
+//  OCR returns one flat string; this reads it back into a post:
+//  platform, author and handle, timestamp, the post's own text, a
+//  quoted post, a link preview card and engagement counts. Heuristic
+//  and local (0 API calls): anything it cannot find is left unset, and
+//  `body` falls back to the OCR text minus recognizable UI chrome.
+// ──────────────────────────────────────────────
+
+import { EngagementCounts, PostAuthor, ScreenshotMetadata, SocialPlatform } from "./types";
+import { dateFromText } from "./sourceDates";
+import { MONTH_PATTERN } from "./queryPlanner";
+
+// Markers of each platform's UI in the OCR text; the platform with the most wins
+const PLATFORM_MARKERS: Record<Exclude<SocialPlatform, "unknown">, RegExp[]> = {
+  twitter: [
+    /\b(?:twitter|x)\.com\b/i, /\b(?:re)?posts?\b.*\blikes?\b/i, /\bretweets?\b/i, /\bquote (?:tweets?|posts?)\b/i,
+    /\bshow this thread\b/i, /\btranslate (?:post|tweet)\b/i, /(?:^|\s)@[A-Za-z0-9_]{1,15}\s*[·•]/m, /\bviews\b/i,
+  ],
+  reddit: [
+    /\breddit\b/i, /(?:^|\s)r\/[A-Za-z0-9_]{2,}/m, /(?:^|\s)u\/[A-Za-z0-9_-]{2,}/m, /\bupvotes?\b/i, /\bposted by\b/i,
+    /\baward(?:s|ed)?\b/i,
+  ],
+  instagram: [
+    /\binstagram\b/i, /\bliked by\b/i, /\bview all \d[\d,]* comments\b/i, /\badd a comment\b/i, /\boriginal audio\b/i,
+  ],
+  tiktok: [
+    /\btiktok\b/i, /\boriginal sound\b/i, /\bfor you\b.*\bfollowing\b/i, /♫|♪/, /#fyp\b/i,
+  ],
+  facebook: [
+    /\bfacebook\b/i, /^like\s+comment\s+share$/im, /\b\d[\d,.]*[KM]?\s+shares\b/i, /\bsee more\b/i,
+  ],
+  news: [
+    /^by\s+[A-Z][\w.'-]+(?:\s+[A-Z][\w.'-]+)+/m, /\b(?:updated|published)\b.{0,20}\d/i, /\b\d+\s+min(?:ute)? read\b/i,
+    /\b(?:reuters|associated press|ap news|bbc|cnn|nytimes|the guardian|washington post)\b/i,
+  ],
+};
+
+// Lines that are UI, not content
+const CHROME_PATTERNS = [
+  /^(?:show (?:this thread|more)|translate (?:post|tweet)|see (?:more|translation)|read more)$/i,
+  /^(?:follow|following|subscribe|join|reply|repost|quote|share|comment|like|send|save)$/i,
+  /^like\s+comment\s+share$/i,
+  /^(?:trending(?:\s+in\s+.+)?|what[’']s happening|who to follow|for you|promoted|sponsored|advertisement|ad)$/i,
+  /^(?:liked by .+|view all \d[\d,]* comments|add a comment.*|original (?:sound|audio).*)$/i,
+  /^replying to @/i,
+  /^\d+\s+min(?:ute)?s?\s+read$/i,
+  /^[·•\s]*(?:\d{1,2}:\d{2}\s*(?:am|pm)?\s*[·•]?\s*)?(?:\d+[smhdw]|\d+\s*(?:min|hr|hour|day|week)s?\s*ago)?\s*$/i,
+];
+
+const ENGAGEMENT_KEYS: Array<[RegExp, keyof EngagementCounts]> = [
+  [/^(?:replies|reply)$/i, "replies"],
+  [/^(?:reposts?|retweets?)$/i, "reposts"],
+  [/^(?:quotes?|quote (?:tweets?|posts?))$/i, "quotes"],
+  [/^likes?$/i, "likes"],
+  [/^views?$/i, "views"],
+  [/^bookmarks?$/i, "bookmarks"],
+  [/^comments?$/i, "comments"],
+  [/^shares?$/i, "shares"],
+  [/^(?:upvotes?|points?)$/i, "upvotes"],
+];
+
+const COUNT = String.raw`(\d[\d,]*(?:\.\d+)?\s?[KMB]?)`;
+const ENGAGEMENT_PATTERN = new RegExp(
+  `${COUNT}\\s+(replies|reply|reposts?|retweets?|quote (?:tweets?|posts?)|quotes?|likes?|views?|bookmarks?|comments?|shares?|upvotes?|points?)\\b`,
+  "gi"
+);
+// Action buttons that share a line with the counts ("4.5k upvotes 1.2k comments Share Award")
+const ACTION_WORDS = /\b(?:share|award|reply|save|comment|like|send|repost|quote)\b/gi;
+// "Liked by friend and 1,234 others"
+const LIKED_BY = new RegExp(`liked by .+? and ${COUNT} others`, "i");
+
+// "Daily Planet News ✓ @dailyplanet · Mar 3, 2023"
+const NAME_HANDLE_LINE = /^(.+?)\s*([✓✔☑])?\s+(@[A-Za-z0-9_.]{1,30})(?:\s*[·•]\s*(.+))?$/;
+// "@dailyplanet · 2h" (the name, if any, on the line before)
+const HANDLE_LINE = /^(@[A-Za-z0-9_.]{1,30})(?:\s*[·•]\s*(.+))?$/;
+// "Posted by u/someone • 5h", "r/news • u/someone • 5h"
+const REDDIT_AUTHOR = /(?:^|\s)(u\/[A-Za-z0-9_-]{2,})(?:\s*[·•]\s*(.+))?/;
+// "By Jane Doe" (news bylines)
+const BYLINE = /^[Bb]y\s+([A-Z][\w.'-]+(?:\s+(?:[A-Z][\w.'-]+|and|&))+)/;
+// Instagram captions start with the account name: "natgeo The Amazon lost…"
+const INSTAGRAM_CAPTION = /^([a-z0-9._]{3,30})\s+(\S.*)$/;
+// A bare domain on its own line: a link preview card
+const DOMAIN_LINE = /^(?:from\s+)?((?:[a-z0-9-]+\.)+[a-z]{2,})(?:\/\S*)?$/i;
+// A full or partial date, or a relative age ("2h")
+const TIMESTAMP = new RegExp(`(?:${MONTH_PATTERN}\\s+\\d{1,2}(?:,?\\s+(?:19|20)\\d{2})?|\\d{1,2}\\s+${MONTH_PATTERN}(?:\\s+(?:19|20)\\d{2})?|\\b\\d+[smhdw]\\b|\\d+\\s*(?:min|hr|hour|day|week)s?\\s*ago)`, "i");
+
+function parseCount(raw: string): number {
+  const m = raw.replace(/,/g, "").trim().match(/^(\d+(?:\.\d+)?)\s?([KMB])?$/i);
+  if (!m) return 0;
+  const multiplier = { K: 1e3, M: 1e6, B: 1e9 }[(m[2] || "").toUpperCase() as "K" | "M" | "B"] ?? 1;
+  return Math.round(parseFloat(m[1]) * multiplier);
+}
+
+/** The platform whose UI markers the OCR text shows most, or "unknown". */
+export function detectPlatform(ocrText: string): SocialPlatform {
+  let best: SocialPlatform = "unknown";
+  let bestHits = 0;
+  for (const [platform, markers] of Object.entries(PLATFORM_MARKERS) as Array<[SocialPlatform, RegExp[]]>) {
+    const hits = markers.filter((m) => m.test(ocrText)).length;
+    if (hits > bestHits) {
+      best = platform;
+      bestHits = hits;
+    }
+  }
+  return best;
+}
+
+export function parseEngagement(text: string): EngagementCounts | undefined {
+  const counts: EngagementCounts = {};
+  const likedBy = text.match(LIKED_BY);
+  if (likedBy) counts.likes = parseCount(likedBy[1]) + 1;
+  for (const m of text.matchAll(ENGAGEMENT_PATTERN)) {
+    const key = ENGAGEMENT_KEYS.find(([pattern]) => pattern.test(m[2]))?.[1];
+    if (key && counts[key] === undefined) counts[key] = parseCount(m[1]);
+  }
+  return Object.keys(counts).length > 0 ? counts : undefined;
+}
+
+export function isChromeLine(line: string): boolean {
+  if (CHROME_PATTERNS.some((p) => p.test(line))) return true;
+  // Counts, and the buttons next to them, and nothing else
+  const rest = line.replace(ENGAGEMENT_PATTERN, "");
+  return rest !== line && !rest.replace(ACTION_WORDS, "").replace(/[·•|\s]/g, "");
+}
+
+interface PostHeader {
+  first: number;               // index of the header's first line (the name, when it sits above the handle)
+  line: number;                // index of the header's last line
+  author: PostAuthor;
+  postedAtText?: string;
+}
+
+// An author header at line i: "Name @handle · time", "@handle · time" (name above), "u/name • time"
+function headerAt(lines: string[], i: number): PostHeader | null {
+  const line = lines[i];
+  const timeOf = (rest?: string) => rest?.match(TIMESTAMP)?.[0];
+
+  let m = line.match(NAME_HANDLE_LINE);
+  if (m && !/\s{2,}/.test(m[1]) && m[1].split(/\s+/).length <= 6) {
+    return {
+      first: i,
+      line: i,
+      author: { displayName: m[1].trim(), handle: m[3], ...(m[2] ? { verified: true } : {}) },
+      postedAtText: timeOf(m[4]),
+    };
+  }
+  m = line.match(HANDLE_LINE);
+  if (m) {
+    const above = i > 0 ? lines[i - 1] : "";
+    const hasName = above && above.split(/\s+/).length <= 6 && !isChromeLine(above) && !/[.!?]$/.test(above);
+    const displayName = hasName ? above.replace(/\s*[✓✔☑]$/, "").trim() : undefined;
+    return {
+      first: hasName ? i - 1 : i,
+      line: i,
+      author: { ...(displayName ? { displayName } : {}), handle: m[1], ...(hasName && /[✓✔☑]$/.test(above) ? { verified: true } : {}) },
+      postedAtText: timeOf(m[2]),
+    };
+  }
+  m = line.match(REDDIT_AUTHOR);
+  if (m) return { first: i, line: i, author: { handle: m[1] }, postedAtText: timeOf(m[2]) };
+  m = line.match(BYLINE);
+  if (m) return { first: i, line: i, author: { displayName: m[1].trim() }, postedAtText: timeOf(line.slice(m[0].length)) };
+  return null;
+}
+
+/** Read the post (author, time, text, quoted post, link card, counts) back out of the OCR text. */
+export function parseScreenshotMetadata(ocrText: string): ScreenshotMetadata {
+  const lines = ocrText.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
+  const platform = detectPlatform(ocrText);
+  let captionAuthor: PostAuthor | undefined;
+  if (platform === "instagram") {
+    const i = lines.findIndex((l) => !isChromeLine(l));
+    const m = i >= 0 ? lines[i].match(INSTAGRAM_CAPTION) : null;
+    if (m) {
+      captionAuthor = { handle: `@${m[1]}` };
+      lines[i] = m[2];
+    }
+  }
+
+  // The first header is the post's author; a later, dated one is the post it quotes
+  let header: PostHeader | null = null;
+  let quoted: PostHeader | null = null;
+  for (let i = 0; i < lines.length; i++) {
+    const found = headerAt(lines, i);
+    if (!found) continue;
+    if (!header) header = found;
+    else if (found.first > header.line + 1 && found.postedAtText) {
+      quoted = found;
+      break;
+    }
+  }
+
+  const engagement = parseEngagement(ocrText);
+  let linkPreview: ScreenshotMetadata["linkPreview"];
+  const body: string[] = [];
+  const quotedBody: string[] = [];
+  // Above the byline of an article sits its headline; above a post's header, only app chrome
+  const start = header && platform !== "news" ? header.line + 1 : 0;
+  for (let i = start; i < lines.length; i++) {
+    const line = lines[i];
+    if (header && i >= header.first && i <= header.line) continue;
+    if (quoted && i >= quoted.first && i <= quoted.line) continue;
+    const domain = line.match(DOMAIN_LINE);
+    if (domain && !linkPreview) {
+      // The card's title follows the domain, unless it is chrome or counts
+      const next = lines[i + 1];
+      linkPreview = { domain: domain[1].toLowerCase(), ...(next && !isChromeLine(next) && !headerAt(lines, i + 1) ? { title: next } : {}) };
+      if (linkPreview.title) i++;
+      continue;
+    }
+    if (isChromeLine(line)) continue;
+    // A bare timestamp line (detailed post view, article dateline) dates the post
+    if (header && !header.postedAtText && line.length < 60 && dateFromText(line)) {
+      header.postedAtText = line.replace(/^(?:updated|published)[:\s]*/i, "").replace(/\s*[·•]\s*\d[\d,.]*[KMB]?\s+views?\b.*$/i, "").trim();
+      continue;
+    }
+    (quoted && i > quoted.line ? quotedBody : body).push(line);
+  }
+
+  const postedAtText = header?.postedAtText;
+  const postedAt = postedAtText ? dateFromText(postedAtText)?.date : undefined;
+  return {
+    platform,
+    ...(header ? { author: header.author } : captionAuthor ? { author: captionAuthor } : {}),
+    ...(postedAt ? { postedAt } : {}),
+    ...(postedAtText ? { postedAtText } : {}),
+    body: body.join("\n"),
+    ...(quoted && quotedBody.length > 0
+      ? { quotedPost: { author: quoted.author, ...(quoted.postedAtText ? { postedAtText: quoted.postedAtText } : {}), body: quotedBody.join("\n") } }
+      : {}),
+    ...(linkPreview ? { linkPreview } : {}),
+    ...(engagement ? { engagement } : {}),
+  };
+}
+
+/** One line of post context for prompts: "Daily Planet News (@dailyplanet), 2023-03-03". */
+export function describePost(metadata: ScreenshotMetadata): string | null {
+  const { author } = metadata;
+  const who = author?.displayName && author.handle ? `${author.displayName} (${author.handle})` : author?.displayName || author?.handle;
+  const when = metadata.postedAt || metadata.postedAtText;
+  if (!who && !when) return null;
+  const where = metadata.platform !== "unknown" ? ` on ${metadata.platform}` : "";
+  return `Posted${who ? ` by ${who}` : ""}${where}${when ? `, ${when}` : ""}`;
+}
+
+/**
+ * The post rebuilt as plain text for prompts: its own text, then the
+ * quoted post and link card as labeled sections. null when no body was read.
+ */
+export function formatPost(metadata: ScreenshotMetadata): string | null {
+  if (!metadata.body.trim()) return null;
+  const parts = [metadata.body];
+  const { quotedPost, linkPreview } = metadata;
+  if (quotedPost) {
+    const by = quotedPost.author?.displayName || quotedPost.author?.handle;
+    parts.push(`[Quoted post${by ? ` by ${by}` : ""}]\n${quotedPost.body}`);
+  }
+  if (linkPreview) parts.push(`[Link preview: ${linkPreview.domain}${linkPreview.title ? ` — ${linkPreview.title}` : ""}]`);
+  return parts.join("\n\n");
+}
@@ -0,0 +1,116 @@
+// ──────────────────────────────────────────────
+//  Scripted LLM provider — deterministic, no network
+//  Answers from an ordered list of rules (first match wins).
+//  The default script gives plausible offline answers for every
+//  pipeline assistant; tests pass their own rules.
+// ──────────────────────────────────────────────
+
+import { LLMProvider, LLMRequest, parseLLMJSON } from "./llm";
+
+export interface ScriptRule {
+  assistant?: string | RegExp;   // exact name or pattern on request.assistant
+  message?: string | RegExp;     // substring or pattern on request.message
+  model?: string;                // request.model.name
+  reply: string | ((request: LLMRequest) => string);
+  times?: number;                // how often the rule may fire (default: unlimited)
+}
+
+function matches(pattern: string | RegExp | undefined, value: string, exact: boolean): boolean {
+  if (pattern === undefined) return true;
+  if (pattern instanceof RegExp) return pattern.test(value);
+  return exact ? value === pattern : value.includes(pattern);
+}
+
+export class ScriptedProvider implements LLMProvider {
+  readonly name = "scripted";
+  /** Every request received, in order — handy for assertions. */
+  readonly calls: LLMRequest[] = [];
+  readonly memories: Array<{ assistant: string; content: string }> = [];
+  private readonly rules: Array<ScriptRule & { used: number }>;
+
+  constructor(rules: ScriptRule[] = defaultScript()) {
+    this.rules = rules.map((r) => ({ ...r, used: 0 }));
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    this.calls.push(request);
+    const rule = this.rules.find((r) =>
+      (r.times === undefined || r.used < r.times) &&
+      matches(r.assistant, request.assistant, true) &&
+      matches(r.message, request.message, false) &&
+      (r.model === undefined || r.model === request.model?.name)
+    );
+    if (!rule) {
+      throw new Error(`ScriptedProvider: no rule matches assistant "${request.assistant}"`);
+    }
+    rule.used++;
+    return typeof rule.reply === "function" ? rule.reply(request) : rule.reply;
+  }
+
+  async completeJSON<T = any>(request: LLMRequest, shape: "object" | "array"): Promise<T> {
+    return parseLLMJSON<T>(await this.complete(request), shape);
+  }
+
+  async remember(assistant: string, _systemPrompt: string, content: string): Promise<void> {
+    this.memories.push({ assistant, content });
+  }
+}
+
+// ──────────────────────────────────────────────
+//  Default script (LLM_PROVIDER=scripted)
+//  Conservative answers: claims are taken verbatim from the
+//  text, search finds nothing, verifiers stay undecided.
+// ──────────────────────────────────────────────
+
+function bodyAfterHeader(message: string): string {
+  const withoutContext = message.replace(/^Post context: [^\n]*\n\n/, "");
+  const idx = withoutContext.indexOf("\n\n");
+  return idx === -1 ? withoutContext : withoutContext.slice(idx + 2);
+}
+
+function sentencesOf(text: string): string[] {
+  return text.split(/[.!?\n]/).map((s) => s.trim()).filter((s) => s.length > 15);
+}
+
+export function defaultScript(): ScriptRule[] {
+  return [
+    {
+      assistant: /ClaimExtractor/,
+      reply: (req) => JSON.stringify(sentencesOf(bodyAfterHeader(req.message)).slice(0, 3).map((text) => ({ text }))),
+    },
+    {
+      assistant: /Summarizer/,
+      reply: (req) => sentencesOf(bodyAfterHeader(req.message)).slice(0, 2).join(". ") + ".",
+    },
+    {
+      assistant: /Verifier/,
+      reply: JSON.stringify({
+        verdict: "mixed",
+        confidence: 0.45,
+        reasoning: "Offline scripted verifier: no live evidence was consulted.",
+      }),
+    },
+    {
+      assistant: /Bias/,
+      reply: JSON.stringify({
+        politicalBias: 0,
+        sensationalism: 0.2,
+        reasoning: "Offline scripted assessment: neutral, factual tone assumed.",
+      }),
+    },
+    // Search yields no sources, so the pipeline reports "unable to verify"
+    { assistant: /WebSearch/, reply: "" },
+    {
+      assistant: /Chat|DeepResearch/,
+      reply: "Offline mode: live chat is unavailable, so this answer was not generated by a model.",
+    },
+    {
+      assistant: /Analyzer/,
+      reply: JSON.stringify({ claims: [], summary: "Offline mode.", biasAssessment: {}, modelConsensus: [] }),
+    },
+  ];
+}
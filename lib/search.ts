@@ -1,189 +1,74 @@
 // ──────────────────────────────────────────────
-//  Web Search — Perplexity sonar-pro via Backboard.io
+//  Web Search — Perplexity sonar-pro via the LLM provider (Backboard.io)
 //  Built-in web search, no separate API keys needed.
 //  Legacy Google Custom Search fallback kept for optional use.
 // ──────────────────────────────────────────────
 
 import { Source } from "./types";
-
-// Domain reputation → credibility score
-const DOMAIN_SCORES: Record<string, number> = {
-  // Wire services (highest)
-  "reuters.com": 0.95, "apnews.com": 0.95, "ap.org": 0.95,
-  // International broadsheets
-  "bbc.com": 0.92, "bbc.co.uk": 0.92,
-  "nytimes.com": 0.90, "washingtonpost.com": 0.88,
-  "theguardian.com": 0.88, "wsj.com": 0.88,
-  "economist.com": 0.90, "ft.com": 0.90,
-  // Business / finance
-  "cnbc.com": 0.85, "bloomberg.com": 0.88, "forbes.com": 0.78,
-  "businessinsider.com": 0.72, "marketwatch.com": 0.78,
-  "finance.yahoo.com": 0.72, "barrons.com": 0.82,
-  // Science / academic
-  "nature.com": 0.95, "science.org": 0.95, "sciencedirect.com": 0.92,
-  "pubmed.ncbi.nlm.nih.gov": 0.95, "arxiv.org": 0.85,
-  "scholar.google.com": 0.85, "nih.gov": 0.92,
-  // US TV networks
-  "cnn.com": 0.75, "nbcnews.com": 0.75, "abcnews.go.com": 0.75,
-  "cbsnews.com": 0.75, "foxnews.com": 0.70, "msnbc.com": 0.72,
-  // US newspapers / news
-  "usatoday.com": 0.75, "latimes.com": 0.80, "chicagotribune.com": 0.78,
-  "nypost.com": 0.65, "politico.com": 0.78, "thehill.com": 0.76,
-  "axios.com": 0.78, "theatlantic.com": 0.82, "vox.com": 0.72,
-  "npr.org": 0.88, "pbs.org": 0.88,
-  // International
-  "aljazeera.com": 0.78, "dw.com": 0.80, "france24.com": 0.80,
-  "scmp.com": 0.75, "japantimes.co.jp": 0.78,
-  // Fact-checkers
-  "snopes.com": 0.88, "factcheck.org": 0.90, "politifact.com": 0.88,
-  // Tech
-  "techcrunch.com": 0.75, "theverge.com": 0.72, "arstechnica.com": 0.78,
-  "wired.com": 0.75,
-  // Reference
-  "wikipedia.org": 0.70,
-};
-
-function credibilityForDomain(hostname: string): number {
-  const h = hostname.replace(/^www\./, "").toLowerCase();
-  if (DOMAIN_SCORES[h]) return DOMAIN_SCORES[h];
-  if (h.endsWith(".gov") || h.endsWith(".gov.uk")) return 0.92;
-  if (h.endsWith(".edu")) return 0.85;
-  if (h.endsWith(".org")) return 0.65;
-  return 0.50;
-}
+import { getLLMProvider } from "./llmProvider";
+import { planQueries, PlannedQuery } from "./queryPlanner";
+import { domainFields, refreshDomainOverrides } from "./domainRegistry";
+import { sourceDate } from "./sourceDates";
 
 // ──────────────────────────────────────────────
 //  PRIMARY: AI-powered search via Perplexity
-//  Uses Backboard.io → OpenRouter → Perplexity sonar-pro
+//  Uses the LLM provider → OpenRouter → Perplexity sonar-pro
 //  Perplexity has built-in web search — returns grounded results with citations.
 //  No separate Google API keys needed.
 // ──────────────────────────────────────────────
 
-const BB_URL = "https://app.backboard.io/api";
-const searchAssistantCache: Record<string, string> = {};
-
-function bbHeaders(contentType: string = "application/json"): Record<string, string> {
-  const key = process.env.BACKBOARD_API_KEY;
-  if (!key) throw new Error("BACKBOARD_API_KEY not set");
-  return {
-    "X-API-Key": key,
-    "Content-Type": contentType,
-  };
-}
-
-async function getOrCreateSearchAssistant(name: string, systemPrompt: string): Promise<string> {
-  if (searchAssistantCache[name]) return searchAssistantCache[name];
-
-  // Check if assistant already exists
-  const listRes = await fetch(`${BB_URL}/assistants`, {
-    headers: bbHeaders(),
-  });
-
-  if (listRes.ok) {
-    const assistants = (await listRes.json()) as any[];
-    const existing = Array.isArray(assistants)
-      ? assistants.find((a: any) => a.name === name)
-      : null;
-    if (existing?.assistant_id) {
-      searchAssistantCache[name] = existing.assistant_id;
-      return existing.assistant_id;
-    }
-  }
-
-  const createRes = await fetch(`${BB_URL}/assistants`, {
-    method: "POST",
-    headers: bbHeaders(),
-    body: JSON.stringify({
-      name,
-      system_prompt: systemPrompt,
-    }),
-  });
-
-  if (!createRes.ok) {
-    const err = await createRes.text();
-    throw new Error(`Failed to create search assistant: ${createRes.status} - ${err}`);
-  }
-
-  const assistant = (await createRes.json()) as any;
-  searchAssistantCache[name] = assistant.assistant_id;
-  return assistant.assistant_id;
-}
+// NO curly braces in system prompt (Backboard uses Python .format())
+const SEARCH_PROMPT = [
+  "You are a fact-checking research assistant.",
+  "When given a topic or claim, search the web for the most relevant and recent sources.",
+  "For EACH source you find, write one line in this EXACT format:",
+  "",
+  "SOURCE: title of the article | https://full-url-here | a brief 1-2 sentence summary of what the article says | YYYY-MM-DD",
+  "",
+  "List between 3 and 8 sources, one per line, each starting with SOURCE:",
+  "Prefer reputable outlets: Reuters, AP, BBC, NYT, WashPost, Snopes, PolitiFact, CNN, NPR, PBS, etc.",
+  "ONLY output SOURCE: lines. No other commentary, no introductions, no conclusions.",
+].join("\n");
+
+const SEARCH_ASSISTANT = "VerifyShot-WebSearch-v3";
 
 /**
- * Search the web using Perplexity sonar-pro via Backboard.
+ * Search the web using Perplexity sonar-pro via the LLM provider.
  * Perplexity has built-in web search — no Google API keys needed.
  *
  * Strategy: Let Perplexity respond naturally (it returns prose with inline
  * citations and source URLs), then parse the response for structured sources.
  */
 export async function searchWithAI(query: string, limit = 5): Promise<Source[]> {
-  const key = process.env.BACKBOARD_API_KEY;
-  if (!key) {
-    console.warn("[Search-AI] No BACKBOARD_API_KEY — cannot search");
+  const provider = getLLMProvider();
+  if (!provider.isConfigured()) {
+    console.warn(`[Search-AI] LLM provider "${provider.name}" not configured — cannot search`);
     return [];
   }
 
   console.log(`[Search-AI] Searching: "${query.slice(0, 80)}…" (limit: ${limit})`);
 
+  const userMessage = `Find ${limit} reliable, recent news sources about this topic:\n\n"${query}"`;
+
   try {
     // ── Step 1: Get Perplexity response with web-grounded sources ──
-    // NO curly braces in system prompt (Backboard uses Python .format())
-    const perplexityPrompt = [
-      "You are a fact-checking research assistant.",
-      "When given a topic or claim, search the web for the most relevant and recent sources.",
-      "For EACH source you find, write one line in this EXACT format:",
-      "",
-      "SOURCE: title of the article | https://full-url-here | a brief 1-2 sentence summary of what the article says | YYYY-MM-DD",
-      "",
-      "List between 3 and 8 sources, one per line, each starting with SOURCE:",
-      "Prefer reputable outlets: Reuters, AP, BBC, NYT, WashPost, Snopes, PolitiFact, CNN, NPR, PBS, etc.",
-      "ONLY output SOURCE: lines. No other commentary, no introductions, no conclusions.",
-    ].join("\n");
-
-    const assistantId = await getOrCreateSearchAssistant("VerifyShot-WebSearch-v3", perplexityPrompt);
-
-    // Create thread
-    const threadRes = await fetch(`${BB_URL}/assistants/${assistantId}/threads`, {
-      method: "POST",
-      headers: bbHeaders(),
-      body: JSON.stringify({}),
-    });
-
-    if (!threadRes.ok) {
-      throw new Error(`Thread creation failed: ${threadRes.status}`);
-    }
-
-    const thread = (await threadRes.json()) as any;
-    const threadId = thread.thread_id;
-
-    // Send search request
-    const userMessage = `Find ${limit} reliable, recent news sources about this topic:\n\n"${query}"`;
-
-    const formData = new URLSearchParams();
-    formData.append("content", userMessage);
-    formData.append("stream", "false");
-    formData.append("memory", "Off");
-    formData.append("llm_provider", "openrouter");
-    formData.append("model_name", "perplexity/sonar-pro");
-
-    const msgRes = await fetch(`${BB_URL}/threads/${threadId}/messages`, {
-      method: "POST",
-      headers: bbHeaders("application/x-www-form-urlencoded"),
-      body: formData.toString(),
-    });
-
-    if (!msgRes.ok) {
-      const errText = await msgRes.text();
-      console.error(`[Search-AI] Perplexity failed: ${msgRes.status} - ${errText}`);
+    let content: string;
+    try {
+      content = await provider.complete({
+        assistant: SEARCH_ASSISTANT,
+        systemPrompt: SEARCH_PROMPT,
+        message: userMessage,
+        memory: "Off",
+        model: { provider: "openrouter", name: "perplexity/sonar-pro" },
+      });
+    } catch (err: any) {
+      console.error(`[Search-AI] Perplexity failed: ${err.message}`);
 
       // Fallback: try GPT-4o-mini (no web search but can use knowledge)
       console.log(`[Search-AI] Falling back to GPT-4o-mini…`);
-      return await searchWithGPTFallback(threadId, query, limit);
+      return await searchWithGPTFallback(userMessage);
     }
 
-    const resp = (await msgRes.json()) as any;
-    const content = resp.content || resp.message?.content || "";
-
     console.log(`[Search-AI] Perplexity response (${content.length} chars): ${content.slice(0, 300)}…`);
 
     // ── Step 2: Parse the Perplexity response ──
@@ -216,28 +101,20 @@ export async function searchWithAI(query: string, limit = 5): Promise<Source[]>
 /**
  * Fallback search using GPT-4o-mini when Perplexity is unavailable.
  */
-async function searchWithGPTFallback(threadId: string, query: string, limit: number): Promise<Source[]> {
-  const userMessage = `Find ${limit} reliable, recent news sources about this topic:\n\n"${query}"`;
-  const fallbackData = new URLSearchParams();
-  fallbackData.append("content", userMessage);
-  fallbackData.append("stream", "false");
-  fallbackData.append("memory", "Off");
-  fallbackData.append("llm_provider", "openai");
-  fallbackData.append("model_name", "gpt-4o-mini");
-
-  const fallbackRes = await fetch(`${BB_URL}/threads/${threadId}/messages`, {
-    method: "POST",
-    headers: bbHeaders("application/x-www-form-urlencoded"),
-    body: fallbackData.toString(),
-  });
-
-  if (!fallbackRes.ok) {
-    const err = await fallbackRes.text();
-    throw new Error(`GPT fallback search also failed: ${fallbackRes.status} - ${err}`);
+async function searchWithGPTFallback(userMessage: string): Promise<Source[]> {
+  let content: string;
+  try {
+    content = await getLLMProvider().complete({
+      assistant: SEARCH_ASSISTANT,
+      systemPrompt: SEARCH_PROMPT,
+      message: userMessage,
+      memory: "Off",
+      model: { provider: "openai", name: "gpt-4o-mini" },
+    });
+  } catch (err: any) {
+    throw new Error(`GPT fallback search also failed: ${err.message}`);
   }
 
-  const fallbackResp = (await fallbackRes.json()) as any;
-  const content = fallbackResp.content || "";
   const sources = tryParseJSON(content);
   if (sources.length > 0) return sources;
   return extractURLsWithContext(content);
@@ -264,7 +141,6 @@ function parsePerplexityResponse(content: string): Source[] {
       const title = parts[0];
       const url = (parts[1] || "").replace(/[<>]/g, "");
       const snippet = parts[2] || "";
-      const date = parts[3] || new Date().toISOString().split("T")[0];
 
       if (url && url.startsWith("http") && !seenUrls.has(url)) {
         seenUrls.add(url);
@@ -274,8 +150,9 @@ function parsePerplexityResponse(content: string): Source[] {
           title: title || `Source from ${hostname}`,
           url,
           domain: hostname,
-          date,
-          credibilityScore: credibilityForDomain(hostname),
+          // The model's date field is unverified — URL patterns outrank it
+          ...sourceDate(url, [snippet, title], { value: parts[3], confidence: "low" }),
+          ...domainFields(hostname),
           snippet,
         });
       }
@@ -299,8 +176,8 @@ function parsePerplexityResponse(content: string): Source[] {
         title: title || `Source from ${hostname}`,
         url,
         domain: hostname,
-        date: new Date().toISOString().split("T")[0],
-        credibilityScore: credibilityForDomain(hostname),
+        ...sourceDate(url, [snippet, title]),
+        ...domainFields(hostname),
         snippet,
       });
     }
@@ -331,8 +208,8 @@ function parsePerplexityResponse(content: string): Source[] {
           title: title.length > 5 ? title : `Article from ${hostname}`,
           url,
           domain: hostname,
-          date: new Date().toISOString().split("T")[0],
-          credibilityScore: credibilityForDomain(hostname),
+          ...sourceDate(url, [line]),
+          ...domainFields(hostname),
           snippet: snippet.length > 10 ? snippet : "",
         });
       }
@@ -377,8 +254,8 @@ function tryParseJSON(content: string): Source[] {
           title: s.title,
           url: s.url,
           domain: hostname,
-          date: s.date || new Date().toISOString().split("T")[0],
-          credibilityScore: credibilityForDomain(hostname),
+          ...sourceDate(s.url, [s.snippet || s.description || "", s.title], { value: s.date, confidence: "low" }),
+          ...domainFields(hostname),
           snippet: s.snippet || s.description || "",
         };
       });
@@ -436,8 +313,9 @@ function extractURLsWithContext(content: string): Source[] {
         title,
         url,
         domain: hostname,
-        date: new Date().toISOString().split("T")[0],
-        credibilityScore: credibilityForDomain(hostname),
+        // Dates written next to the citation, nearest line first
+        ...sourceDate(url, [contextAfter.split("\n")[0], contextBefore.split("\n").pop() || ""]),
+        ...domainFields(hostname),
         snippet,
       });
     } catch {
@@ -490,11 +368,11 @@ export async function searchSources(query: string, limit = 5): Promise<Source[]>
         title: item.title,
         url: item.link,
         domain: hostname.replace(/^www\./, ""),
-        date:
-          item.pagemap?.metatags?.[0]?.["article:published_time"] ??
-          item.pagemap?.metatags?.[0]?.["og:updated_time"] ??
-          new Date().toISOString().split("T")[0],
-        credibilityScore: credibilityForDomain(hostname),
+        ...sourceDate(item.link, [item.snippet ?? ""], {
+          value: item.pagemap?.metatags?.[0]?.["article:published_time"],
+          confidence: "high",
+        }),
+        ...domainFields(hostname),
         snippet: item.snippet ?? "",
       };
     });
@@ -509,6 +387,9 @@ export async function searchSources(query: string, limit = 5): Promise<Source[]>
  * falls back to Google if needed.
  */
 export async function searchCombined(query: string, limit = 5): Promise<Source[]> {
+  // Pick up reviewed credibility overrides (cached for a minute)
+  await refreshDomainOverrides();
+
   // Try AI search first (no Google API needed)
   let sources = await searchWithAI(query, limit);
 
@@ -534,8 +415,70 @@ export async function searchCombined(query: string, limit = 5): Promise<Source[]
   return sources;
 }
 
+// ──────────────────────────────────────────────
+//  Per-claim search: run the planned queries (see queryPlanner)
+//  in parallel, then merge round-robin so every query contributes
+//  its best hits before any query's long tail.
+// ──────────────────────────────────────────────
+
+/** URL identity for dedupe: no www, fragment, tracking params or trailing slash. */
+export function canonicalUrl(raw: string): string {
+  try {
+    const url = new URL(raw);
+    url.hash = "";
+    url.hostname = url.hostname.replace(/^www\./, "").toLowerCase();
+    for (const param of [...url.searchParams.keys()]) {
+      if (/^(utm_|fbclid$|gclid$|ref$)/.test(param)) url.searchParams.delete(param);
+    }
+    return url.toString().replace(/\/$/, "");
+  } catch {
+    return raw.trim();
+  }
+}
+
+export function mergeQueryResults(plan: PlannedQuery[], results: Source[][], limit: number): Source[] {
+  const merged: Source[] = [];
+  const seen = new Set<string>();
+  const longest = Math.max(0, ...results.map((r) => r.length));
+
+  for (let rank = 0; rank < longest && merged.length < limit; rank++) {
+    for (let q = 0; q < results.length && merged.length < limit; q++) {
+      const source = results[q][rank];
+      if (!source) continue;
+      const key = canonicalUrl(source.url);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      merged.push({ ...source, matchedQuery: plan[q].query });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Search for one claim via several focused queries instead of the raw
+ * sentence. Each returned Source records the query that found it.
+ */
+export async function searchForClaim(claimText: string, limit = 6): Promise<Source[]> {
+  const plan = planQueries(claimText);
+  console.log(`[Search] ${plan.length} planned quer${plan.length === 1 ? "y" : "ies"}: ${plan.map((q) => `${q.kind}="${q.query}"`).join(", ")}`);
+
+  const perQuery = Math.max(3, Math.ceil(limit / plan.length) + 1);
+  const results = await Promise.all(
+    plan.map((q) =>
+      searchCombined(q.query, perQuery).catch((err: any) => {
+        console.warn(`[Search] Query "${q.query}" failed:`, err.message);
+        return [] as Source[];
+      })
+    )
+  );
+
+  const merged = mergeQueryResults(plan, results, limit);
+  console.log(`[Search] ✅ ${merged.length} unique source(s) across ${plan.length} quer${plan.length === 1 ? "y" : "ies"}`);
+  return merged;
+}
+
 /**
- * Tool definition for Backboard.io deep research assistants.
+ * Tool definition for deep research assistants (see chatAboutJob).
  */
 export function getWebSearchTool() {
   return {
@@ -0,0 +1,132 @@
+// ──────────────────────────────────────────────
+//  Lexical sensationalism — deterministic, 0 API calls
+//  Scans text for the surface marks of sensational writing:
+//    loaded_language         emotive, loaded words ("disastrous", "slams")
+//    all_caps                shouted runs ("RAM THROUGH", "BREAKING")
+//    exclamation             clusters of ! and ?
+//    clickbait               templates ("you won't believe", "here's why")
+//    absolutist              "always", "never", "everyone", "100%"
+//    unsourced_attribution   "experts say", "studies show" with no source
+//  Every match keeps its character offsets so clients can highlight
+//  it. detectBias blends the score with the perspectives' and falls
+//  back to it when they fail.
+// ──────────────────────────────────────────────
+
+import { LexicalSensationalism, SensationalismFeature, SensationalismFeatureKind, TextSpan } from "./types";
+
+const LOADED_WORDS = [
+  "shocking", "shocked", "outrage", "outrageous", "outraged", "disaster", "disastrous", "catastrophe", "catastrophic",
+  "devastating", "destroy", "destroys", "destroyed", "slam", "slams", "slammed", "blast", "blasts", "rips", "radical",
+  "horrific", "horrifying", "terrifying", "insane", "unbelievable", "furious", "explosive", "bombshell", "rammed",
+  "evil", "traitor", "traitors", "corrupt", "chaos", "massacre", "nightmare", "scandal", "scandalous", "humiliated",
+  "humiliating", "savage", "brutal", "meltdown", "crushed", "obliterated", "epic", "jaw-dropping", "mind-blowing",
+  "heartbreaking", "disgusting", "disgraceful", "shameful", "unhinged", "apocalyptic", "tyranny", "war on",
+];
+
+const CLICKBAIT_PATTERNS = [
+  /you won[’']?t believe/gi,
+  /what happen(?:s|ed) next/gi,
+  /will (?:shock|amaze|surprise) you/gi,
+  /(?:doctors|experts|banks) hate (?:him|her|this|them)/gi,
+  /one (?:weird|simple) trick/gi,
+  /here[’']?s (?:why|what|how)/gi,
+  /this is (?:why|what|how)\b/gi,
+  /they don[’']?t want you to know/gi,
+  /(?:the )?(?:truth|real reason) (?:about|behind|why)/gi,
+  /share (?:this )?before (?:it[’']?s )?(?:deleted|removed|taken down)/gi,
+  /\bmust[- ](?:see|read|watch)\b/gi,
+  /\bgoes viral\b/gi,
+  /\bwake up\b/gi,
+  /\b(?:breaking|urgent|alert)\s*:/gi,
+  /number \d+ will/gi,
+];
+
+const ABSOLUTIST_WORDS = [
+  "always", "never", "everyone", "everybody", "nobody", "no one", "every single", "totally", "completely",
+  "absolutely", "entirely", "guaranteed", "undeniable", "undeniably", "proven", "definitely", "without exception",
+];
+
+const UNSOURCED_PATTERNS = [
+  /\b(?:(?:many|some|top|leading)\s+)?(?:experts?|scientists?|doctors?|researchers?|insiders?|sources?|studies|research|reports?|critics|officials)\s+(?:say|says|said|claim|claims|show|shows|suggest|suggests|warn|warns|agree|believe|confirm|confirms)\b/gi,
+  /\b(?:many |some )?people are saying\b/gi,
+  /\baccording to (?:some |many )?(?:experts|sources|insiders|reports)\b/gi,
+  /\bit is (?:said|believed|rumou?red) that\b/gi,
+];
+
+// How much each feature can add to the score, and how many matches
+// (per ~60 words) saturate it
+const FEATURES: Record<SensationalismFeatureKind, { label: string; weight: number; saturation: number }> = {
+  loaded_language: { label: "Loaded or emotive language", weight: 0.3, saturation: 3 },
+  all_caps: { label: "All-caps shouting", weight: 0.2, saturation: 2 },
+  exclamation: { label: "Exclamation clusters", weight: 0.15, saturation: 2 },
+  clickbait: { label: "Clickbait phrasing", weight: 0.2, saturation: 1 },
+  absolutist: { label: "Absolutist language", weight: 0.15, saturation: 3 },
+  unsourced_attribution: { label: "Unsourced attribution", weight: 0.15, saturation: 1 },
+};
+
+const WORDS_PER_SATURATION = 60;
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function wordListPattern(words: string[]): RegExp {
+  // Longest first so "no one" wins over shorter overlaps
+  const alternatives = [...words].sort((a, b) => b.length - a.length).map((w) => escapeRegExp(w).replace(/ /g, "\\s+"));
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join("|")})(?![\\p{L}\\p{N}])`, "giu");
+}
+
+const LOADED_PATTERN = wordListPattern(LOADED_WORDS);
+const ABSOLUTIST_PATTERN = wordListPattern(ABSOLUTIST_WORDS);
+// Runs of upper-case words ("RAM THROUGH", "BREAKING"); single short words are usually acronyms
+const CAPS_RUN_PATTERN = /(?<![\p{L}\p{N}])\p{Lu}[\p{Lu}'’-]+(?:\s+\p{Lu}[\p{Lu}'’-]+)*(?![\p{L}\p{N}])/gu;
+const EXCLAMATION_PATTERN = /[!?]*![!?]*/g;
+
+function spansFor(text: string, pattern: RegExp, kind: SensationalismFeatureKind): TextSpan[] {
+  const spans: TextSpan[] = [];
+  for (const m of text.matchAll(pattern)) {
+    if (m.index === undefined || !m[0]) continue;
+    spans.push({ kind, start: m.index, end: m.index + m[0].length, text: m[0] });
+  }
+  return spans;
+}
+
+function capsRuns(text: string): TextSpan[] {
+  return spansFor(text, CAPS_RUN_PATTERN, "all_caps").filter((span) => {
+    const words = span.text.split(/\s+/);
+    const longest = Math.max(...words.map((w) => w.length));
+    return words.length >= 2 ? longest >= 4 : longest >= 6;
+  });
+}
+
+/** Score the text's sensational surface features (0-1), with the matches' character offsets. */
+export function analyzeSensationalism(text: string): LexicalSensationalism {
+  if (!text.trim()) return { score: 0, features: [], spans: [] };
+
+  const byKind: Record<SensationalismFeatureKind, TextSpan[]> = {
+    loaded_language: spansFor(text, LOADED_PATTERN, "loaded_language"),
+    all_caps: capsRuns(text),
+    exclamation: spansFor(text, EXCLAMATION_PATTERN, "exclamation").filter((s) => s.text.length >= 2),
+    clickbait: CLICKBAIT_PATTERNS.flatMap((p) => spansFor(text, p, "clickbait")),
+    absolutist: spansFor(text, ABSOLUTIST_PATTERN, "absolutist"),
+    unsourced_attribution: UNSOURCED_PATTERNS.flatMap((p) => spansFor(text, p, "unsourced_attribution")),
+  };
+
+  // Longer texts need more matches to read as equally sensational
+  const words = text.split(/\s+/).filter(Boolean).length;
+  const lengthFactor = Math.max(1, words / WORDS_PER_SATURATION);
+
+  const features: SensationalismFeature[] = [];
+  let score = 0;
+  for (const kind of Object.keys(FEATURES) as SensationalismFeatureKind[]) {
+    const spans = byKind[kind];
+    if (spans.length === 0) continue;
+    const { label, weight, saturation } = FEATURES[kind];
+    const featureScore = Math.min(1, spans.length / (saturation * lengthFactor));
+    features.push({ kind, label, count: spans.length, score: Math.round(featureScore * 100) / 100 });
+    score += weight * featureScore;
+  }
+
+  const spans = Object.values(byKind).flat().sort((a, b) => a.start - b.start || a.end - b.end);
+  return { score: Math.round(Math.min(1, score) * 100) / 100, features, spans };
+}
@@ -0,0 +1,143 @@
+// ──────────────────────────────────────────────
+//  Source publication dates
+//  Search results rarely carry a trustworthy date, and "today" is not
+//  a date. Every candidate is tagged with how it was found; the most
+//  reliable one wins:
+//    high    page metadata (article:published_time, JSON-LD), search API metadata
+//    medium  a full date in the URL path, a <time datetime> on the page
+//    low     a date in the text around the citation, year/month-only URLs,
+//            a date the search model reported
+//    none    unknown — Source.date is null
+//  The evidence stage (evidence.ts) upgrades dates once pages are read.
+// ──────────────────────────────────────────────
+
+import { DateConfidence } from "./types";
+import { MONTH_PATTERN, isoDate, monthIndex } from "./queryPlanner";
+
+export interface DatedValue {
+  date: string;                // YYYY-MM-DD
+  confidence: Exclude<DateConfidence, "none">;
+}
+
+const CONFIDENCE_RANK: Record<DateConfidence, number> = { none: 0, low: 1, medium: 2, high: 3 };
+
+// Dates before the web or in the future are parse errors, not publication dates
+const EARLIEST_YEAR = 1995;
+
+function plausible(year: number, month: number, day: number): string | null {
+  if (year < EARLIEST_YEAR || month < 0 || month > 11 || day < 1 || day > 31) return null;
+  const iso = isoDate(year, month, day);
+  // Date.UTC rolls Feb 30 over into March — reject instead
+  if (parseInt(iso.slice(8, 10), 10) !== day) return null;
+  return Date.parse(iso) <= Date.now() + 86400_000 ? iso : null;
+}
+
+/** A timestamp or date string as YYYY-MM-DD, or null. */
+export function toIsoDate(raw: string | undefined | null): string | null {
+  if (!raw) return null;
+  const trimmed = raw.trim();
+  const direct = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (direct) return plausible(parseInt(direct[1], 10), parseInt(direct[2], 10) - 1, parseInt(direct[3], 10));
+  const parsed = new Date(trimmed);
+  if (isNaN(parsed.getTime())) return null;
+  return plausible(parsed.getUTCFullYear(), parsed.getUTCMonth(), parsed.getUTCDate());
+}
+
+/**
+ * Dates in URL paths: /2023/03/02/, /2023-03-02-slug, /20230302/ (medium);
+ * /2023/03/ alone gives the first of the month (low).
+ */
+export function dateFromUrl(url: string): DatedValue | null {
+  let path: string;
+  try {
+    path = new URL(url).pathname;
+  } catch {
+    return null;
+  }
+
+  const full =
+    path.match(/\/((?:19|20)\d{2})\/(\d{1,2})\/(\d{1,2})(?:\/|$)/) ||
+    path.match(/(?:^|[/_-])((?:19|20)\d{2})-(\d{2})-(\d{2})(?=$|[/_.-])/) ||
+    path.match(/\/((?:19|20)\d{2})(\d{2})(\d{2})(?=$|[/_.-])/);
+  if (full) {
+    const date = plausible(parseInt(full[1], 10), parseInt(full[2], 10) - 1, parseInt(full[3], 10));
+    if (date) return { date, confidence: "medium" };
+  }
+
+  // Month names, as PolitiFact and the Guardian use: /2023/mar/06/
+  const named = path.match(new RegExp(`/((?:19|20)\\d{2})/${MONTH_PATTERN}/(\\d{1,2})(?:/|$)`, "i"));
+  if (named) {
+    const date = plausible(parseInt(named[1], 10), monthIndex(named[2]), parseInt(named[3], 10));
+    if (date) return { date, confidence: "medium" };
+  }
+
+  const monthOnly = path.match(/\/((?:19|20)\d{2})\/(\d{1,2})(?:\/|$)/);
+  if (monthOnly) {
+    const date = plausible(parseInt(monthOnly[1], 10), parseInt(monthOnly[2], 10) - 1, 1);
+    if (date) return { date, confidence: "low" };
+  }
+  return null;
+}
+
+/**
+ * The first full date written in text near a citation ("March 2, 2023",
+ * "2 March 2023", "2023-03-02"). Always low confidence: the text may be
+ * talking about an event, not the article.
+ */
+export function dateFromText(text: string): DatedValue | null {
+  if (!text) return null;
+
+  const monthFirst = text.match(new RegExp(`\\b${MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+((?:19|20)\\d{2})\\b`, "i"));
+  if (monthFirst) {
+    const date = plausible(parseInt(monthFirst[3], 10), monthIndex(monthFirst[1]), parseInt(monthFirst[2], 10));
+    if (date) return { date, confidence: "low" };
+  }
+
+  const dayFirst = text.match(new RegExp(`\\b(\\d{1,2})\\s+${MONTH_PATTERN}\\s+((?:19|20)\\d{2})\\b`, "i"));
+  if (dayFirst) {
+    const date = plausible(parseInt(dayFirst[3], 10), monthIndex(dayFirst[2]), parseInt(dayFirst[1], 10));
+    if (date) return { date, confidence: "low" };
+  }
+
+  const iso = text.match(/\b((?:19|20)\d{2})-(\d{2})-(\d{2})\b/);
+  if (iso) {
+    const date = plausible(parseInt(iso[1], 10), parseInt(iso[2], 10) - 1, parseInt(iso[3], 10));
+    if (date) return { date, confidence: "low" };
+  }
+  return null;
+}
+
+/** true when `candidate` is more reliable than `current`. */
+export function isBetterDate(candidate: DateConfidence, current: DateConfidence | undefined): boolean {
+  return CONFIDENCE_RANK[candidate] > CONFIDENCE_RANK[current ?? "none"];
+}
+
+/**
+ * The date fields for a freshly parsed search result: the best of the URL,
+ * the surrounding text and a date the search backend reported.
+ */
+export function sourceDate(
+  url: string,
+  context: string[] = [],
+  reported?: { value: string | undefined | null; confidence: DatedValue["confidence"] }
+): { date: string | null; dateConfidence: DateConfidence } {
+  const candidates: DatedValue[] = [];
+  const fromReport = toIsoDate(reported?.value);
+  if (fromReport && reported) candidates.push({ date: fromReport, confidence: reported.confidence });
+  const fromUrl = dateFromUrl(url);
+  if (fromUrl) candidates.push(fromUrl);
+  for (const text of context) {
+    const fromText = dateFromText(text);
+    if (fromText) {
+      candidates.push(fromText);
+      break;
+    }
+  }
+
+  // Highest confidence wins; ties keep the earlier (more direct) candidate
+  let best: DatedValue | null = null;
+  for (const c of candidates) {
+    if (!best || isBetterDate(c.confidence, best.confidence)) best = c;
+  }
+  return best ? { date: best.date, dateConfidence: best.confidence } : { date: null, dateConfidence: "none" };
+}
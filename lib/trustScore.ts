@@ -2,48 +2,86 @@
 //  Trust-score calculation (0-100)
 // ──────────────────────────────────────────────
 
-import { Source, BiasSignals } from "./types";
+import { Source, SourceStance, BiasSignals, DateConfidence, AggregateBreakdown, ScoreBreakdown, ScoreComponent, ScoreComponentKey } from "./types";
+import { DateWindow } from "./queryPlanner";
+import { getScoreProfile, ScoreProfile } from "./scoreProfiles";
 
 export function calculateTrustScore(
   sources: Source[],
   modelConsensus: number,     // 0-1 (average LLM confidence)
   biasPenalty: number,        // 0-1
-  modelAgreement?: number      // 0-1 (fraction of models that agree, optional)
+  modelAgreement?: number,     // 0-1 (fraction of models that agree, optional)
+  timeFrame?: DateWindow | null, // when the claim happened, if known (see extractDateWindow)
+  profile: ScoreProfile = getScoreProfile()
 ): number {
-  // 1. Source quality (0-1) — weighted avg credibility
+  return trustScoreBreakdown(sources, modelConsensus, biasPenalty, modelAgreement, timeFrame, profile).score;
+}
+
+// Contributions are reported in score points, rounded for display
+const round = (n: number, places: number) => Math.round(n * 10 ** places) / 10 ** places;
+
+function component(key: ScoreComponentKey, label: string, value: number, weight: number): ScoreComponent {
+  return { key, label, value: round(value, 3), weight, contribution: round(value * weight * 100, 1) };
+}
+
+/**
+ * The trust score with every part of the formula: each component's raw
+ * value (0-1), its weight and its contribution in points. The score is
+ * the clamped, rounded sum of the contributions. Weights, and what a
+ * claim without sources gets, come from the score profile.
+ */
+export function trustScoreBreakdown(
+  sources: Source[],
+  modelConsensus: number,
+  biasPenalty: number,
+  modelAgreement?: number,
+  timeFrame?: DateWindow | null,
+  profile: ScoreProfile = getScoreProfile()
+): ScoreBreakdown {
+  const missing = profile.missingSources;
+  if (sources.length === 0 && missing.policy === "unverifiable") {
+    console.log(`[TrustScore] No sources — profile "${profile.id}" does not score unsourced claims`);
+    return fixedScoreBreakdown(0, `The ${profile.label} profile does not score claims without sources`);
+  }
+
+  // 1. Source quality (0-1) — credibility-weighted support minus refutation.
+  //    A credible source that debunks the claim now lowers the score.
   const sourceQuality = sources.length > 0
-    ? sources.reduce((s, src) => s + (src.credibilityScore || 0.5), 0) / sources.length
-    : 0.3; // Default to 0.3 if no sources (neutral baseline)
+    ? stanceAwareQuality(sources)
+    : missing.baseline.sourceQuality; // the profile's neutral baseline
 
-  // 2. Recency (0-1) — how recent corroborating sources are
-  const recency = calculateRecencyScore(sources);
+  // 2. Recency (0-1) — how close sources are to the claim's time frame (or to now)
+  const recency = calculateRecencyScore(sources, timeFrame);
 
-  // 3. Independent agreement (0-1) — fraction of high-quality sources
-  const highQ = sources.filter((s) => (s.credibilityScore || 0) >= 0.7).length;
-  const agreement = sources.length > 0 ? highQ / sources.length : 0.3; // Default if no sources
+  // 3. Independent agreement (0-1) — net support across distinct outlets
+  const agreement = sources.length > 0 ? independentAgreement(sources) : missing.baseline.agreement;
+
+  // Without sources the profile usually leans on model consensus instead
+  const weights = sources.length > 0 ? profile.weights : missing.weights;
+
+  const components: ScoreComponent[] = [
+    component("sourceQuality", "Source quality", sourceQuality, weights.sourceQuality),
+    component("modelConsensus", "Model consensus", modelConsensus, weights.modelConsensus),
+    component("recency", "Recency", recency, weights.recency),
+    component("agreement", "Independent agreement", agreement, weights.agreement),
+    // Boost for model agreement (if provided)
+    component("modelAgreementBoost", "Model agreement boost", modelAgreement ?? 0, weights.modelAgreementBoost),
+    component("biasPenalty", "Bias penalty", biasPenalty, -weights.biasPenalty),
+  ];
 
-  // Model agreement boost (if provided)
-  const agreementBoost = modelAgreement !== undefined ? modelAgreement * 0.1 : 0;
-  
-  // Weighted formula
-  // If no sources, rely more heavily on model consensus
-  const sourceWeight = sources.length > 0 ? 0.40 : 0.20;
-  const modelWeight = sources.length > 0 ? 0.30 : 0.50; // Higher weight when no sources
-  const recencyWeight = sources.length > 0 ? 0.10 : 0.05;
-  const agreementWeight = sources.length > 0 ? 0.10 : 0.05;
-  
   const raw =
-    sourceWeight * sourceQuality +
-    modelWeight * modelConsensus +
-    recencyWeight * recency +
-    agreementWeight * agreement +
-    agreementBoost -  // Boost for model agreement
-    0.05 * biasPenalty;
+    weights.sourceQuality * sourceQuality +
+    weights.modelConsensus * modelConsensus +
+    weights.recency * recency +
+    weights.agreement * agreement +
+    weights.modelAgreementBoost * (modelAgreement ?? 0) -
+    weights.biasPenalty * biasPenalty;
 
   const finalScore = Math.max(0, Math.min(100, Math.round(raw * 100)));
   
   // Log calculation for debugging
   console.log(`[TrustScore] Calculation:`, {
+    profile: profile.id,
     sourceQuality: sourceQuality.toFixed(2),
     modelConsensus: modelConsensus.toFixed(2),
     recency: recency.toFixed(2),
@@ -62,28 +100,172 @@ export function calculateTrustScore(
     console.warn(`[TrustScore] ⚠️ Model consensus is default 0.5 - Backboard may not have returned proper confidence`);
   }
   
-  return finalScore;
+  const breakdown: ScoreBreakdown = {
+    components,
+    raw: round(raw * 100, 1),
+    score: finalScore,
+    sourceCount: sources.length,
+    adjustments: [],
+  };
+  return sources.length === 0 && missing.policy === "cap"
+    ? adjustScore(breakdown, Math.min(finalScore, missing.maxScore), `The ${profile.label} profile caps claims without sources at ${missing.maxScore}`)
+    : breakdown;
+}
+
+/**
+ * A score that did not come from the formula (satire, no sources, no
+ * verifier quorum): no components, just the reason.
+ */
+export function fixedScoreBreakdown(score: number, reason: string, sourceCount = 0): ScoreBreakdown {
+  return { components: [], raw: score, score, sourceCount, adjustments: [{ reason, from: null, to: score }] };
+}
+
+/** Record a change made after the formula (e.g. a fact-check anchor) on the breakdown. */
+export function adjustScore(breakdown: ScoreBreakdown, to: number, reason: string): ScoreBreakdown {
+  if (to === breakdown.score) return breakdown;
+  return {
+    ...breakdown,
+    score: to,
+    adjustments: [...breakdown.adjustments, { reason, from: breakdown.score, to }],
+  };
+}
+
+/** The result's aggregate: the plain mean of the claims' scores. */
+export function aggregateTrustScore(claims: Array<{ id: string; trustScore: number }>): AggregateBreakdown {
+  const score = claims.length > 0
+    ? Math.round(claims.reduce((s, c) => s + c.trustScore, 0) / claims.length)
+    : 0;
+  return { method: "mean", claims: claims.map((c) => ({ claimId: c.id, trustScore: c.trustScore })), score };
+}
+
+const STANCE_SIGN: Record<SourceStance, number> = { supports: 1, refutes: -1, neutral: 0 };
+
+function hasStances(sources: Source[]): boolean {
+  return sources.some((s) => s.stance !== undefined);
+}
+
+/**
+ * 0.5 + half the mean signed credibility: all-supporting wire services → ~0.97,
+ * all-neutral → 0.5, refuted by wire services → ~0.03. Without stances (the
+ * verifiers failed) this falls back to plain average credibility.
+ */
+export function stanceAwareQuality(sources: Source[]): number {
+  if (!hasStances(sources)) {
+    return sources.reduce((s, src) => s + (src.credibilityScore || 0.5), 0) / sources.length;
+  }
+  const net = sources.reduce(
+    (s, src) => s + (src.credibilityScore || 0.5) * STANCE_SIGN[src.stance || "neutral"],
+    0
+  );
+  return Math.max(0, Math.min(1, 0.5 + 0.5 * (net / sources.length)));
+}
+
+/**
+ * (support − refutation) / total credibility, counting each domain once
+ * (its most credible source) so syndicated copies don't add agreement.
+ * Without stances: the fraction of high-quality sources, as before.
+ */
+export function independentAgreement(sources: Source[]): number {
+  if (!hasStances(sources)) {
+    const highQ = sources.filter((s) => (s.credibilityScore || 0) >= 0.7).length;
+    return highQ / sources.length;
+  }
+
+  const byDomain = new Map<string, Source>();
+  for (const src of sources) {
+    const current = byDomain.get(src.domain);
+    if (!current || (src.credibilityScore || 0) > (current.credibilityScore || 0)) byDomain.set(src.domain, src);
+  }
+
+  let net = 0;
+  let total = 0;
+  for (const src of byDomain.values()) {
+    const weight = src.credibilityScore || 0.5;
+    net += weight * STANCE_SIGN[src.stance || "neutral"];
+    total += weight;
+  }
+  return total > 0 ? Math.max(0, net / total) : 0;
 }
 
-export function calculateRecencyScore(sources: Source[]): number {
+const DAY_MS = 86400_000;
+
+// How much a source's date counts, by how it was found (see sourceDates.ts)
+const DATE_WEIGHT: Record<DateConfidence, number> = { high: 1, medium: 0.8, low: 0.5, none: 0.25 };
+
+// A source with no known date says nothing about timing either way
+const UNKNOWN_DATE_SCORE = 0.5;
+
+// Reporting lags the event; coverage this soon after the window still counts as in it
+const REPORTING_LAG_DAYS = 14;
+
+/** Age-based score for claims with no known time frame: is the coverage current? */
+function ageScore(date: number, now: number): number {
+  const age = now - date;
+  if (age < 7 * DAY_MS) return 1;          // < 1 week
+  if (age < 30 * DAY_MS) return 0.9;       // < 1 month
+  if (age < 365 * DAY_MS) return 0.7;      // < 1 year
+  return 0.4;
+}
+
+/**
+ * How well a source's date fits the claim's time frame: coverage during the
+ * window (plus reporting lag) scores 1; later retrospectives score less the
+ * later they are; sources from well before the event can't report on it.
+ */
+function timeFrameScore(date: number, frame: DateWindow): number {
+  const from = Date.parse(frame.from);
+  const to = Date.parse(frame.to) + REPORTING_LAG_DAYS * DAY_MS;
+  if (date >= from && date <= to) return 1;
+  if (date > to) {
+    const after = (date - to) / DAY_MS;
+    if (after < 30) return 0.85;
+    if (after < 180) return 0.7;
+    if (after < 730) return 0.5;
+    return 0.35;
+  }
+  const before = (from - date) / DAY_MS;
+  if (before <= 7) return 0.8;  // previews of a scheduled event
+  if (before <= 60) return 0.5;
+  return 0.2;
+}
+
+/**
+ * Recency (0-1), weighted by how reliably each date is known. Undated
+ * sources count as neutral at a low weight instead of pretending to be new.
+ */
+export function calculateRecencyScore(sources: Source[], timeFrame?: DateWindow | null): number {
   if (sources.length === 0) return 0;
   const now = Date.now();
-  const scores = sources.map((s) => {
-    const age = now - new Date(s.date).getTime();
-    if (age < 7 * 86400_000) return 1;          // < 1 week
-    if (age < 30 * 86400_000) return 0.9;       // < 1 month
-    if (age < 365 * 86400_000) return 0.7;      // < 1 year
-    return 0.4;
-  });
-  return scores.reduce((a, b) => a + b, 0) / scores.length;
+  let weighted = 0;
+  let total = 0;
+  for (const s of sources) {
+    const date = s.date ? Date.parse(s.date) : NaN;
+    const known = !isNaN(date);
+    const weight = DATE_WEIGHT[known ? s.dateConfidence || "low" : "none"];
+    const score = !known ? UNKNOWN_DATE_SCORE : timeFrame ? timeFrameScore(date, timeFrame) : ageScore(date, now);
+    weighted += weight * score;
+    total += weight;
+  }
+  return weighted / total;
 }
 
 export function biasPenalty(bias: BiasSignals): number {
   return (Math.abs(bias.politicalBias) * 0.5) + (bias.sensationalism * 0.5);
 }
 
-export function trustLabel(score: number): string {
-  if (score >= 75) return "Likely True";
-  if (score >= 40) return "Unverified / Mixed";
+/** Keep a score inside its verdict's label band (used when a fact-check anchors the verdict). */
+export function clampToVerdict(
+  score: number,
+  verdict: "likely_true" | "mixed" | "likely_misleading",
+  profile: ScoreProfile = getScoreProfile()
+): number {
+  if (verdict === "likely_true") return Math.max(score, profile.labels.likelyTrue);
+  if (verdict === "likely_misleading") return Math.min(score, profile.labels.mixed - 1);
+  return score;
+}
+
+export function trustLabel(score: number, profile: ScoreProfile = getScoreProfile()): string {
+  if (score >= profile.labels.likelyTrue) return "Likely True";
+  if (score >= profile.labels.mixed) return "Unverified / Mixed";
   return "Likely Misleading";
 }
@@ -2,13 +2,75 @@
 //  Core data types shared by backend + iOS
 // ──────────────────────────────────────────────
 
+// Registry category of a source's domain (see config/domains.json)
+export type DomainCategory =
+  | "wire_service"
+  | "fact_checker"
+  | "news"
+  | "state_media"
+  | "satire"
+  | "fabricator"
+  | "user_generated"
+  | "academic"
+  | "government"
+  | "reference"
+  | "unknown";
+
+// How a source's publication date was found (see lib/sourceDates)
+export type DateConfidence = "high" | "medium" | "low" | "none";
+
+// How a source relates to the claim it was found for
+export type SourceStance = "supports" | "refutes" | "neutral";
+
 export interface Source {
   title: string;
   url: string;
   domain: string;
-  date: string;
+  date: string | null;         // YYYY-MM-DD publication date, null when unknown
+  dateConfidence: DateConfidence;
   credibilityScore: number;   // 0-1
+  category?: DomainCategory;  // from the domain registry
   snippet: string;
+  matchedQuery?: string;       // the planned search query that found this source
+  evidencePassages?: string[]; // passages from the fetched page that verifiers judged the claim on
+  stance?: SourceStance;       // set per claim by the verifiers (see combineSourceStances)
+}
+
+// Local, lexical sensationalism (see lib/sensationalism)
+export type SensationalismFeatureKind =
+  | "loaded_language"
+  | "all_caps"
+  | "exclamation"
+  | "clickbait"
+  | "absolutist"
+  | "unsourced_attribution";
+
+export interface TextSpan {
+  kind: SensationalismFeatureKind;
+  start: number;               // character offsets into the analyzed text, end exclusive
+  end: number;
+  text: string;
+}
+
+export interface SensationalismFeature {
+  kind: SensationalismFeatureKind;
+  label: string;               // for display, e.g. "All-caps shouting"
+  count: number;
+  score: number;               // 0-1
+}
+
+export interface LexicalSensationalism {
+  score: number;               // 0-1
+  features: SensationalismFeature[];  // only the features found
+  spans: TextSpan[];           // sorted by start; may overlap across kinds
+}
+
+// One lens of the bias analysis (see lib/perspectives)
+export interface PerspectiveScore {
+  label: string;               // e.g. "US Left", "EU", "Public Health"
+  bias: number;
+  sensationalism: number;
+  consensus: number;           // agreement among the models behind this perspective
 }
 
 export interface BiasSignals {
@@ -19,24 +81,16 @@ export interface BiasSignals {
   // New fields for multi-perspective bias detection
   confidence?: number;         // 0-1 (inverse of std dev across all assessments)
   agreement?: "high" | "medium" | "low";  // How much the assessments agree
-  perspectives?: {
-    usLeft: {
-      bias: number;
-      sensationalism: number;
-      consensus: number;  // average of 3 models
-    };
-    usRight: {
-      bias: number;
-      sensationalism: number;
-      consensus: number;
-    };
-    international: {
-      bias: number;
-      sensationalism: number;
-      consensus: number;
-    };
-  };
+  perspectives?: Record<string, PerspectiveScore>;  // keyed by perspective id (config/perspectives.json)
   keySignals?: string[];      // Common themes detected
+  // Lexical sensationalism; spans index into the OCR text (post-level) or the claim text
+  lexical?: LexicalSensationalism;
+}
+
+// detectBias output: the post as a whole, and each claim on its own wording (same order as the claims)
+export interface BiasAnalysis {
+  document: BiasSignals;
+  claims: BiasSignals[];
 }
 
 export interface ModelVerdict {
@@ -47,35 +101,264 @@ export interface ModelVerdict {
   reasoning?: string;           // Model's explanation
 }
 
+// A published fact-check (schema.org ClaimReview) found among a claim's sources
+export interface FactCheckRating {
+  publisher: string;           // e.g. "PolitiFact"
+  url: string;
+  claimReviewed: string;       // the claim as the fact-checker worded it
+  rating: string;              // the publisher's own label, e.g. "Pants on Fire"
+  verdict: "likely_true" | "mixed" | "likely_misleading";  // mapped onto our scale
+  strong: boolean;             // a definitive rating (true / false), not a hedge
+  matchScore: number;          // 0-1 overlap between claimReviewed and our claim
+  reviewDate?: string;         // YYYY-MM-DD
+}
+
+// Where a claim came from, when that origin is satire or a known fabricator
+export interface ClaimOrigin {
+  kind: "satire" | "fabricator";
+  detectedIn: "screenshot" | "sources";  // OCR text (domain / @handle) or the claim's search results
+  matches: string[];                     // domains and @handles that triggered it
+  name?: string;                         // outlet name, when the registry knows it
+}
+
+// One term of the trust-score formula (see trustScore.ts)
+export type ScoreComponentKey =
+  | "sourceQuality"
+  | "modelConsensus"
+  | "recency"
+  | "agreement"
+  | "modelAgreementBoost"
+  | "biasPenalty";
+
+export interface ScoreComponent {
+  key: ScoreComponentKey;
+  label: string;               // for display, e.g. "Source quality"
+  value: number;               // 0-1 raw value
+  weight: number;              // negative for penalties
+  contribution: number;        // value × weight, in score points
+}
+
+export interface ScoreBreakdown {
+  components: ScoreComponent[];  // empty when the score did not come from the formula
+  raw: number;                 // sum of contributions in points, before rounding and clamping
+  score: number;               // the claim's trustScore
+  sourceCount: number;
+  // Changes made after the formula, in order (from is null for a fixed score)
+  adjustments: Array<{ reason: string; from: number | null; to: number }>;
+}
+
+// How aggregateTrustScore was computed from the claims
+export interface AggregateBreakdown {
+  method: "mean";
+  claims: Array<{ claimId: string; trustScore: number }>;
+  score: number;
+}
+
 export interface Claim {
   id: string;
   text: string;
-  verdict: "likely_true" | "mixed" | "likely_misleading" | "unable_to_verify";
+  // "satire": the claim comes from a satire outlet and was not fact-checked as news
+  verdict: "likely_true" | "mixed" | "likely_misleading" | "unable_to_verify" | "satire";
   trustScore: number;          // 0-100
   explanation: string;
   sources: Source[];
   biasSignals: BiasSignals;
   modelVerdicts: ModelVerdict[];  // Real multi-model consensus (not fake)
+  origin?: ClaimOrigin;        // set when the claim traces back to satire or a fabricator
+  factCheckRatings?: FactCheckRating[];  // ClaimReview ratings from fact-checker sources, best match first
+  scoreBreakdown: ScoreBreakdown;        // why trustScore is what it is
+  sourceImages?: number[];     // multi-image runs: indexes into AnalysisResult.images the claim was read from
+  quoted?: boolean;            // from a quoted post or another author, not the poster's own words
+}
+
+// One screenshot of a multi-image run (a thread or a scrolling capture)
+export interface SourceImage {
+  index: number;
+  imageUrl: string;
+  ocrText: string;
+}
+
+// A line of the merged OCR text and the image(s) it was read from;
+// lines repeated where consecutive screenshots overlap list both
+export interface OcrLine {
+  text: string;
+  images: number[];
+}
+
+export type SocialPlatform = "twitter" | "reddit" | "instagram" | "tiktok" | "facebook" | "news" | "unknown";
+
+export interface PostAuthor {
+  displayName?: string;
+  handle?: string;             // "@dailyplanet", "u/someone"
+  verified?: boolean;          // a verification badge was read next to the name
+}
+
+export interface EngagementCounts {
+  replies?: number;
+  reposts?: number;            // retweets, reposts
+  quotes?: number;
+  likes?: number;
+  views?: number;
+  bookmarks?: number;
+  comments?: number;
+  shares?: number;
+  upvotes?: number;            // upvotes, points
+}
+
+export interface LinkPreview {
+  domain: string;
+  title?: string;
+}
+
+export interface QuotedPost {
+  author?: PostAuthor;
+  postedAtText?: string;
+  body: string;
+}
+
+// The post reconstructed from the OCR text (see lib/screenshotMetadata.ts)
+export interface ScreenshotMetadata {
+  platform: SocialPlatform;
+  author?: PostAuthor;
+  postedAt?: string;           // YYYY-MM-DD, when the screenshot shows a full date
+  postedAtText?: string;       // the timestamp as shown: "Mar 3, 2023", "2h"
+  body: string;                // the post's own text, without UI chrome or the quoted post
+  quotedPost?: QuotedPost;
+  linkPreview?: LinkPreview;
+  engagement?: EngagementCounts;
+}
+
+export type ImageFormat = "jpeg" | "png" | "webp" | "gif" | "unknown";
+
+export type IntegrityIndicatorKind =
+  | "editing_software"         // the metadata names an image editor
+  | "edit_history"             // XMP records saves or derivations in an editor
+  | "camera_metadata"          // camera tags: a photo (of a screen?), not a screen capture
+  | "date_mismatch"            // modified well after it was created
+  | "thumbnail_mismatch"       // the embedded EXIF thumbnail shows another crop or content
+  | "recompressed"             // lossy re-encoding; screenshots are captured losslessly
+  | "double_compression"       // saved as JPEG at least twice, at different qualities
+  | "error_level"              // regions whose error level stands out from similar content
+  | "font_inconsistency";      // text rendered differently from the lines around it
+
+// Pixels, from the top-left corner of the image
+export interface ImageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface IntegrityIndicator {
+  kind: IntegrityIndicatorKind;
+  severity: "info" | "warning";
+  detail: string;
+  regions?: ImageRegion[];
+}
+
+// What the file's own metadata (EXIF, XMP, PNG text chunks) says about it
+export interface ImageFileMetadata {
+  software?: string;
+  make?: string;               // camera maker and model
+  model?: string;
+  createdAt?: string;          // ISO 8601 without a time zone, as recorded
+  modifiedAt?: string;
+  editHistory?: string[];      // XMP history: "saved (Adobe Photoshop 24.1)"
+  comment?: string;
+}
+
+// Local forensics for one image (see lib/imageForensics.ts)
+export interface ImageIntegrityReport {
+  index: number;               // indexes into AnalysisResult.images for multi-image runs, else 0
+  format: ImageFormat;
+  width?: number;
+  height?: number;
+  decoded: boolean;            // the pixel checks (error level, text rendering) ran
+  pixelArea?: ImageRegion;     // the part of the image the pixel checks covered
+  metadata: ImageFileMetadata;
+  jpegQuality?: number;        // 1-100, estimated from the quantization tables
+  indicators: IntegrityIndicator[];
+  score: number;               // 0-1
+}
+
+// Edit indicators for the screenshot(s) — reported beside the claims, never part of their verdicts
+export interface ImageIntegrity {
+  level: "none" | "low" | "medium" | "high";
+  score: number;               // 0-1, the most suspicious image's
+  summary: string;
+  images: ImageIntegrityReport[];
+}
+
+// An earlier analysis of a near-identical image (see lib/perceptualHash)
+export interface PreviousAnalysis {
+  jobId: string;
+  jobUrl?: string;             // /api/job/<id>, when the earlier analysis ran as a job
+  imageUrl: string;            // the earlier copy of the image
+  imageIndex: number;          // which of this analysis' images it matches (0 for a single screenshot)
+  distance: number;            // differing perceptual-hash bits, of 256
+  analyzedAt: string;
+  trustLabel: string;
+  aggregateTrustScore: number;
+  claims: Array<Pick<Claim, "text" | "verdict">>;
 }
 
 export interface AnalysisResult {
   jobId: string;
   imageUrl: string;
   ocrText: string;
+  metadata: ScreenshotMetadata;  // who posted what and when, read from ocrText
   claims: Claim[];
   aggregateTrustScore: number; // 0-100
+  aggregateBreakdown: AggregateBreakdown;
   trustLabel: string;          // "Likely True" | "Unverified / Mixed" | "Likely Misleading"
+  scoreProfile: { id: string; version: number };  // the weighting profile used (config/scoreProfiles.json)
+  biasSignals: BiasSignals;    // the post as a whole; each claim carries its own
+  images?: SourceImage[];      // multi-image runs: each screenshot and its own OCR, in reading order
+  ocrLines?: OcrLine[];        // multi-image runs: the lines of ocrText with their image(s)
+  imageIntegrity?: ImageIntegrity;  // local edit indicators for the screenshot(s); absent for text analyses
+  previouslySeen?: PreviousAnalysis[];  // earlier analyses of the same image, even cropped or re-encoded; closest first
   summary: string;             // one-paragraph quick summary
   generatedAt: string;
+  cached?: boolean;            // served from the result cache (see lib/resultCache)
+  cachedAt?: string;           // when the cached result was stored
 }
 
+// Pipeline stages reported while an async job runs (in order)
+export type AnalysisStage =
+  | "ocr"
+  | "claim_extraction"
+  | "search"
+  | "evidence"
+  | "verification"
+  | "bias"
+  | "synthesis";
+
 export interface JobStatus {
   status: "pending" | "processing" | "completed" | "error";
+  stage?: AnalysisStage;       // current pipeline stage while processing
   progress?: string;           // human-readable progress text
+  imageUrl?: string;           // set by /api/upload so the job can be started later
+  imageUrls?: string[];        // multi-image jobs: every screenshot, in reading order (imageUrl is the first)
+  perceptualHashes?: Array<string | null>;  // per image (see lib/perceptualHash); null if it could not be decoded
+  createdAt?: string;
+  updatedAt?: string;
   result?: AnalysisResult;
   error?: string;
 }
 
+// Live events pushed over /api/job/[id]/stream while analyzeImage runs
+export type AnalysisEvent =
+  | { type: "ocr_completed"; ocrText: string; metadata: ScreenshotMetadata }
+  | { type: "claims_extracted"; claims: Array<{ id: string; text: string; quoted?: boolean; sourceImages?: number[] }> }
+  | { type: "claim_sources_found"; claimId: string; sources: Source[] }
+  // "agrees" is only known once every model has reported — see the result event
+  | { type: "claim_verified"; claimId: string; modelVerdict: Omit<ModelVerdict, "agrees"> }
+  | { type: "bias_completed"; biasSignals: BiasSignals; claims: Array<{ claimId: string; biasSignals: BiasSignals }> }
+  | { type: "result"; result: AnalysisResult }
+  | { type: "error"; error: string };
+
+export type AnalysisEventListener = (event: AnalysisEvent) => void;
+
 export interface ChatMessage {
   role: "user" | "assistant";
   content: string;
@@ -0,0 +1,96 @@
+// ──────────────────────────────────────────────
+//  Verifier panel — which models verify each claim
+//  Defined in config/verifiers.json (provider, model, weight,
+//  enabled) plus quorum rules. VERIFIER_PANEL may hold a JSON
+//  override with the same shape (e.g. per deployment).
+//  Consensus over the panel's votes lives in ./consensus.
+// ──────────────────────────────────────────────
+
+import panelConfig from "../config/verifiers.json";
+
+export interface VerifierModel {
+  id: string;
+  displayName: string;         // shown in ModelVerdict.modelName; also names the Backboard assistant
+  provider: string;            // "openai", "anthropic", "openrouter", …
+  model: string;
+  weight: number;              // vote weight, > 0
+  enabled: boolean;
+}
+
+export interface QuorumRules {
+  minModels: number;           // at least this many models must answer…
+  minWeightFraction: number;   // …carrying at least this share of the enabled panel's weight
+}
+
+export interface VerifierPanel {
+  version: number;
+  quorum: QuorumRules;
+  models: VerifierModel[];
+}
+
+function validatePanel(raw: any, origin: string): VerifierPanel {
+  if (!raw || !Array.isArray(raw.models)) {
+    throw new Error(`Verifier panel (${origin}) needs a "models" array`);
+  }
+  const models: VerifierModel[] = raw.models.map((m: any, i: number) => {
+    if (!m?.provider || !m?.model) {
+      throw new Error(`Verifier panel (${origin}) model #${i + 1} needs "provider" and "model"`);
+    }
+    const weight = typeof m.weight === "number" ? m.weight : 1;
+    if (!(weight > 0)) {
+      throw new Error(`Verifier panel (${origin}) model "${m.model}" has invalid weight ${m.weight}`);
+    }
+    return {
+      id: String(m.id || m.model),
+      displayName: String(m.displayName || m.model),
+      provider: String(m.provider),
+      model: String(m.model),
+      weight,
+      enabled: m.enabled !== false,
+    };
+  });
+
+  const ids = new Set<string>();
+  for (const m of models) {
+    if (ids.has(m.id)) throw new Error(`Verifier panel (${origin}) has duplicate model id "${m.id}"`);
+    ids.add(m.id);
+  }
+  if (!models.some((m) => m.enabled)) {
+    throw new Error(`Verifier panel (${origin}) has no enabled models`);
+  }
+
+  return {
+    version: typeof raw.version === "number" ? raw.version : 1,
+    quorum: {
+      minModels: Math.max(1, Math.floor(raw.quorum?.minModels ?? 1)),
+      minWeightFraction: Math.max(0, Math.min(1, raw.quorum?.minWeightFraction ?? 0.5)),
+    },
+    models,
+  };
+}
+
+let panel: VerifierPanel | null = null;
+
+export function getVerifierPanel(): VerifierPanel {
+  if (panel) return panel;
+  const override = process.env.VERIFIER_PANEL;
+  if (override) {
+    try {
+      panel = validatePanel(JSON.parse(override), "VERIFIER_PANEL");
+    } catch (err: any) {
+      console.error(`[VerifierPanel] Ignoring VERIFIER_PANEL: ${err.message}`);
+    }
+  }
+  if (!panel) panel = validatePanel(panelConfig, "config/verifiers.json");
+  console.log(`[VerifierPanel] ${panel.models.filter((m) => m.enabled).map((m) => `${m.displayName}×${m.weight}`).join(", ")}`);
+  return panel;
+}
+
+/** Swap the panel (tests, or callers that build one from explicit config). */
+export function setVerifierPanel(next: VerifierPanel | null): void {
+  panel = next ? validatePanel(next, "setVerifierPanel") : null;
+}
+
+export function enabledVerifiers(): VerifierModel[] {
+  return getVerifierPanel().models.filter((m) => m.enabled);
+}
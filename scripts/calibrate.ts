@@ -0,0 +1,105 @@
+// ──────────────────────────────────────────────
+//  Calibration runner
+//    npm run calibrate -- benchmarks/sample.json [--live] [--profile science] [--out report.json]
+//
+//  Replay (default): each case is answered from its test fixture —
+//  offline and deterministic; cases without a fixture are skipped.
+//  --live: every case calls the real APIs (needs the usual keys and
+//  costs ~12 LLM calls per case). Metrics: lib/calibration.ts.
+// ──────────────────────────────────────────────
+
+import { promises as fs } from "fs";
+import path from "path";
+import { analyzeImage, analyzeText, AnalyzeOptions } from "../lib/analyzer";
+import {
+  Benchmark,
+  BenchmarkCase,
+  CalibrationReport,
+  CalibrationSample,
+  calibrationReport,
+  formatCalibrationReport,
+  matchClaims,
+  validateBenchmark,
+} from "../lib/calibration";
+import { getScoreProfile } from "../lib/scoreProfiles";
+import { AnalysisResult } from "../lib/types";
+import { withFixture } from "../test/support/env";
+
+export interface CalibrationRunOptions {
+  live?: boolean;
+  profile?: string;            // overrides the default; a case's own profile wins
+}
+
+async function runCase(benchmarkCase: BenchmarkCase, options: CalibrationRunOptions): Promise<AnalysisResult | null> {
+  const analyzeOptions: AnalyzeOptions = {
+    bypassCache: true,
+    ...(benchmarkCase.profile || options.profile ? { profile: benchmarkCase.profile || options.profile } : {}),
+  };
+  const jobId = `calibrate-${benchmarkCase.id}`;
+  const analyze = () =>
+    benchmarkCase.image
+      ? analyzeImage(benchmarkCase.image, jobId, undefined, analyzeOptions)
+      : analyzeText(benchmarkCase.text!, jobId, undefined, analyzeOptions);
+
+  try {
+    return options.live ? await analyze() : await withFixture(benchmarkCase.fixture!, analyze);
+  } catch (err: any) {
+    // A failed case still counts: its claims are "missing"
+    console.warn(`[Calibrate] Case "${benchmarkCase.id}" failed: ${err.message}`);
+    return null;
+  }
+}
+
+/** Run every case of the benchmark (one at a time) and score the pipeline against the labels. */
+export async function runBenchmark(benchmark: Benchmark, options: CalibrationRunOptions = {}): Promise<CalibrationReport> {
+  const samples: CalibrationSample[] = [];
+  for (const benchmarkCase of benchmark.cases) {
+    if (!options.live && !benchmarkCase.fixture) {
+      console.warn(`[Calibrate] Skipping "${benchmarkCase.id}": no fixture (use --live)`);
+      continue;
+    }
+    const result = await runCase(benchmarkCase, options);
+    samples.push(...matchClaims(benchmarkCase, result));
+  }
+  return calibrationReport(benchmark.name, samples, getScoreProfile(options.profile).labels);
+}
+
+export async function loadBenchmark(file: string): Promise<Benchmark> {
+  const raw = JSON.parse(await fs.readFile(file, "utf8"));
+  return validateBenchmark(raw, path.basename(file));
+}
+
+function parseArgs(argv: string[]): { file?: string; out?: string } & CalibrationRunOptions {
+  const args: { file?: string; out?: string } & CalibrationRunOptions = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--live") args.live = true;
+    else if (arg === "--profile") args.profile = argv[++i];
+    else if (arg === "--out") args.out = argv[++i];
+    else if (!arg.startsWith("--")) args.file = arg;
+    else throw new Error(`Unknown option ${arg}`);
+  }
+  return args;
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.file) {
+    console.error("Usage: npm run calibrate -- <benchmark.json> [--live] [--profile <id>] [--out <report.json>]");
+    process.exit(2);
+  }
+  const benchmark = await loadBenchmark(args.file);
+  const report = await runBenchmark(benchmark, args);
+  console.log(formatCalibrationReport(report));
+  if (args.out) {
+    await fs.writeFile(args.out, JSON.stringify(report, null, 2) + "\n");
+    console.log(`\nReport written to ${args.out}`);
+  }
+}
+
+if (require.main === module) {
+  main().catch((err: any) => {
+    console.error(`[Calibrate] ${err.message}`);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,91 @@
+// Calibration: benchmark validation, claim matching, metrics and the offline runner.
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import {
+  brierScore,
+  CalibrationSample,
+  confusionMatrix,
+  matchClaims,
+  reliabilityCurve,
+  suggestThresholds,
+  validateBenchmark,
+} from "../lib/calibration";
+import { AnalysisResult } from "../lib/types";
+import { loadBenchmark, runBenchmark } from "../scripts/calibrate";
+
+const sample = (expected: CalibrationSample["expected"], trustScore: number | null, verdict: CalibrationSample["verdict"] = expected): CalibrationSample => ({
+  caseId: "c", claimText: "x", expected, verdict, trustScore,
+});
+
+test("benchmarks need labeled claims and an image or text per case", () => {
+  assert.throws(() => validateBenchmark({ cases: [{ id: "a", claims: [{ text: "x", expected: "likely_true" }] }] }, "b.json"), /"image" or "text"/);
+  assert.throws(() => validateBenchmark({ cases: [{ id: "a", text: "x", claims: [{ text: "x", expected: "true" }] }] }, "b.json"), /"expected"/);
+  const benchmark = validateBenchmark({ cases: [{ text: "post", claims: [{ text: "x", expected: "mixed" }] }] }, "b.json");
+  assert.equal(benchmark.name, "b.json");
+  assert.equal(benchmark.cases[0].id, "case-1");
+});
+
+test("labeled claims are matched to pipeline claims at most once", () => {
+  const result = {
+    claims: [
+      { id: "c1", text: "The council approved a $12 million bike lane budget", verdict: "likely_true", trustScore: 84 },
+      { id: "c2", text: "Commute times will be cut in half", verdict: "likely_misleading", trustScore: 37 },
+    ],
+  } as unknown as AnalysisResult;
+  const samples = matchClaims({
+    id: "bikes",
+    text: "post",
+    claims: [
+      { text: "Commute times cut in half by the bike lanes", expected: "likely_misleading" },
+      { text: "Council approved a $12 million budget for bike lanes", expected: "likely_true" },
+      { text: "The mayor resigned", expected: "likely_true" },
+    ],
+  }, result);
+  assert.deepEqual(samples.map((s) => [s.verdict, s.trustScore]), [["likely_misleading", 37], ["likely_true", 84], ["missing", null]]);
+});
+
+test("confusion matrix, Brier score and reliability curve", () => {
+  const samples = [
+    sample("likely_true", 90),
+    sample("likely_true", 60, "mixed"),
+    sample("likely_misleading", 20),
+    sample("mixed", 50),
+    sample("likely_true", null, "missing"),
+  ];
+  const matrix = confusionMatrix(samples);
+  assert.equal(matrix.likely_true.likely_true, 1);
+  assert.equal(matrix.likely_true.mixed, 1);
+  assert.equal(matrix.likely_true.missing, 1);
+
+  // (0.1² + 0.4² + 0.2²) / 3 — mixed labels and unscored claims are left out
+  assert.equal(brierScore(samples), 0.07);
+  assert.equal(brierScore([sample("mixed", 50)]), null);
+
+  assert.deepEqual(reliabilityCurve([...samples, sample("likely_misleading", 100)], 10).map((b) => [b.from, b.count, b.observed]), [
+    [20, 1, 0], [60, 1, 1], [90, 2, 0.5],
+  ]);
+});
+
+test("suggested thresholds reproduce the labels and stay put when they already do", () => {
+  const samples = [sample("likely_true", 70), sample("likely_true", 80), sample("mixed", 55), sample("likely_misleading", 30)];
+  const fit = suggestThresholds(samples, { likelyTrue: 75, mixed: 40 })!;
+  assert.equal(fit.current.accuracy, 0.75);
+  assert.deepEqual(fit.suggested, { likelyTrue: 70, mixed: 40, accuracy: 1 });
+
+  const agreeing = suggestThresholds([sample("likely_true", 90), sample("likely_misleading", 10)], { likelyTrue: 75, mixed: 40 })!;
+  assert.deepEqual(agreeing.suggested, { likelyTrue: 75, mixed: 40, accuracy: 1 });
+  assert.equal(suggestThresholds([sample("satire", 0)], { likelyTrue: 75, mixed: 40 }), null);
+});
+
+test("runBenchmark: the sample benchmark replays offline from the fixtures", async () => {
+  const benchmark = await loadBenchmark(path.join(__dirname, "..", "benchmarks", "sample.json"));
+  const report = await runBenchmark(benchmark);
+  assert.equal(report.samples, 5);
+  assert.equal(report.missing, 0);
+  assert.equal(report.accuracy, 1);
+  assert.equal(report.confusion.satire.satire, 1);
+  assert.ok(report.brierScore !== null && report.brierScore < 0.1);
+  assert.deepEqual(report.thresholds?.suggested, { likelyTrue: 75, mixed: 40, accuracy: 1 });
+});
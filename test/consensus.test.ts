@@ -0,0 +1,41 @@
+// Weighted-vote consensus: plurality by weight, tie-breaking and quorum.
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { weightedConsensus, WeightedVote } from "../lib/consensus";
+
+const quorum = { minModels: 1, minWeightFraction: 0.5 };
+const vote = (verdict: WeightedVote["verdict"], weight = 1, confidence = 0.5): WeightedVote => ({ verdict, weight, confidence });
+
+test("the verdict with the most weight wins", () => {
+  const result = weightedConsensus([vote("likely_true", 1, 0.9), vote("likely_misleading", 2.5, 0.2)], 3.5, quorum);
+  assert.equal(result.verdict, "likely_misleading");
+  assert.equal(result.agreement.toFixed(3), (2.5 / 3.5).toFixed(3));
+  assert.equal(result.confidence.toFixed(3), ((0.9 + 2.5 * 0.2) / 3.5).toFixed(3));
+});
+
+test("a true/misleading tie is mixed; a hedge defers to a committed verdict", () => {
+  assert.equal(weightedConsensus([vote("likely_true"), vote("likely_misleading")], 2, quorum).verdict, "mixed");
+  assert.equal(weightedConsensus([vote("mixed"), vote("likely_true")], 2, quorum).verdict, "likely_true");
+  assert.equal(weightedConsensus([vote("mixed"), vote("likely_misleading")], 2, quorum).verdict, "likely_misleading");
+  assert.equal(weightedConsensus([vote("mixed"), vote("likely_true"), vote("likely_misleading")], 3, quorum).verdict, "mixed");
+});
+
+test("five models: plurality by count when weights are equal", () => {
+  const votes = [vote("likely_true"), vote("likely_true"), vote("mixed"), vote("likely_misleading"), vote("likely_true")];
+  const result = weightedConsensus(votes, 5, quorum);
+  assert.equal(result.verdict, "likely_true");
+  assert.equal(result.agreement, 0.6);
+});
+
+test("without quorum the claim is unable_to_verify", () => {
+  // 1 of 3 equal-weight models answered: 1/3 of the panel weight < 0.5
+  const result = weightedConsensus([vote("likely_true", 1, 0.9)], 3, quorum);
+  assert.equal(result.quorumMet, false);
+  assert.equal(result.verdict, "unable_to_verify");
+
+  assert.equal(weightedConsensus([], 2, quorum).verdict, "unable_to_verify");
+  assert.equal(weightedConsensus([vote("likely_true")], 1, { minModels: 2, minWeightFraction: 0 }).verdict, "unable_to_verify");
+  // Exactly half the weight meets a 0.5 quorum
+  assert.equal(weightedConsensus([vote("likely_true")], 2, quorum).verdict, "likely_true");
+});
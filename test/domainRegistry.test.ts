@@ -0,0 +1,76 @@
+// Domain registry: parent-domain inheritance, suffix rules and reviewed overrides.
+
+import { test, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { MemoryJobStore } from "../lib/jobStore";
+import {
+  DomainOverride,
+  credibilityForDomain,
+  deleteDomainOverride,
+  lookupDomain,
+  saveDomainOverride,
+  setDomainOverrideStore,
+} from "../lib/domainRegistry";
+
+beforeEach(() => {
+  setDomainOverrideStore(new MemoryJobStore<DomainOverride>());
+});
+
+test("subdomains inherit their parent's entry", () => {
+  const cnn = lookupDomain("edition.cnn.com");
+  assert.equal(cnn.matched, "cnn.com");
+  assert.equal(cnn.origin, "registry");
+  assert.equal(cnn.score, credibilityForDomain("cnn.com"));
+
+  assert.equal(lookupDomain("en.wikipedia.org").matched, "wikipedia.org");
+  assert.equal(lookupDomain("www.reuters.com").domain, "reuters.com");
+});
+
+test("a more specific entry beats its parent", () => {
+  const factCheck = lookupDomain("factcheck.afp.com");
+  assert.equal(factCheck.matched, "factcheck.afp.com");
+  assert.equal(factCheck.category, "fact_checker");
+  assert.equal(lookupDomain("afp.com").category, "wire_service");
+});
+
+test("unknown domains fall back to suffix rules, then the default", () => {
+  const gov = lookupDomain("data.census.gov");
+  assert.equal(gov.origin, "suffix");
+  assert.equal(gov.category, "government");
+
+  assert.equal(lookupDomain("physics.ox.ac.uk").category, "academic");
+
+  const unknown = lookupDomain("some-random-blog.net");
+  assert.equal(unknown.origin, "default");
+  assert.equal(unknown.score, 0.5);
+  assert.equal(unknown.category, "unknown");
+});
+
+test("reviewed overrides apply to the domain and its subdomains until removed", async () => {
+  const before = lookupDomain("news.example-local.com");
+  assert.equal(before.origin, "default");
+
+  await saveDomainOverride({
+    domain: "www.Example-Local.com",
+    reviewedBy: "editor@verifyshot.app",
+    reason: "Local paper of record",
+    score: 0.8,
+    category: "news",
+  });
+
+  const after = lookupDomain("news.example-local.com");
+  assert.equal(after.origin, "override");
+  assert.equal(after.matched, "example-local.com");
+  assert.equal(after.score, 0.8);
+  assert.equal(after.category, "news");
+
+  // Partial overrides keep the registry's other fields
+  await saveDomainOverride({ domain: "cnn.com", reviewedBy: "editor", reason: "test", score: 0.4 });
+  const cnn = lookupDomain("edition.cnn.com");
+  assert.equal(cnn.score, 0.4);
+  assert.equal(cnn.category, "news");
+
+  assert.equal(await deleteDomainOverride("example-local.com"), true);
+  assert.equal(await deleteDomainOverride("example-local.com"), false);
+  assert.equal(lookupDomain("news.example-local.com").origin, "default");
+});
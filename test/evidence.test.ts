@@ -0,0 +1,165 @@
+// Evidence stage: article extraction, publication dates and passage selection.
+
+import { test, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import net from "net";
+import { extractArticle, extractPublishedDate, selectPassages, fetchPage, MAX_PAGE_BYTES, setHostLookup } from "../lib/evidence";
+
+test("article text skips navigation, scripts and footers", () => {
+  const page = extractArticle(`
+    <html><head><title>Budget vote &amp; more</title><script>var x = "<p>not content at all, really not</p>";</script></head>
+    <body><nav><p>Home | World | Business | Markets | Technology | Sports</p></nav>
+    <article><p>The council approved the budget on Thursday by a vote of seven to two.</p>
+    <p>Short.</p></article>
+    <footer><p>Copyright 2023 Example News. All rights reserved worldwide.</p></footer></body></html>`);
+
+  assert.equal(page.title, "Budget vote & more");
+  assert.deepEqual(page.paragraphs, ["The council approved the budget on Thursday by a vote of seven to two."]);
+});
+
+test("publication dates come from meta tags, JSON-LD or <time>", () => {
+  assert.equal(extractPublishedDate(`<meta content="2022-11-08T10:00:00Z" property="article:published_time">`), "2022-11-08");
+  assert.equal(extractPublishedDate(`<script type="application/ld+json">{"datePublished": "2021-06-30"}</script>`), "2021-06-30");
+  assert.equal(extractPublishedDate(`<p>Posted <time datetime="2020-02-29">Feb 29</time></p>`), "2020-02-29");
+  assert.equal(extractPublishedDate(`<p>no date</p>`), null);
+});
+
+test("passages are ranked by overlap with the claim and returned in page order", () => {
+  const passages = selectPassages([
+    "Weather today is sunny with light winds across the region and no rain expected.",
+    "Officials said the new stadium would cost $1.2 billion, paid mostly by the county.",
+    "The county approved the $1.2 billion stadium plan in a 5-4 vote on Tuesday.",
+  ], "The county approved a $1.2 billion stadium", 2);
+
+  assert.deepEqual(passages, [
+    "Officials said the new stadium would cost $1.2 billion, paid mostly by the county.",
+    "The county approved the $1.2 billion stadium plan in a 5-4 vote on Tuesday.",
+  ]);
+});
+
+test("private and non-http URLs are never fetched", async () => {
+  for (const url of ["http://localhost:3000/admin", "http://169.254.169.254/latest/meta-data", "file:///etc/passwd", "http://10.0.0.5/"]) {
+    assert.equal(await fetchPage(url), null);
+  }
+});
+
+// ── Fetching: redirects, DNS and the size cap, against a stubbed fetch ──
+
+const ARTICLE = "<article><p>The council approved the budget on Thursday by a vote of seven to two.</p></article>";
+
+async function withFetch<T>(respond: (url: string) => Response, run: (requested: string[]) => Promise<T>): Promise<T> {
+  const realFetch = globalThis.fetch;
+  const requested: string[] = [];
+  globalThis.fetch = (async (input: any) => {
+    const url = typeof input === "string" ? input : input.url;
+    requested.push(url);
+    return respond(url);
+  }) as typeof fetch;
+  try {
+    return await run(requested);
+  } finally {
+    globalThis.fetch = realFetch;
+  }
+}
+
+const redirect = (location: string) => new Response(null, { status: 302, headers: { location } });
+const html = (body: string) => new Response(body, { headers: { "content-type": "text/html" } });
+
+afterEach(() => setHostLookup(null));
+
+test("redirects are followed hop by hop, each hop checked", async () => {
+  setHostLookup(async (host) => (host === "internal.example.com" ? ["10.1.2.3"] : ["93.184.216.34"]));
+  await withFetch(
+    (url) => ({
+      "https://short.example.com/a": redirect("/b"),
+      "https://short.example.com/b": redirect("https://news.example.com/story"),
+      "https://news.example.com/story": html(ARTICLE),
+      "https://short.example.com/metadata": redirect("http://169.254.169.254/latest/meta-data"),
+      "https://short.example.com/internal": redirect("https://internal.example.com/admin"),
+      "https://short.example.com/loop": redirect("https://short.example.com/loop"),
+    })[url] ?? new Response("missing", { status: 404 }),
+    async (requested) => {
+      const page = await fetchPage("https://short.example.com/a");
+      assert.equal(page?.paragraphs.length, 1);
+      assert.deepEqual(requested.splice(0), ["https://short.example.com/a", "https://short.example.com/b", "https://news.example.com/story"]);
+
+      // A redirect into the private network is never requested
+      assert.equal(await fetchPage("https://short.example.com/metadata"), null);
+      assert.equal(await fetchPage("https://short.example.com/internal"), null);
+      assert.deepEqual(requested.splice(0), ["https://short.example.com/metadata", "https://short.example.com/internal"]);
+
+      assert.equal(await fetchPage("https://short.example.com/loop"), null);
+      assert.equal(requested.length, 6);
+    }
+  );
+});
+
+test("hostnames resolving to private addresses are never fetched", async () => {
+  const addresses: Record<string, string[]> = {
+    "rebind.example.com": ["127.0.0.1"],
+    "mixed.example.com": ["93.184.216.34", "192.168.1.10"],
+    "cgnat.example.com": ["100.64.0.1"],
+    "v6.example.com": ["fd00::1"],
+    "mapped.example.com": ["::ffff:10.0.0.1"],
+    "ietf.example.com": ["192.0.0.8"],
+    "bench.example.com": ["198.19.4.4"],
+    "reserved.example.com": ["240.1.2.3"],
+  };
+  setHostLookup(async (host) => {
+    if (!addresses[host]) throw Object.assign(new Error("not found"), { code: "ENOTFOUND" });
+    return addresses[host];
+  });
+  await withFetch(() => html(ARTICLE), async (requested) => {
+    for (const host of [...Object.keys(addresses), "unknown.example.com"]) {
+      assert.equal(await fetchPage(`https://${host}/`), null, host);
+    }
+    assert.deepEqual(requested, []);
+  });
+});
+
+test("page bodies are read up to MAX_PAGE_BYTES, then the download stops", async () => {
+  setHostLookup(async () => ["93.184.216.34"]);
+  const chunk = new TextEncoder().encode(`<p>${"The council approved the budget on Thursday. ".repeat(1400)}</p>`);
+  let sent = 0;
+  let cancelled = false;
+  const endless = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      sent += chunk.byteLength;
+      controller.enqueue(chunk);
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+  await withFetch(() => new Response(endless, { headers: { "content-type": "text/html" } }), async () => {
+    const page = await fetchPage("https://huge.example.com/");
+    assert.ok(page);
+    assert.ok(page.text.length <= MAX_PAGE_BYTES);
+  });
+  assert.equal(cancelled, true);
+  assert.ok(sent < MAX_PAGE_BYTES + 4 * chunk.byteLength, `${sent} bytes read`);
+});
+
+test("the connection goes to the checked address, never to a second DNS answer", async () => {
+  let lookups = 0;
+  setHostLookup(async () => {
+    lookups++;
+    return ["93.184.216.34"];
+  });
+  // Catch the real fetch's connect: where would it go? (then refuse it, nothing leaves the machine)
+  const connect = net.connect;
+  const connectedTo: string[] = [];
+  (net as any).connect = (options: any) => {
+    options.lookup(options.host, {}, (err: Error | null, address: string) => {
+      connectedTo.push(err ? `error: ${err.message}` : address);
+    });
+    return connect({ host: "127.0.0.1", port: 9 });
+  };
+  try {
+    assert.equal(await fetchPage("http://news.example.com/story", 2000), null);
+  } finally {
+    (net as any).connect = connect;
+  }
+  assert.deepEqual(connectedTo, ["93.184.216.34"]);
+  assert.equal(lookups, 1);
+});
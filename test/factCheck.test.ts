@@ -0,0 +1,77 @@
+// ClaimReview parsing, rating mapping, claim matching and verdict anchoring.
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { extractJsonLd, PageCache } from "../lib/evidence";
+import { anchoringFactCheck, claimMatchScore, findClaimReviews, gatherFactChecks, mapRating } from "../lib/factCheck";
+import { FactCheckRating, Source } from "../lib/types";
+
+const SNOPES_HTML = `<html><head>
+<script type="application/ld+json">{ broken json </script>
+<script type="application/ld+json">[
+  { "@type": "WebPage", "name": "Fact check" },
+  { "@type": ["ClaimReview"], "author": { "name": "Snopes" }, "datePublished": "2024-05-01T10:00:00Z",
+    "claimReviewed": "Drinking coffee cures the flu.",
+    "reviewRating": { "alternateName": "Pants on Fire!", "ratingValue": 0 } }
+]</script></head><body><p>…</p></body></html>`;
+
+function rating(overrides: Partial<FactCheckRating>): FactCheckRating {
+  return {
+    publisher: "PolitiFact", url: "https://www.politifact.com/x", claimReviewed: "x", rating: "False",
+    verdict: "likely_misleading", strong: true, matchScore: 0.9, ...overrides,
+  };
+}
+
+test("ClaimReview nodes are found in arrays and @graph, skipping malformed blocks", () => {
+  const reviews = findClaimReviews(extractJsonLd(SNOPES_HTML));
+  assert.equal(reviews.length, 1);
+  assert.equal(reviews[0].claimReviewed, "Drinking coffee cures the flu.");
+
+  const graph = findClaimReviews([{ "@graph": [{ "@type": "NewsArticle" }, { "@type": "ClaimReview", claimReviewed: "y" }] }]);
+  assert.equal(graph.length, 1);
+});
+
+test("publisher labels and numeric ratings map onto the verdict scale", () => {
+  assert.deepEqual(mapRating({ alternateName: "Pants on Fire!" }), { label: "Pants on Fire!", verdict: "likely_misleading", strong: true });
+  assert.deepEqual(mapRating({ alternateName: "Mostly True" }), { label: "Mostly True", verdict: "likely_true", strong: false });
+  assert.equal(mapRating({ alternateName: "Half True" })?.verdict, "mixed");
+  // Unknown label: fall back to the position on the numeric scale
+  assert.deepEqual(mapRating({ alternateName: "Four Pinocchios", ratingValue: "1", bestRating: "5", worstRating: "1" }),
+    { label: "Four Pinocchios", verdict: "likely_misleading", strong: true });
+  assert.equal(mapRating({ ratingValue: 4, bestRating: 5, worstRating: 1 })?.verdict, "likely_true");
+  assert.equal(mapRating({ alternateName: "Interesting" }), null);
+});
+
+test("claim matching scores the overlap of content terms", () => {
+  assert.equal(claimMatchScore("Drinking coffee cures the flu, doctors say", "Drinking coffee cures the flu."), 1);
+  assert.ok(claimMatchScore("The mayor cut the transit budget", "Drinking coffee cures the flu.") < 0.2);
+});
+
+test("gatherFactChecks reads ClaimReview only from fact-checker sources", async () => {
+  const pages: PageCache = new Map([
+    ["https://www.snopes.com/fact-check/coffee-flu/", Promise.resolve({
+      title: "", text: "", paragraphs: [], publishedAt: null, publishedAtConfidence: "none", structuredData: extractJsonLd(SNOPES_HTML),
+    })],
+  ]);
+  const sources: Source[] = [
+    { title: "Coffee and the flu", url: "https://www.snopes.com/fact-check/coffee-flu/", domain: "snopes.com", date: "2024-05-01", dateConfidence: "high", credibilityScore: 0.88, category: "fact_checker", snippet: "" },
+    // Not a fact-checker: never fetched (the page cache has no entry and fetch is not stubbed)
+    { title: "Blog", url: "http://localhost/blog", domain: "localhost", date: "2024-05-01", dateConfidence: "high", credibilityScore: 0.5, category: "unknown", snippet: "" },
+  ];
+
+  const [first, ...rest] = await gatherFactChecks("Coffee cures the flu", sources, pages);
+  assert.equal(rest.length, 0);
+  assert.equal(first.publisher, "Snopes");
+  assert.equal(first.rating, "Pants on Fire!");
+  assert.equal(first.verdict, "likely_misleading");
+  assert.equal(first.reviewDate, "2024-05-01");
+  assert.equal(first.url, "https://www.snopes.com/fact-check/coffee-flu/");
+  assert.equal(first.matchScore, 1);
+});
+
+test("only a strong, matching, uncontested fact-check anchors the verdict", () => {
+  assert.equal(anchoringFactCheck([rating({ strong: false })]), null);
+  assert.equal(anchoringFactCheck([rating({ matchScore: 0.3 })]), null);
+  assert.equal(anchoringFactCheck([rating({}), rating({ publisher: "Snopes", verdict: "likely_true" })]), null);
+  assert.equal(anchoringFactCheck([rating({}), rating({ publisher: "Snopes", matchScore: 0.2, verdict: "likely_true" })])?.publisher, "PolitiFact");
+});
@@ -0,0 +1,238 @@
+// Image integrity: file metadata, JPEG quality and earlier saves, error levels and text rendering on synthetic screenshots.
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { decode, encode } from "jpeg-js";
+import { PNG } from "pngjs";
+import { imageIntegrity, inspectImage } from "../lib/imageForensics";
+import { ImageRegion } from "../lib/types";
+
+// ── Synthetic screenshots: lines of glyph-like strokes over a photo ──
+
+interface Raster {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    return seed / 0x7fffffff;
+  };
+}
+
+function setGrey(r: Raster, x: number, y: number, v: number): void {
+  const p = (y * r.width + x) * 4;
+  r.data[p] = r.data[p + 1] = r.data[p + 2] = v;
+}
+
+// A glyph: one or two vertical strokes with anti-aliased edges on a baseline
+function glyph(r: Raster, x: number, y: number, rand: () => number, stroke: number): number {
+  const width = 6 + Math.floor(rand() * 3);
+  const strokes = 1 + Math.floor(rand() * 2);
+  for (let s = 0; s < strokes; s++) {
+    const sx = x + s * (width - stroke);
+    for (let yy = y + (rand() < 0.3 ? 0 : 3); yy < y + 12; yy++) {
+      for (let k = 0; k < stroke; k++) setGrey(r, sx + k, yy, 30);
+      setGrey(r, sx - 1, yy, 200);
+      setGrey(r, sx + stroke, yy, 200);
+    }
+  }
+  for (let xx = x; xx < x + width; xx++) setGrey(r, xx, y + 11, 30);
+  return width;
+}
+
+function textLine(r: Raster, y: number, rand: () => number, opts: { stroke?: number; spacedWord?: number } = {}): void {
+  for (let x = 20, word = 0; x < r.width - 80; word++) {
+    const letters = 4 + Math.floor(rand() * 4);
+    const gap = word === opts.spacedWord ? 8 : 4;
+    for (let i = 0; i < letters; i++) x += glyph(r, x, y, rand, opts.stroke ?? 2) + gap;
+    x += 12;
+  }
+}
+
+function screenshot(opts: { line?: number; stroke?: number; spacedWord?: number } = {}): Raster {
+  const rand = random(1);
+  const r: Raster = { width: 480, height: 400, data: new Uint8Array(480 * 400 * 4).fill(255) };
+  for (let i = 0; i < 8; i++) textLine(r, 20 + i * 18, rand, i === opts.line ? opts : {});
+  for (let y = 180; y < 380; y++) {
+    for (let x = 20; x < 460; x++) {
+      const v = 128 + 60 * Math.sin(x / 9) * Math.cos(y / 13) + 20 * (rand() - 0.5);
+      const p = (y * r.width + x) * 4;
+      r.data[p] = Math.max(0, Math.min(255, v + 20));
+      r.data[p + 1] = Math.max(0, Math.min(255, v));
+      r.data[p + 2] = Math.max(0, Math.min(255, v - 20));
+    }
+  }
+  return r;
+}
+
+const toJpeg = (r: Raster, quality: number): Buffer => encode({ width: r.width, height: r.height, data: r.data }, quality).data;
+const fromJpeg = (image: Buffer): Raster => decode(image, { useTArray: true, formatAsRGBA: true });
+
+function toPng(r: Raster): Buffer {
+  const png = new PNG({ width: r.width, height: r.height });
+  png.data.set(r.data);
+  return PNG.sync.write(png);
+}
+
+// ── Metadata containers ──
+
+function crc32(bytes: Buffer): number {
+  let c = ~0;
+  for (const b of bytes) {
+    c ^= b;
+    for (let k = 0; k < 8; k++) c = (c >>> 1) ^ (0xedb88320 & -(c & 1));
+  }
+  return ~c >>> 0;
+}
+
+// A PNG text chunk, right after IHDR
+function withPngText(png: Buffer, keyword: string, text: string): Buffer {
+  const body = Buffer.concat([Buffer.from("tEXt", "latin1"), Buffer.from(`${keyword}\0${text}`, "latin1")]);
+  const chunk = Buffer.alloc(body.length + 8);
+  chunk.writeUInt32BE(body.length - 4, 0);
+  body.copy(chunk, 4);
+  chunk.writeUInt32BE(crc32(body), body.length + 4);
+  return Buffer.concat([png.subarray(0, 33), chunk, png.subarray(33)]);
+}
+
+// An APPn segment, right after SOI
+function withJpegSegment(jpeg: Buffer, marker: number, payload: Buffer): Buffer {
+  const head = Buffer.from([0xff, marker, 0, 0]);
+  head.writeUInt16BE(payload.length + 2, 2);
+  return Buffer.concat([jpeg.subarray(0, 2), head, payload, jpeg.subarray(2)]);
+}
+
+// A little-endian TIFF with ASCII tags in IFD0 and the Exif IFD
+function exifPayload(ifd0: Record<number, string>, exif: Record<number, string>): Buffer {
+  const ifd0Size = 2 + 12 * (Object.keys(ifd0).length + 1) + 4;
+  const exifOffset = 8 + ifd0Size;
+  let dataOffset = exifOffset + 2 + 12 * Object.keys(exif).length + 4;
+  const head = Buffer.alloc(dataOffset);
+  const values: Buffer[] = [];
+  head.write("II", 0, "latin1");
+  head.writeUInt16LE(42, 2);
+  head.writeUInt32LE(8, 4);
+  const writeIfd = (at: number, tags: Record<number, string>, pointer?: number) => {
+    const entries = Object.entries(tags);
+    head.writeUInt16LE(entries.length + (pointer ? 1 : 0), at);
+    let e = at + 2;
+    for (const [tag, value] of entries) {
+      const bytes = Buffer.from(`${value}\0`, "latin1");
+      head.writeUInt16LE(Number(tag), e);
+      head.writeUInt16LE(2, e + 2);
+      head.writeUInt32LE(bytes.length, e + 4);
+      head.writeUInt32LE(dataOffset, e + 8);
+      values.push(bytes);
+      dataOffset += bytes.length;
+      e += 12;
+    }
+    if (pointer) {
+      head.writeUInt16LE(0x8769, e);
+      head.writeUInt16LE(4, e + 2);
+      head.writeUInt32LE(1, e + 4);
+      head.writeUInt32LE(pointer, e + 8);
+    }
+  };
+  writeIfd(8, ifd0, exifOffset);
+  writeIfd(exifOffset, exif);
+  return Buffer.concat([Buffer.from("Exif\0\0", "latin1"), head, ...values]);
+}
+
+const overlaps = (a: ImageRegion, b: ImageRegion) =>
+  a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+// ── Tests ──
+
+test("a lossless screenshot with no metadata shows no signs of editing", () => {
+  const integrity = imageIntegrity([toPng(screenshot())]);
+  assert.equal(integrity.level, "none");
+  assert.equal(integrity.summary, "No signs of editing were found.");
+  const [report] = integrity.images;
+  assert.equal(report.format, "png");
+  assert.equal(report.decoded, true);
+  assert.deepEqual(report.pixelArea, { x: 0, y: 0, width: 480, height: 400 });
+  assert.deepEqual(report.indicators, []);
+});
+
+test("file metadata: editing software, XMP history, camera tags and dates", () => {
+  const xmp = Buffer.from(
+    "http://ns.adobe.com/xap/1.0/\0<x:xmpmeta><rdf:RDF><rdf:Description xmp:CreatorTool=\"Adobe Photoshop 24.1 (Macintosh)\">" +
+      "<xmpMM:History><rdf:Seq><rdf:li stEvt:action=\"created\" stEvt:softwareAgent=\"Adobe Photoshop 24.1\"/>" +
+      "<rdf:li stEvt:action=\"saved\" stEvt:softwareAgent=\"Adobe Photoshop 24.1\"/></rdf:Seq></xmpMM:History></rdf:Description></rdf:RDF></x:xmpmeta>",
+    "utf8"
+  );
+  let jpeg = toJpeg(screenshot(), 90);
+  jpeg = withJpegSegment(jpeg, 0xe1, xmp);
+  jpeg = withJpegSegment(jpeg, 0xe1, exifPayload(
+    { 0x010f: "Apple", 0x0110: "iPhone 13", 0x0131: "Adobe Photoshop 24.1 (Macintosh)", 0x0132: "2023:03:04 09:00:00" },
+    { 0x9003: "2023:03:03 10:15:00" }
+  ));
+
+  const report = inspectImage(jpeg);
+  assert.deepEqual(report.metadata, {
+    make: "Apple",
+    model: "iPhone 13",
+    software: "Adobe Photoshop 24.1 (Macintosh)",
+    modifiedAt: "2023-03-04T09:00:00",
+    createdAt: "2023-03-03T10:15:00",
+    editHistory: ["created (Adobe Photoshop 24.1)", "saved (Adobe Photoshop 24.1)"],
+  });
+  assert.deepEqual(report.indicators.map((i) => [i.kind, i.severity]), [
+    ["editing_software", "warning"],
+    ["edit_history", "warning"],
+    ["camera_metadata", "info"],
+    ["date_mismatch", "info"],
+    ["recompressed", "info"],
+  ]);
+  assert.equal(imageIntegrity([jpeg]).level, "high");
+
+  const png = inspectImage(withPngText(toPng(screenshot()), "Software", "GIMP 2.10.34"));
+  assert.equal(png.metadata.software, "GIMP 2.10.34");
+  assert.equal(png.decoded, true);
+  assert.deepEqual(png.indicators.map((i) => i.kind), ["editing_software"]);
+});
+
+test("JPEG: the quality is read from the quantization tables, and an earlier save shows as a ghost", () => {
+  const once = inspectImage(toJpeg(screenshot(), 75));
+  assert.equal(once.jpegQuality, 75);
+  assert.deepEqual(once.indicators.map((i) => i.kind), ["recompressed"]);
+
+  const twice = inspectImage(toJpeg(fromJpeg(toJpeg(screenshot(), 60)), 90));
+  assert.equal(twice.jpegQuality, 90);
+  const ghost = twice.indicators.find((i) => i.kind === "double_compression");
+  assert.match(ghost?.detail ?? "", /quality ~(55|60) before its current save at ~90/);
+});
+
+test("error level: text pasted in after an earlier save stands out", () => {
+  const edited = fromJpeg(toJpeg(screenshot(), 70));
+  const pasted = { x: 240, y: 100, width: 220, height: 40 };
+  for (let y = pasted.y; y < pasted.y + pasted.height; y++) for (let x = pasted.x; x < pasted.x + pasted.width; x++) setGrey(edited, x, y, 255);
+  textLine(edited, 110, random(9));
+
+  const report = inspectImage(toJpeg(edited, 90));
+  const errorLevel = report.indicators.find((i) => i.kind === "error_level");
+  assert.ok(errorLevel, JSON.stringify(report.indicators));
+  assert.ok(errorLevel.regions!.some((r) => overlaps(r, pasted)));
+  assert.ok(errorLevel.regions!.every((r) => r.y + r.height > 90 && r.y < 150), JSON.stringify(errorLevel.regions));
+});
+
+test("text rendering: a heavier line and a word spaced unlike its line", () => {
+  const bold = inspectImage(toPng(screenshot({ line: 3, stroke: 4 }))).indicators;
+  assert.deepEqual(bold.map((i) => i.kind), ["font_inconsistency"]);
+  assert.match(bold[0].detail, /heavier strokes/);
+  assert.deepEqual(bold[0].regions?.map((r) => r.y), [74]);
+
+  const spaced = inspectImage(toPng(screenshot({ line: 3, spacedWord: 1 }))).indicators;
+  assert.match(spaced[0]?.detail ?? "", /a word spaced unlike its line/);
+  assert.deepEqual(spaced[0].regions, [{ x: 111, y: 74, width: 99, height: 12 }]);
+});
+
+test("unreadable bytes are reported, not thrown", () => {
+  const integrity = imageIntegrity([Buffer.from("iVBORw0KGgoAAAANSUhEUg==", "base64"), Buffer.from("not an image")]);
+  assert.deepEqual(integrity.images.map((r) => [r.index, r.format, r.decoded]), [[0, "png", false], [1, "unknown", false]]);
+  assert.equal(integrity.level, "none");
+  assert.equal(integrity.summary, "No signs of editing were found, but only the file's metadata could be checked.");
+});
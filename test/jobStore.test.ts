@@ -0,0 +1,262 @@
+// Job store backends (memory, file, Redis protocol): TTL expiry, list() and namespaces; the job lifecycle helpers.
+
+import { test, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "fs";
+import net from "net";
+import os from "os";
+import path from "path";
+import { FileJobStore } from "../lib/fileJobStore";
+import {
+  createJob,
+  createStore,
+  getJobStatus,
+  JobStore,
+  MemoryJobStore,
+  setJobError,
+  setJobResult,
+  setJobStore,
+  setPerceptualHashes,
+  setProgress,
+  startJob,
+} from "../lib/jobStore";
+import { RedisJobStore } from "../lib/redisJobStore";
+import { AnalysisResult } from "../lib/types";
+
+afterEach(() => setJobStore(null));
+
+// Run `fn` with the clock moved forward by `ms`
+async function later<T>(ms: number, fn: () => Promise<T>): Promise<T> {
+  const realNow = Date.now;
+  Date.now = () => realNow() + ms;
+  try {
+    return await fn();
+  } finally {
+    Date.now = realNow;
+  }
+}
+
+// ── A minimal Redis: GET, SET [EX], DEL, SCAN and MGET over RESP ──
+
+async function fakeRedis(): Promise<{ url: string; stall: (on: boolean) => void; close: () => Promise<void> }> {
+  let stalled = false;
+  const data = new Map<string, { value: string; expiresAt: number | null }>();
+  const live = (key: string) => {
+    const entry = data.get(key);
+    if (entry && entry.expiresAt !== null && entry.expiresAt <= Date.now()) data.delete(key);
+    return data.get(key);
+  };
+  const bulk = (s: string | undefined) => (s === undefined ? "$-1\r\n" : `$${Buffer.byteLength(s)}\r\n${s}\r\n`);
+
+  const reply = ([command, ...args]: string[]): string => {
+    switch (command.toUpperCase()) {
+      case "SET": {
+        const ex = args.indexOf("EX");
+        data.set(args[0], { value: args[1], expiresAt: ex > 0 ? Date.now() + Number(args[ex + 1]) * 1000 : null });
+        return "+OK\r\n";
+      }
+      case "GET":
+        return bulk(live(args[0])?.value);
+      case "DEL":
+        return `:${data.delete(args[0]) ? 1 : 0}\r\n`;
+      case "SCAN": {
+        const prefix = args[args.indexOf("MATCH") + 1].replace(/\*$/, "");
+        const keys = [...data.keys()].filter((k) => k.startsWith(prefix) && live(k));
+        return `*2\r\n${bulk("0")}*${keys.length}\r\n${keys.map(bulk).join("")}`;
+      }
+      case "MGET":
+        return `*${args.length}\r\n${args.map((k) => bulk(live(k)?.value)).join("")}`;
+      default:
+        return `-ERR unknown command '${command}'\r\n`;
+    }
+  };
+
+  const sockets = new Set<net.Socket>();
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    let buffer = "";
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString("utf8");
+      // Commands arrive as arrays of bulk strings
+      for (;;) {
+        const lines = buffer.split("\r\n");
+        if (!lines[0].startsWith("*")) return;
+        const count = parseInt(lines[0].slice(1), 10);
+        if (lines.length < 1 + 2 * count + 1) return;
+        const args = Array.from({ length: count }, (_, i) => lines[2 + 2 * i]);
+        buffer = lines.slice(1 + 2 * count).join("\r\n");
+        if (!stalled) socket.write(reply(args));
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as net.AddressInfo;
+  return {
+    url: `redis://127.0.0.1:${port}`,
+    // A stalled server reads commands but never answers
+    stall: (on) => { stalled = on; },
+    close: () => new Promise((resolve) => {
+      // The store keeps its connection open between commands
+      sockets.forEach((socket) => socket.destroy());
+      server.close(() => resolve());
+    }),
+  };
+}
+
+// ── Backends ──
+
+async function checkBackend(store: JobStore<{ n: number }>, other: JobStore<{ n: number }>): Promise<void> {
+  await store.set("kept", { n: 1 }, 0);
+  await store.set("short", { n: 2 }, 60);
+  await store.set("long", { n: 3 });
+  await other.set("kept", { n: 9 });
+
+  assert.deepEqual(await store.get("short"), { n: 2 });
+  assert.equal(await store.get("missing"), null);
+  assert.deepEqual((await store.list()).map((r) => r.key).sort(), ["kept", "long", "short"]);
+  // Namespaces don't see each other
+  assert.deepEqual(await other.get("kept"), { n: 9 });
+  assert.deepEqual((await other.list()).map((r) => r.key), ["kept"]);
+
+  await later(120_000, async () => {
+    assert.equal(await store.get("short"), null);
+    assert.deepEqual((await store.list()).map((r) => r.key).sort(), ["kept", "long"]);
+  });
+  await store.delete("long");
+  assert.equal(await store.get("long"), null);
+}
+
+test("MemoryJobStore: TTL expiry, list() and shared stores per namespace", async () => {
+  await checkBackend(new MemoryJobStore(3600), new MemoryJobStore(3600));
+
+  const restore = { ...process.env };
+  delete process.env.JOB_STORE;
+  delete process.env.REDIS_URL;
+  try {
+    const a = createStore<{ n: number }>("test-namespace-a");
+    await a.set("k", { n: 1 });
+    assert.deepEqual(await createStore<{ n: number }>("test-namespace-a").get("k"), { n: 1 });
+    assert.equal(await createStore<{ n: number }>("test-namespace-b").get("k"), null);
+  } finally {
+    process.env = restore;
+  }
+});
+
+test("FileJobStore: TTL expiry, list(), namespaces and corrupt records", async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "verifyshot-test-"));
+  try {
+    const store = new FileJobStore<{ n: number }>(dir, "jobs", 3600);
+    await checkBackend(store, new FileJobStore(dir, "other", 3600));
+
+    await fs.writeFile(path.join(dir, "jobs", "broken.json"), "{ not json", "utf8");
+    assert.deepEqual((await store.list()).map((r) => r.key), ["kept"]);
+
+    // Concurrent writes of one key each use their own temp file: none fails, one of them wins
+    await Promise.all([1, 2, 3, 4, 5].map((n) => store.set("busy", { n })));
+    assert.ok([1, 2, 3, 4, 5].includes((await store.get("busy"))!.n));
+    assert.deepEqual((await fs.readdir(path.join(dir, "jobs"))).filter((f) => f.endsWith(".tmp")), []);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("RedisJobStore: TTL expiry, list() and key prefixes per namespace", async () => {
+  const redis = await fakeRedis();
+  try {
+    await checkBackend(new RedisJobStore(redis.url, "jobs", 3600), new RedisJobStore(redis.url, "other", 3600));
+  } finally {
+    await redis.close();
+  }
+});
+
+test("RedisJobStore: a stalled server fails the command and the store reconnects", async () => {
+  const redis = await fakeRedis();
+  try {
+    const store = new RedisJobStore<{ n: number }>(redis.url, "jobs", 3600, 100);
+    await store.set("a", { n: 1 });
+
+    redis.stall(true);
+    const started = Date.now();
+    await assert.rejects(store.get("a"), /Redis GET timed out after 100 ms/);
+    assert.ok(Date.now() - started < 2000);
+    // Commands queued behind the stalled one fail with it
+    await assert.rejects(Promise.all([store.get("a"), store.set("b", { n: 2 })]), /timed out/);
+
+    redis.stall(false);
+    assert.deepEqual(await store.get("a"), { n: 1 });
+  } finally {
+    await redis.close();
+  }
+});
+
+// ── Job lifecycle ──
+
+test("a job goes pending → processing → completed, and starts only once", async () => {
+  setJobStore(new MemoryJobStore());
+  await createJob("job-1", "https://blob.example.com/a.png", ["https://blob.example.com/a.png", "https://blob.example.com/b.png"], ["ab12", null]);
+  const created = await getJobStatus("job-1");
+  assert.equal(created?.status, "pending");
+  assert.deepEqual(created?.imageUrls, ["https://blob.example.com/a.png", "https://blob.example.com/b.png"]);
+  assert.deepEqual(created?.perceptualHashes, ["ab12", null]);
+
+  assert.equal(await startJob("job-1"), true);
+  assert.equal(await startJob("job-1"), false);
+  assert.equal(await startJob("missing"), false);
+
+  await setProgress("job-1", "Extracting claims…", "claim_extraction");
+  const running = await getJobStatus("job-1");
+  assert.equal(running?.status, "processing");
+  assert.equal(running?.stage, "claim_extraction");
+
+  await setJobResult("job-1", { jobId: "job-1", imageUrl: "https://blob.example.com/a.png" } as AnalysisResult);
+  const done = await getJobStatus("job-1");
+  assert.equal(done?.status, "completed");
+  assert.equal(done?.result?.jobId, "job-1");
+  assert.equal(done?.createdAt, created?.createdAt);
+  assert.deepEqual(done?.perceptualHashes, ["ab12", null]);
+});
+
+test("setJobError keeps the stage and later progress is dropped; helpers ignore jobs that don't exist", async () => {
+  setJobStore(new MemoryJobStore());
+  await createJob("job-1", "https://blob.example.com/a.png");
+  await startJob("job-1");
+  await setProgress("job-1", "Searching sources…", "search");
+  await setJobError("job-1", "Analysis timed out after 55 seconds");
+  const failed = await getJobStatus("job-1");
+  assert.equal(failed?.status, "error");
+  assert.equal(failed?.stage, "search");
+  assert.equal(failed?.error, "Analysis timed out after 55 seconds");
+
+  // Progress from the run that timed out doesn't revive the job
+  await setProgress("job-1", "Calculating trust scores…", "synthesis");
+  const still = await getJobStatus("job-1");
+  assert.equal(still?.status, "error");
+  assert.equal(still?.stage, "search");
+
+  await setProgress("missing", "Searching sources…", "search");
+  await setPerceptualHashes("missing", ["ab12"]);
+  assert.equal(await getJobStatus("missing"), null);
+});
+
+test("concurrent updates of one job are applied in order, none lost", async () => {
+  // A store whose reads are slow, so unserialized read-modify-writes would interleave
+  const store = new MemoryJobStore();
+  const get = store.get.bind(store);
+  store.get = async (key) => {
+    const value = await get(key);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    return value;
+  };
+  setJobStore(store);
+  await createJob("job-1", "https://blob.example.com/a.png");
+  await startJob("job-1");
+
+  await Promise.all([
+    setProgress("job-1", "Found sources for 1/2 claim(s), verifying…", "verification"),
+    setPerceptualHashes("job-1", ["ab12"]),
+    setProgress("job-1", "Verified 1/2 claim(s)…", "verification"),
+  ]);
+  const job = await getJobStatus("job-1");
+  assert.deepEqual(job?.perceptualHashes, ["ab12"]);
+  assert.equal(job?.progress, "Verified 1/2 claim(s)…");
+});
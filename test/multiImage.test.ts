@@ -0,0 +1,61 @@
+// Multi-image input: merging overlapping captures, line provenance, and each claim's source images.
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { analyzeImages } from "../lib/analyzer";
+import { mergeImageTexts, sourceImagesFor } from "../lib/multiImage";
+import { AnalysisEvent } from "../lib/types";
+import { withFixture } from "./support/env";
+
+test("overlapping captures are merged once, and the overlap is credited to both images", () => {
+  const merged = mergeImageTexts([
+    "Mayor Lane @mayorlane\nWe approved 12 new bike lanes today.\nConstruction starts in May.",
+    "we approved 12 new  bike lanes today.\nConstruction starts in May.\nThe budget is $12 million.",
+    "Reply\nCommuters will save 10 minutes a day.",
+  ]);
+  assert.equal(
+    merged.text,
+    "Mayor Lane @mayorlane\nWe approved 12 new bike lanes today.\nConstruction starts in May.\nThe budget is $12 million.\nReply\nCommuters will save 10 minutes a day."
+  );
+  assert.deepEqual(merged.lines.map((l) => l.images), [[0], [0, 1], [0, 1], [1], [2], [2]]);
+});
+
+test("short repeated lines are not taken for an overlap", () => {
+  const merged = mergeImageTexts(["First post\nReply", "Reply\nSecond post"]);
+  assert.deepEqual(merged.lines.map((l) => l.text), ["First post", "Reply", "Reply", "Second post"]);
+});
+
+test("claims are traced to the image(s) of the lines they were read from", () => {
+  const { lines } = mergeImageTexts([
+    "City council votes tonight\nThe council approved a $12 million budget",
+    "for new bike lanes on March 2, 2023.\nCommuters will save 10 minutes a day.",
+  ]);
+  // A sentence split across the seam between two captures
+  assert.deepEqual(sourceImagesFor("The council approved a $12 million budget for new bike lanes", lines), [0, 1]);
+  assert.deepEqual(sourceImagesFor("Commuters will save 10 minutes a day", lines), [1]);
+  assert.deepEqual(sourceImagesFor("Unrelated words entirely", lines), []);
+});
+
+test("analyzeImages: a post captured as two screenshots", async () => {
+  const events: AnalysisEvent[] = [];
+  await withFixture("analyze-thread", async (session) => {
+    const result = await analyzeImages(
+      ["https://blob.example.com/thread-1.png", "https://blob.example.com/thread-2.png"],
+      "job-thread",
+      (e) => { events.push(e); },
+      { bypassCache: true }
+    );
+
+    assert.equal(session.requests.filter((r) => r.body?.includes("Extract ALL visible text")).length, 2);
+    assert.deepEqual(result.images?.map((i) => i.imageUrl), ["https://blob.example.com/thread-1.png", "https://blob.example.com/thread-2.png"]);
+    assert.equal(result.imageUrl, "https://blob.example.com/thread-1.png");
+    // The headline and tally were captured twice but appear once
+    assert.equal(result.ocrText.match(/Nation's Cats/g)?.length, 1);
+    assert.deepEqual(result.ocrLines?.map((l) => l.images), [[0], [0, 1], [0, 1], [1], [1], [1]]);
+
+    assert.deepEqual(result.claims.map((c) => c.sourceImages), [[0, 1], [1]]);
+    assert.ok(result.claims.every((c) => c.verdict === "satire"));
+    const extracted = events.find((e) => e.type === "claims_extracted");
+    assert.deepEqual(extracted?.type === "claims_extracted" && extracted.claims.map((c) => c.sourceImages), [[0, 1], [1]]);
+  });
+});
@@ -0,0 +1,243 @@
+// Perceptual hashes: copies of one screenshot match, other posts don't, and analyses link back to earlier copies.
+
+import { test, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { decode, encode } from "jpeg-js";
+import { PNG } from "pngjs";
+import { analyzeImage } from "../lib/analyzer";
+import { decodeImage, inspectImage } from "../lib/imageForensics";
+import { createJob, getJobStatus, MemoryJobStore, setJobStore } from "../lib/jobStore";
+import {
+  DEFAULT_MAX_DISTANCE,
+  findPreviouslySeen,
+  hammingDistance,
+  perceptualHash,
+  rememberAnalysis,
+  SeenImage,
+  setSeenImageStore,
+} from "../lib/perceptualHash";
+import { CachedResult, setResultCacheStore } from "../lib/resultCache";
+import { AnalysisResult } from "../lib/types";
+import { withFixture } from "./support/env";
+
+// ── Synthetic posts: a header, lines of "words" and a photo, on a white page ──
+
+interface Raster {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+function post(seed: number, width = 360, height = 400): Raster {
+  const r: Raster = { width, height, data: new Uint8Array(width * height * 4).fill(255) };
+  const fill = (x0: number, y0: number, w: number, h: number, value: (x: number, y: number) => number) => {
+    for (let y = y0; y < y0 + h; y++) {
+      for (let x = x0; x < x0 + w; x++) {
+        const p = (y * width + x) * 4;
+        r.data[p] = r.data[p + 1] = r.data[p + 2] = value(x, y);
+      }
+    }
+  };
+  let state = seed;
+  const rand = () => (state = (state * 1103515245 + 12345) & 0x7fffffff) / 0x7fffffff;
+
+  fill(20, 20, 40, 40, () => 90);                       // avatar
+  fill(70, 28, 120, 10, () => 40);                      // name
+  for (let line = 0; line < 8; line++) {
+    for (let x = 20; x < width - 60; ) {
+      const word = 15 + Math.floor(rand() * 45);
+      fill(x, 80 + line * 22, Math.min(word, width - 20 - x), 10, () => 30);
+      x += word + 8;
+    }
+  }
+  fill(20, 270, width - 40, 110, (x, y) => 128 + 80 * Math.sin((x + seed * 7) / 17) * Math.cos(y / 23));
+  return r;
+}
+
+const toPng = (r: Raster): Buffer => {
+  const png = new PNG({ width: r.width, height: r.height });
+  png.data.set(r.data);
+  return PNG.sync.write(png);
+};
+const toJpeg = (r: Raster, quality: number): Buffer => encode({ width: r.width, height: r.height, data: r.data }, quality).data;
+
+function halfSize(r: Raster): Raster {
+  const width = r.width / 2, height = r.height / 2;
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let c = 0; c < 4; c++) {
+        const at = (dx: number, dy: number) => r.data[((2 * y + dy) * r.width + 2 * x + dx) * 4 + c];
+        data[(y * width + x) * 4 + c] = (at(0, 0) + at(1, 0) + at(0, 1) + at(1, 1)) / 4;
+      }
+    }
+  }
+  return { width, height, data };
+}
+
+// Cut `margin` pixels off every side
+function cropped(r: Raster, margin: number): Raster {
+  const width = r.width - 2 * margin, height = r.height - 2 * margin;
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const from = ((y + margin) * r.width + margin) * 4;
+    data.set(r.data.subarray(from, from + width * 4), y * width * 4);
+  }
+  return { width, height, data };
+}
+
+function analysis(jobId: string, imageUrl: string, trustLabel: string, generatedAt: string): AnalysisResult {
+  return {
+    jobId,
+    imageUrl,
+    generatedAt,
+    trustLabel,
+    aggregateTrustScore: trustLabel === "Likely True" ? 82 : 21,
+    claims: [{ text: "Bus ridership grew 20% in 2023", verdict: trustLabel === "Likely True" ? "likely_true" : "likely_misleading" }],
+  } as AnalysisResult;
+}
+
+beforeEach(() => {
+  setSeenImageStore(new MemoryJobStore<SeenImage>());
+  setResultCacheStore(new MemoryJobStore<CachedResult>());
+  setJobStore(new MemoryJobStore());
+});
+
+// ── Tests ──
+
+test("re-encoded, resized and cropped copies hash alike; other posts do not", () => {
+  const original = post(1);
+  const hash = perceptualHash(toPng(original))!;
+  assert.match(hash, /^[0-9a-f]{64}$/);
+
+  const copies = {
+    jpeg: perceptualHash(toJpeg(original, 60))!,
+    resized: perceptualHash(toPng(halfSize(original)))!,
+    cropped: perceptualHash(toPng(cropped(original, 12)))!,
+  };
+  for (const [copy, copyHash] of Object.entries(copies)) {
+    assert.ok(hammingDistance(hash, copyHash) <= DEFAULT_MAX_DISTANCE, `${copy}: ${hammingDistance(hash, copyHash)} bits`);
+  }
+  for (const seed of [2, 3, 4]) {
+    const other = perceptualHash(toPng(post(seed)))!;
+    assert.ok(hammingDistance(hash, other) > DEFAULT_MAX_DISTANCE, `post ${seed}: ${hammingDistance(hash, other)} bits`);
+  }
+});
+
+test("images that cannot be hashed give null", () => {
+  assert.equal(perceptualHash(Buffer.from("not an image")), null);
+  assert.equal(perceptualHash(Buffer.from("iVBORw0KGgoAAAANSUhEUg==", "base64")), null);
+  const blank: Raster = { width: 64, height: 64, data: new Uint8Array(64 * 64 * 4).fill(255) };
+  assert.equal(perceptualHash(toPng(blank)), null);
+});
+
+test("a decoded image is shared: same hash and forensics as from the bytes", () => {
+  const jpeg = toJpeg(post(1), 70);
+  const decoded = decodeImage(jpeg);
+  assert.equal(perceptualHash(decoded), perceptualHash(jpeg));
+  assert.deepEqual(inspectImage(decoded), inspectImage(jpeg));
+  assert.equal(perceptualHash(decodeImage(Buffer.from("iVBORw0KGgoAAAANSUhEUg==", "base64"))), null);
+});
+
+test("hammingDistance counts differing bits", () => {
+  assert.equal(hammingDistance("00ff", "00ff"), 0);
+  assert.equal(hammingDistance("00ff", "01fe"), 2);
+  assert.equal(hammingDistance("0000", "ffff"), 16);
+  assert.throws(() => hammingDistance("00", "000"), /hashes of 2 and 3/);
+});
+
+test("earlier analyses are found by distance, closest first, one per analysis", async () => {
+  const original = perceptualHash(toPng(post(1)))!;
+  const copy = perceptualHash(toJpeg(halfSize(post(1)), 70))!;
+  const other = perceptualHash(toPng(post(2)))!;
+
+  await createJob("job-a", "https://blob.example.com/a.png");
+  await rememberAnalysis([original], analysis("job-a", "https://blob.example.com/a.png", "Likely True", "2024-03-01T10:00:00.000Z"));
+  await rememberAnalysis([other, copy], analysis("job-b", "https://blob.example.com/b.png", "Likely Misleading", "2024-03-02T10:00:00.000Z"));
+  await rememberAnalysis([other], analysis("job-c", "https://blob.example.com/c.png", "Likely True", "2024-03-03T10:00:00.000Z"));
+
+  const seen = await findPreviouslySeen([null, original], "job-new");
+  assert.deepEqual(seen.map((s) => [s.jobId, s.imageIndex]), [["job-a", 1], ["job-b", 1]]);
+  const [first, second] = seen;
+  assert.equal(first.distance, 0);
+  assert.ok(second.distance > 0 && second.distance <= DEFAULT_MAX_DISTANCE);
+  assert.deepEqual(first, {
+    jobId: "job-a",
+    jobUrl: "/api/job/job-a",
+    imageUrl: "https://blob.example.com/a.png",
+    imageIndex: 1,
+    distance: 0,
+    analyzedAt: "2024-03-01T10:00:00.000Z",
+    trustLabel: "Likely True",
+    aggregateTrustScore: 82,
+    claims: [{ text: "Bus ridership grew 20% in 2023", verdict: "likely_true" }],
+  });
+  // job-b was a synchronous run: nothing to link to
+  assert.equal(second.jobUrl, undefined);
+
+  assert.deepEqual((await findPreviouslySeen([original], "job-a")).map((s) => s.jobId), ["job-b"]);
+  assert.deepEqual(await findPreviouslySeen([original], "job-new", 0).then((s) => s.map((x) => x.jobId)), ["job-a"]);
+  assert.deepEqual(await findPreviouslySeen([null], "job-new"), []);
+});
+
+test("lookups use the band index, never a scan of all records", async () => {
+  const store = new MemoryJobStore<SeenImage>();
+  store.list = async () => { throw new Error("list() called"); };
+  setSeenImageStore(store);
+
+  // Flip the lowest bit of the given 16-bit bands (4 hex digits each)
+  const original = perceptualHash(toPng(post(1)))!;
+  const flipped = (bands: number[]) => original.split("").map((digit, i) =>
+    bands.includes(Math.floor(i / 4)) && i % 4 === 3 ? (parseInt(digit, 16) ^ 1).toString(16) : digit
+  ).join("");
+  await rememberAnalysis([original], analysis("job-a", "https://blob.example.com/a.png", "Likely True", "2024-03-01T10:00:00.000Z"));
+
+  // 15 bits apart, one per band: one band is untouched, so it is always found
+  const near = flipped([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14]);
+  assert.deepEqual((await findPreviouslySeen([near], "job-new")).map((s) => [s.jobId, s.distance]), [["job-a", 15]]);
+  // 16 bits apart with no band in common: within the distance, but out of the index's reach
+  const spread = flipped([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15]);
+  assert.deepEqual(await findPreviouslySeen([spread], "job-new"), []);
+
+  // A failing index is no match, not an error
+  setSeenImageStore(store, Object.assign(new MemoryJobStore<string[]>(), { get: async () => { throw new Error("down"); } }));
+  assert.deepEqual(await findPreviouslySeen([original], "job-new"), []);
+});
+
+test("analyzeImage stores the hash with the job and links a re-encoded copy to the first analysis", async () => {
+  const IMAGE = "https://blob.example.com/screenshot.png";
+  const RECOMPRESSED = "https://blob.example.com/screenshot-recompressed.jpg";
+  const bodies: Record<string, Buffer> = {
+    [IMAGE]: toPng(post(1)),
+    [RECOMPRESSED]: toJpeg(cropped(decode(toJpeg(post(1), 80), { useTArray: true, formatAsRGBA: true }), 6), 65),
+  };
+
+  await withFixture("analyze-bike-lanes", async () => {
+    const replay = globalThis.fetch;
+    globalThis.fetch = (async (input: any, init?: any) => {
+      const body = bodies[typeof input === "string" ? input : input.url];
+      return body ? new Response(body) : replay(input, init);
+    }) as typeof fetch;
+
+    await createJob("job-1", IMAGE);
+    const first = await analyzeImage(IMAGE, "job-1");
+    assert.equal(first.previouslySeen, undefined);
+    const [storedHash] = (await getJobStatus("job-1"))!.perceptualHashes!;
+    assert.equal(storedHash, perceptualHash(bodies[IMAGE]));
+
+    // Same post, other bytes: a fresh run lists the first analysis and its verdicts
+    const copy = await analyzeImage(RECOMPRESSED, "job-2", undefined, { bypassCache: true });
+    assert.equal(copy.previouslySeen?.length, 1);
+    const [earlier] = copy.previouslySeen!;
+    assert.equal(earlier.jobId, "job-1");
+    assert.equal(earlier.jobUrl, "/api/job/job-1");
+    assert.equal(earlier.imageUrl, IMAGE);
+    assert.equal(earlier.trustLabel, first.trustLabel);
+    assert.deepEqual(earlier.claims, first.claims.map(({ text, verdict }) => ({ text, verdict })));
+
+    // A cache hit gets this run's sightings, not the ones stored with the cached result
+    const again = await analyzeImage(IMAGE, "job-3");
+    assert.equal(again.cached, true);
+    assert.deepEqual(again.previouslySeen?.map((s) => s.jobId).sort(), ["job-1", "job-2"]);
+  });
+});
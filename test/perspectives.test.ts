@@ -0,0 +1,71 @@
+// Bias perspectives: the registry, locale and per-request selection, and detectBias over any number of lenses.
+
+import { test, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { detectBias } from "../lib/biasDetection";
+import { setLLMProvider } from "../lib/llmProvider";
+import {
+  getPerspectiveRegistry,
+  perspectivesForLocale,
+  resolvePerspectives,
+  setPerspectiveRegistry,
+  unknownPerspectives,
+} from "../lib/perspectives";
+import { ScriptedProvider } from "../lib/scriptedProvider";
+import { setupTestEnv } from "./support/env";
+
+afterEach(() => setPerspectiveRegistry(null));
+
+test("the registry defines the default trio and regional and subject lenses", () => {
+  const registry = getPerspectiveRegistry();
+  assert.deepEqual(registry.defaultSet, ["us-left", "us-right", "international"]);
+  for (const id of ["eu", "uk", "south-asia", "latam", "public-health"]) assert.ok(registry.perspectives[id], id);
+  assert.equal(registry.perspectives["public-health"].locale, null);
+  assert.deepEqual(unknownPerspectives(["eu", "mars", "constructor"]), ["mars", "constructor"]);
+});
+
+test("perspectives are chosen by request, then locale, then the default", () => {
+  assert.deepEqual(resolvePerspectives().map((p) => p.id), ["us-left", "us-right", "international"]);
+  assert.deepEqual(resolvePerspectives({ locale: "en-GB" }).map((p) => p.id), ["uk", "eu", "international"]);
+  // Language fallback, Accept-Language headers and unmapped locales
+  assert.deepEqual(perspectivesForLocale("pt-BR"), ["latam", "international"]);
+  assert.deepEqual(perspectivesForLocale("es-ES"), ["eu", "international"]);
+  assert.deepEqual(perspectivesForLocale("hi-IN,hi;q=0.9,en;q=0.8"), ["south-asia", "international"]);
+  assert.equal(perspectivesForLocale("ja-JP"), null);
+  assert.deepEqual(resolvePerspectives({ locale: "ja-JP" }).map((p) => p.id), ["us-left", "us-right", "international"]);
+  // An explicit list wins over the locale
+  assert.deepEqual(resolvePerspectives({ ids: ["public-health"], locale: "en-GB" }).map((p) => p.id), ["public-health"]);
+  assert.throws(() => resolvePerspectives({ ids: ["mars"] }), /unknown perspective "mars"/);
+});
+
+test("invalid registries are rejected", () => {
+  const p = (id: string, prompt = "Analyze claims.") => ({ id, label: id, prompt });
+  assert.throws(() => setPerspectiveRegistry({ default: ["a"], perspectives: [p("b")] }), /unknown perspective "a"/);
+  assert.throws(() => setPerspectiveRegistry({ default: ["a"], perspectives: [p("a", "Use {braces}")] }), /curly braces/);
+  assert.throws(() => setPerspectiveRegistry({ default: ["a"], perspectives: [p("a"), p("a")] }), /duplicate id/);
+  assert.throws(() => setPerspectiveRegistry({ default: ["a"], locales: { fr: [] }, perspectives: [p("a")] }), /locale "fr"/);
+});
+
+test("detectBias aggregates any number of perspectives into a keyed map", async () => {
+  const restore = setupTestEnv();
+  const replies: Record<string, object> = {
+    "VerifyShot-Bias-eu-v4": { politicalBias: -0.2, sensationalism: 0.4, reasoning: "Loaded framing." },
+    "VerifyShot-Bias-uk-v4": { politicalBias: 0.4, sensationalism: 0.6, reasoning: "Tabloid exaggeration." },
+  };
+  const provider = new ScriptedProvider(Object.entries(replies).map(([assistant, reply]) => ({ assistant, reply: JSON.stringify(reply) })));
+  setLLMProvider(provider);
+  try {
+    const { document, claims } = await detectBias(["Energy prices doubled"], "Energy prices DOUBLED!", [], resolvePerspectives({ ids: ["eu", "uk"] }));
+    assert.equal(provider.calls.length, 2);
+    assert.deepEqual(Object.keys(document.perspectives!), ["eu", "uk"]);
+    assert.equal(document.perspectives!.uk.label, "UK");
+    assert.equal(document.politicalBias, 0.1);
+    // 0.7 × the perspectives' 0.5 + 0.3 × the lexical 0.1 ("DOUBLED")
+    assert.equal(document.sensationalism, 0.38);
+    assert.equal(document.agreement, "medium");
+    assert.match(document.explanation, /^2-perspective analysis \(EU, UK\)/);
+    assert.equal(claims[0].sensationalism, 0.35);
+  } finally {
+    restore();
+  }
+});
@@ -0,0 +1,129 @@
+// Golden tests for the analysis pipeline, chat and bias detection.
+// Every HTTP call is answered from test/fixtures (see support/httpFixtures).
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { analyzeImage, withAnalysisTimeout } from "../lib/analyzer";
+import { chatAboutJob } from "../lib/agents";
+import { detectBias } from "../lib/biasDetection";
+import { setVerifierPanel } from "../lib/verifierPanel";
+import { AnalysisEvent, Source } from "../lib/types";
+import { expectGolden } from "./support/golden";
+import { withFixture } from "./support/env";
+
+test("analyzeImage: bike-lane screenshot", async () => {
+  const events: AnalysisEvent[] = [];
+  let extractionRequest: string | undefined;
+  const result = await withFixture("analyze-bike-lanes", async (session) => {
+    const analyzed = await analyzeImage("https://blob.example.com/screenshot.png", "job-golden-1", (e) => { events.push(e); });
+    extractionRequest = session.requests
+      .map((r) => decodeURIComponent((r.body ?? "").replace(/\+/g, " ")))
+      .find((body) => body.includes("Extract factual claims"));
+    return analyzed;
+  });
+
+  assert.equal(result.claims.length, 2);
+  // The post's author and date go to claim extraction with the text
+  assert.match(extractionRequest ?? "", /Post context: Posted by Daily Planet News \(@dailyplanet\) on twitter, 2023-03-03/);
+  const counts: Record<string, number> = {};
+  for (const e of events) counts[e.type] = (counts[e.type] || 0) + 1;
+  assert.deepEqual(counts, {
+    ocr_completed: 1,
+    claims_extracted: 1,
+    claim_sources_found: 2,
+    claim_verified: 4,
+    bias_completed: 1,
+    result: 1,
+  });
+  assert.equal(events[0].type, "ocr_completed");
+  assert.equal(events[1].type, "claims_extracted");
+  // The neutral budget figure is penalized less than the exaggerated quote
+  assert.ok(result.claims[0].biasSignals.sensationalism < result.biasSignals.sensationalism);
+  assert.ok(result.claims[1].biasSignals.sensationalism > result.biasSignals.sensationalism);
+
+  await expectGolden("analyze-bike-lanes", result);
+});
+
+test("analyzeImage: a failing panel model is excluded, not counted as mixed", async () => {
+  setVerifierPanel({
+    version: 1,
+    quorum: { minModels: 1, minWeightFraction: 0.5 },
+    models: [
+      { id: "gpt-4o", displayName: "GPT-4o", provider: "openai", model: "gpt-4o", weight: 1, enabled: true },
+      { id: "claude", displayName: "Claude 3.5 Sonnet", provider: "anthropic", model: "claude-3-5-sonnet-20241022", weight: 1, enabled: true },
+      // Not in the fixture: its assistant can't be created, so every call fails
+      { id: "llama", displayName: "Llama 3.1 70B", provider: "openrouter", model: "meta-llama/llama-3.1-70b-instruct", weight: 1, enabled: true },
+    ],
+  });
+  try {
+    const result = await withFixture("analyze-bike-lanes", () =>
+      analyzeImage("https://blob.example.com/screenshot.png", "job-golden-2", undefined, { bypassCache: true })
+    );
+    const [first] = result.claims;
+    assert.equal(first.verdict, "likely_true");
+    assert.deepEqual(first.modelVerdicts?.map((m) => m.modelName), ["GPT-4o", "Claude 3.5 Sonnet"]);
+    assert.match(first.explanation, /2\/2 "likely_true"; 1 failed model\(s\) excluded/);
+  } finally {
+    setVerifierPanel(null);
+  }
+});
+
+test("withAnalysisTimeout: aborts the pipeline on timeout and clears its timer otherwise", async () => {
+  // Settled in time: the (long) timer must not keep the process alive
+  assert.equal(await withAnalysisTimeout(async () => "done", 60_000), "done");
+
+  let aborted: AbortSignal | undefined;
+  await assert.rejects(
+    withAnalysisTimeout((signal) => {
+      aborted = signal;
+      return new Promise(() => {});
+    }, 20),
+    /timed out after 0.02 seconds/
+  );
+  assert.equal(aborted?.aborted, true);
+
+  // An aborted run stops at its next stage without emitting anything
+  const events: AnalysisEvent[] = [];
+  const controller = new AbortController();
+  controller.abort(new Error("Analysis timed out after 55 seconds"));
+  await assert.rejects(
+    analyzeImage("https://blob.example.com/screenshot.png", "job-aborted", (e) => { events.push(e); }, { signal: controller.signal }),
+    /timed out after 55 seconds/
+  );
+  assert.deepEqual(events, []);
+});
+
+test("detectBias: loaded political claim", async () => {
+  const sources: Source[] = [{
+    title: "Senate vote recap",
+    url: "https://apnews.com/article/senate-vote",
+    domain: "apnews.com",
+    date: "2023-05-01",
+    dateConfidence: "high",
+    credibilityScore: 0.95,
+    snippet: "The Senate passed the bill 52-48.",
+  }];
+  const bias = await withFixture("bias-loaded-claim", () =>
+    detectBias(
+      ["The radical senators rammed through a disastrous bill that will destroy the economy"],
+      "BREAKING: Radical senators ram through DISASTROUS bill!!",
+      sources
+    )
+  );
+
+  // The fixture's models rate only the whole text: the claim falls back to those scores,
+  // blended with the lexical analysis of its own wording
+  assert.equal(bias.claims.length, 1);
+  assert.equal(bias.claims[0].politicalBias, bias.document.politicalBias);
+  assert.deepEqual(bias.claims[0].lexical!.features.map((f) => f.kind), ["loaded_language"]);
+  assert.ok(bias.document.lexical!.spans.some((s) => s.kind === "all_caps" && s.text === "DISASTROUS"));
+  await expectGolden("bias-loaded-claim", bias);
+});
+
+test("chatAboutJob: standard reply and deep research with web search", async () => {
+  await withFixture("chat-bike-lanes", async () => {
+    const standard = await chatAboutJob("job-golden-1", "", "Is the $12 million figure right?", "standard");
+    const deep = await chatAboutJob("job-golden-1", "", "Research the bike lane commute claim", "deep_research");
+    await expectGolden("chat-bike-lanes", { standard, deep });
+  });
+});
@@ -0,0 +1,85 @@
+// Platform profiles: lookup and validation, and the prompts extractClaims and generateOCRSummary build from them.
+
+import { test, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { extractClaims, generateOCRSummary } from "../lib/agents";
+import { setLLMProvider } from "../lib/llmProvider";
+import { getPlatformProfile, getPlatformProfiles, setPlatformProfiles } from "../lib/platformProfiles";
+import { parseScreenshotMetadata } from "../lib/screenshotMetadata";
+import { ScriptedProvider } from "../lib/scriptedProvider";
+import { setupTestEnv } from "./support/env";
+
+afterEach(() => setPlatformProfiles(null));
+
+const QUOTE_TWEET = [
+  "Sam Rivera @samrivera · 2h",
+  "This is simply not true. Ridership fell last year.",
+  "Metro Transit @metrotransit · Mar 1",
+  "Bus ridership grew 20% in 2023, the largest rise in a decade.",
+  "12 Reposts 4 Quotes 230 Likes",
+].join("\n");
+
+test("every platform has a profile, and unknown ones get the generic profile", () => {
+  const { profiles } = getPlatformProfiles();
+  for (const id of ["generic", "twitter", "reddit", "instagram", "tiktok", "facebook", "news"]) assert.ok(profiles[id], id);
+  assert.equal(getPlatformProfile("reddit").id, "reddit");
+  assert.equal(getPlatformProfile("unknown").id, "generic");
+  assert.equal(getPlatformProfile().id, "generic");
+});
+
+test("invalid profiles are rejected", () => {
+  const p = (id: string, extraction = "Ignore the chrome.") => ({ id, label: id, extraction, summary: "Be brief." });
+  assert.throws(() => setPlatformProfiles({ profiles: [p("twitter")] }), /"generic" profile/);
+  assert.throws(() => setPlatformProfiles({ profiles: [p("generic", "Use {braces}")] }), /curly braces/);
+  assert.throws(() => setPlatformProfiles({ profiles: [p("generic"), p("generic")] }), /duplicate id/);
+  assert.throws(() => setPlatformProfiles({ profiles: [p("Generic Profile")] }), /lowercase/);
+});
+
+test("extractClaims uses the platform's prompt, sends the post without chrome and keeps quoted claims apart", async () => {
+  const restore = setupTestEnv();
+  const provider = new ScriptedProvider([{
+    assistant: "VerifyShot-ClaimExtractor-twitter-v5",
+    reply: JSON.stringify([
+      { text: "Bus ridership fell last year", quoted: false },
+      { text: "Bus ridership grew 20% in 2023", quoted: true },
+    ]),
+  }]);
+  setLLMProvider(provider);
+  try {
+    const metadata = parseScreenshotMetadata(QUOTE_TWEET);
+    assert.equal(metadata.platform, "twitter");
+    const claims = await extractClaims(QUOTE_TWEET, metadata);
+    assert.deepEqual(claims, [
+      { text: "Bus ridership fell last year" },
+      { text: "Bus ridership grew 20% in 2023", quoted: true },
+    ]);
+
+    const [call] = provider.calls;
+    assert.match(call.systemPrompt, /post on X \(Twitter\)/);
+    assert.match(call.message, /^Post context: Posted by Sam Rivera \(@samrivera\) on twitter/);
+    assert.match(call.message, /\[Quoted post by Metro Transit\]\nBus ridership grew 20%/);
+    assert.doesNotMatch(call.message, /230 Likes/);
+  } finally {
+    restore();
+  }
+});
+
+test("generateOCRSummary picks the assistant for the platform, generic when unknown", async () => {
+  const restore = setupTestEnv();
+  const provider = new ScriptedProvider([{ assistant: /Summarizer/, reply: "A post about transit ridership." }]);
+  setLLMProvider(provider);
+  try {
+    setPlatformProfiles({
+      profiles: [
+        { id: "generic", extraction: "Ignore the chrome.", summary: "Mention the source." },
+        { id: "reddit", extraction: "Ignore votes.", summary: "Name the subreddit." },
+      ],
+    });
+    await generateOCRSummary("r/transit · Posted by u/busfan 5h\nBus ridership grew 20% in 2023.", { platform: "reddit", body: "Bus ridership grew 20% in 2023." });
+    await generateOCRSummary("Bus ridership grew 20% in 2023.");
+    assert.deepEqual(provider.calls.map((c) => c.assistant), ["VerifyShot-Summarizer-reddit-v3", "VerifyShot-Summarizer-generic-v3"]);
+    assert.match(provider.calls[0].systemPrompt, /Name the subreddit\./);
+  } finally {
+    restore();
+  }
+});
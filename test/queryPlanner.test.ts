@@ -0,0 +1,59 @@
+// Query planning per claim and merging of per-query search results.
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { planQueries, extractDateWindow, extractEntities } from "../lib/queryPlanner";
+import { mergeQueryResults, canonicalUrl } from "../lib/search";
+import { Source } from "../lib/types";
+
+test("long claims get entity, figure and date queries instead of the raw sentence", () => {
+  const plan = planQueries("The city council approved a $12 million budget for new bike lanes on March 2, 2023");
+  assert.deepEqual(plan, [
+    { kind: "entities_action", query: "city council approved budget bike lanes" },
+    { kind: "number_subject", query: '"$12 million" budget city council approved' },
+    { kind: "date_window", query: "city council approved budget bike lanes March 2023" },
+  ]);
+});
+
+test("quoted phrases are searched verbatim alongside the speaker", () => {
+  const plan = planQueries('Mayor Lane said the project will "cut commute times in half"');
+  assert.deepEqual(plan.map((q) => q.kind), ["entities_action", "quoted_phrase", "full_claim"]);
+  assert.equal(plan[1].query, '"cut commute times in half" Mayor Lane');
+});
+
+test("short claims with nothing to extract fall back to the claim itself", () => {
+  assert.deepEqual(planQueries("the water is wet today"), [
+    { kind: "full_claim", query: "the water is wet today" },
+  ]);
+});
+
+test("entities skip sentence-initial stopwords and month names", () => {
+  assert.deepEqual(extractEntities("The WHO said in March that @CDCgov and Pfizer Inc agreed"), [
+    "WHO", "@CDCgov", "Pfizer Inc",
+  ]);
+});
+
+test("date windows cover the month or year the claim names", () => {
+  assert.deepEqual(extractDateWindow("on 2024-04-08 the eclipse"), { from: "2024-04-01", to: "2024-04-30", label: "April 2024" });
+  assert.deepEqual(extractDateWindow("unemployment in 2021 rose"), { from: "2021-01-01", to: "2021-12-31", label: "2021" });
+  assert.equal(extractDateWindow("no dates here"), null);
+  // A word that merely ends in a month abbreviation is not a month
+  assert.deepEqual(extractDateWindow("Omar 2019 rally footage, filmed in 2019"), { from: "2019-01-01", to: "2019-12-31", label: "2019" });
+  assert.equal(extractDateWindow("to the dismay 2023 brought"), null);
+});
+
+test("merged results are deduplicated round-robin and keep their query", () => {
+  const src = (url: string): Source => ({ title: url, url, domain: "", date: "2023-01-01", dateConfidence: "high", credibilityScore: 0.5, snippet: "" });
+  const plan = [{ kind: "entities_action" as const, query: "a" }, { kind: "quoted_phrase" as const, query: "b" }];
+  const merged = mergeQueryResults(plan, [
+    [src("https://x.com/1"), src("https://x.com/2"), src("https://x.com/3")],
+    [src("https://www.x.com/1/?utm_source=t#top"), src("https://y.com/1")],
+  ], 3);
+
+  assert.deepEqual(merged.map((s) => [s.url, s.matchedQuery]), [
+    ["https://x.com/1", "a"],
+    ["https://x.com/2", "a"],
+    ["https://y.com/1", "b"],
+  ]);
+  assert.equal(canonicalUrl("https://WWW.X.com/1/?utm_source=t&id=2#top"), "https://x.com/1/?id=2");
+});
@@ -0,0 +1,110 @@
+// Result cache: image-hash and OCR-text-hash hits, freshness window and bypass.
+
+import { test, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { analyzeImage } from "../lib/analyzer";
+import { MemoryJobStore } from "../lib/jobStore";
+import { normalizeOcrText, setResultCacheStore, CachedResult } from "../lib/resultCache";
+import { withFixture } from "./support/env";
+
+const IMAGE = "https://blob.example.com/screenshot.png";
+const RECOMPRESSED = "https://blob.example.com/screenshot-recompressed.jpg";
+
+let store: MemoryJobStore<CachedResult>;
+
+beforeEach(() => {
+  store = new MemoryJobStore<CachedResult>();
+  setResultCacheStore(store);
+});
+
+test("normalizeOcrText folds case, spacing and smart quotes", () => {
+  assert.equal(
+    normalizeOcrText("  Mayor said “CUT commute   times”\n— in HALF!  "),
+    normalizeOcrText('mayor said "cut commute times" in half')
+  );
+});
+
+test("a repeated image is served from cache without any LLM call", async () => {
+  await withFixture("analyze-bike-lanes", async (session) => {
+    const first = await analyzeImage(IMAGE, "job-1");
+    assert.equal(first.cached, undefined);
+
+    const before = session.requests.length;
+    const second = await analyzeImage(IMAGE, "job-2");
+    const repeatRequests = session.requests.slice(before);
+
+    assert.equal(second.cached, true);
+    assert.ok(second.cachedAt);
+    assert.equal(second.jobId, "job-2");
+    assert.equal(second.aggregateTrustScore, first.aggregateTrustScore);
+    assert.deepEqual(repeatRequests.map((r) => r.url), [IMAGE]);
+  });
+});
+
+test("different bytes with the same OCR text hit the text hash", async () => {
+  await withFixture("analyze-bike-lanes", async (session) => {
+    const first = await analyzeImage(IMAGE, "job-1");
+
+    const before = session.requests.length;
+    const copy = await analyzeImage(RECOMPRESSED, "job-2");
+    const copyRequests = session.requests.slice(before);
+
+    assert.equal(copy.cached, true);
+    assert.equal(copy.imageUrl, RECOMPRESSED);
+    assert.deepEqual(copy.claims, first.claims);
+    assert.equal(copyRequests.length, 2); // download + OCR only
+    assert.ok(!copyRequests.some((r) => r.url.includes("backboard")));
+
+    // The new bytes are now cached too: a third request skips OCR
+    const again = session.requests.length;
+    await analyzeImage(RECOMPRESSED, "job-3");
+    assert.equal(session.requests.length - again, 1);
+  });
+});
+
+test("bypassCache and maxAge force a fresh run", async () => {
+  await withFixture("analyze-bike-lanes", async (session) => {
+    await analyzeImage(IMAGE, "job-1");
+
+    const before = session.requests.length;
+    const bypassed = await analyzeImage(IMAGE, "job-2", undefined, { bypassCache: true });
+    assert.equal(bypassed.cached, undefined);
+    assert.ok(session.requests.slice(before).some((r) => r.url.includes("backboard")));
+
+    // Backdate every entry by an hour
+    const hourAgo = new Date(Date.now() - 3600_000).toISOString();
+    for (const { key, value } of await store.list()) await store.set(key, { ...value, cachedAt: hourAgo });
+
+    const lenient = await analyzeImage(IMAGE, "job-3");
+    assert.equal(lenient.cached, true);
+    const strict = await analyzeImage(IMAGE, "job-4", undefined, { cacheMaxAgeSeconds: 60 });
+    assert.equal(strict.cached, undefined);
+  });
+});
+
+test("RESULT_CACHE_MAX_AGE_SECONDS=0 disables the cache", async () => {
+  await withFixture("analyze-bike-lanes", async () => {
+    process.env.RESULT_CACHE_MAX_AGE_SECONDS = "0";
+    await analyzeImage(IMAGE, "job-1");
+    const second = await analyzeImage(IMAGE, "job-2");
+    assert.equal(second.cached, undefined);
+  });
+});
+
+test("results scored with another profile are cached separately", async () => {
+  await withFixture("analyze-bike-lanes", async (session) => {
+    const general = await analyzeImage(IMAGE, "job-1");
+    assert.deepEqual(general.scoreProfile, { id: "general", version: 1 });
+
+    const before = session.requests.length;
+    const science = await analyzeImage(IMAGE, "job-2", undefined, { profile: "science" });
+    assert.equal(science.cached, undefined);
+    assert.equal(science.scoreProfile.id, "science");
+    assert.ok(session.requests.slice(before).some((r) => r.url.includes("backboard")));
+
+    assert.equal((await analyzeImage(IMAGE, "job-3", undefined, { profile: "science" })).cached, true);
+    const again = await analyzeImage(IMAGE, "job-4");
+    assert.equal(again.cached, true);
+    assert.equal(again.scoreProfile.id, "general");
+  });
+});
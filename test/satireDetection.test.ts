@@ -0,0 +1,97 @@
+// Satire / fabricator origin: domains and handles, the post's own author and link preview, search results, and
+// the pipeline's "satire" outcome that skips verification.
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { analyzeImage } from "../lib/analyzer";
+import { detectOriginInSources, detectOriginInText, detectPostOrigin } from "../lib/satireDetection";
+import { parseScreenshotMetadata } from "../lib/screenshotMetadata";
+import { AnalysisEvent, Source } from "../lib/types";
+import { withFixture } from "./support/env";
+
+function source(domain: string, category: Source["category"]): Source {
+  return { title: domain, url: `https://${domain}/a`, domain, date: "2024-01-01", dateConfidence: "high", credibilityScore: 0.5, category, snippet: "" };
+}
+
+test("satire domains and handles in the screenshot text are detected", () => {
+  const fromDomain = detectOriginInText("Area man wins argument\nwww.TheOnion.com/news/area-man");
+  assert.equal(fromDomain?.kind, "satire");
+  assert.deepEqual(fromDomain?.matches, ["theonion.com"]);
+
+  const fromHandle = detectOriginInText("The Babylon Bee @TheBabylonBee · 2h\nLocal church …");
+  assert.equal(fromHandle?.kind, "satire");
+  assert.equal(fromHandle?.name, "The Babylon Bee");
+  assert.deepEqual(fromHandle?.matches, ["@TheBabylonBee"]);
+});
+
+test("known fabricators are flagged; ordinary domains, emails and numbers are not", () => {
+  assert.equal(detectOriginInText("BREAKING via abcnews.com.co: …")?.kind, "fabricator");
+  assert.equal(detectOriginInText("Read more at reuters.com — GPT 3.5 and v2.0 released"), null);
+  // An email's local part is not a handle
+  assert.equal(detectOriginInText("contact tips@theonion on Monday"), null);
+  // Satire wins when a screenshot shows both kinds
+  assert.equal(detectOriginInText("worldnewsdailyreport.com and theonion.com")?.kind, "satire");
+});
+
+test("only the post's author and link preview give it an origin, not outlets it mentions", () => {
+  const satirePost = parseScreenshotMetadata("The Onion @TheOnion · Jun 1\nNation's Cats Unanimously Vote To Knock Everything Off Tables Starting Monday\ntheonion.com\n1.2K Reposts 8K Likes");
+  assert.deepEqual(detectPostOrigin(satirePost)?.matches, ["theonion.com", "@TheOnion"]);
+
+  // A fact-check that names the satire site and account is not satire itself
+  const factCheck = parseScreenshotMetadata("Reuters Fact Check @ReutersFacts · 2h\nFact check: the viral story about cats voting came from babylonbee.com, a satire site. Quoting @TheBabylonBee is not news.\n1.2K Reposts 8K Likes");
+  assert.equal(detectPostOrigin(factCheck), null);
+  assert.equal(detectPostOrigin(factCheck, true), null);
+  assert.equal(detectPostOrigin(parseScreenshotMetadata("")), null);
+
+  // Quoting a satire post: the quoted claims are satire, the poster's own words are not
+  const quoting = parseScreenshotMetadata([
+    "Jane Smith",
+    "@janesmith",
+    "People actually believe this one. Cats did not vote on anything.",
+    "The Babylon Bee @TheBabylonBee · Feb 3, 2023",
+    "Nation's Cats Vote To Knock Everything Off Tables",
+    "10:42 AM · Feb 4, 2023 · 1.2M Views",
+  ].join("\n"));
+  assert.equal(detectPostOrigin(quoting), null);
+  assert.deepEqual(detectPostOrigin(quoting, true)?.matches, ["@TheBabylonBee"]);
+});
+
+test("a claim whose sources are mostly satire outlets has a satire origin", () => {
+  const mostlySatire = detectOriginInSources([
+    source("theonion.com", "satire"),
+    source("babylonbee.com", "satire"),
+    source("reuters.com", "wire_service"),
+  ]);
+  assert.equal(mostlySatire?.kind, "satire");
+  assert.equal(mostlySatire?.detectedIn, "sources");
+  assert.deepEqual(mostlySatire?.matches, ["theonion.com", "babylonbee.com"]);
+
+  assert.equal(
+    detectOriginInSources([source("theonion.com", "satire"), source("reuters.com", "wire_service"), source("apnews.com", "wire_service")]),
+    null
+  );
+  assert.equal(detectOriginInSources([]), null);
+});
+
+test("analyzeImage: a satire post gets the satire outcome without verification", async () => {
+  const events: AnalysisEvent[] = [];
+  await withFixture("analyze-satire", async (session) => {
+    const result = await analyzeImage("https://blob.example.com/satire.png", "job-satire", (e) => { events.push(e); });
+
+    assert.equal(result.claims.length, 1);
+    const [claim] = result.claims;
+    assert.equal(claim.verdict, "satire");
+    assert.equal(claim.trustScore, 0);
+    assert.deepEqual(claim.modelVerdicts, []);
+    assert.equal(claim.origin?.detectedIn, "screenshot");
+    assert.deepEqual(claim.origin?.matches, ["theonion.com", "@TheOnion"]);
+    assert.match(claim.explanation, /The Onion .*satire outlet/);
+    assert.equal(claim.sources[0]?.category, "satire");
+    assert.equal(result.trustLabel, "Satire");
+
+    assert.equal(events.filter((e) => e.type === "claim_verified").length, 0);
+    // Neither verifiers nor source pages were called
+    assert.equal(session.requests.filter((r) => r.body?.includes("CLAIM TO VERIFY")).length, 0);
+    assert.equal(session.requests.filter((r) => r.url.includes("theonion.com")).length, 0);
+  });
+});
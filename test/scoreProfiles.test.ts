@@ -0,0 +1,73 @@
+// Trust-score profiles: config validation, per-profile weights, labels and missing-source handling.
+
+import { test, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { getScoreProfile, getScoreProfiles, hasScoreProfile, setScoreProfiles } from "../lib/scoreProfiles";
+import { clampToVerdict, trustLabel, trustScoreBreakdown } from "../lib/trustScore";
+import { Source } from "../lib/types";
+
+const source = (domain: string, credibilityScore: number, stance: Source["stance"]): Source => ({
+  title: domain, url: `https://${domain}/a`, domain, date: "2023-01-01", dateConfidence: "high", credibilityScore, snippet: "", stance,
+});
+
+afterEach(() => setScoreProfiles(null));
+
+test("config/scoreProfiles.json defines the shipped profiles with general as default", () => {
+  const set = getScoreProfiles();
+  assert.equal(set.defaultProfile, "general");
+  assert.deepEqual(Object.keys(set.profiles).sort(), ["breaking-news", "finance", "general", "science"]);
+  assert.equal(getScoreProfile().id, "general");
+  assert.equal(hasScoreProfile("science"), true);
+  assert.equal(hasScoreProfile("toString"), false);
+  assert.throws(() => getScoreProfile("sports"), /Unknown score profile "sports"/);
+});
+
+test("weights and components come from the profile", () => {
+  const sources = [source("reuters.com", 0.95, "supports"), source("apnews.com", 0.95, "supports")];
+  const general = trustScoreBreakdown(sources, 0.8, 0.2, 1);
+  const science = trustScoreBreakdown(sources, 0.8, 0.2, 1, null, getScoreProfile("science"));
+  assert.equal(science.components.find((c) => c.key === "agreement")?.weight, 0.15);
+  assert.equal(general.components.find((c) => c.key === "agreement")?.weight, 0.1);
+  assert.equal(getScoreProfile("finance").weights.biasPenalty, 0.1);
+  assert.equal(trustScoreBreakdown(sources, 0.8, 1, 1, null, getScoreProfile("finance"))
+    .components.find((c) => c.key === "biasPenalty")?.contribution, -10);
+});
+
+test("label thresholds and verdict clamping follow the profile", () => {
+  const science = getScoreProfile("science");
+  assert.equal(trustLabel(77), "Likely True");
+  assert.equal(trustLabel(77, science), "Unverified / Mixed");
+  assert.equal(trustLabel(42, science), "Likely Misleading");
+  assert.equal(clampToVerdict(60, "likely_true", science), 80);
+  assert.equal(clampToVerdict(60, "likely_misleading", science), 44);
+});
+
+test("claims without sources are reweighted, capped or left unscored per profile", () => {
+  const general = trustScoreBreakdown([], 0.95, 0, 1);
+  assert.equal(general.components.find((c) => c.key === "modelConsensus")?.weight, 0.5);
+  assert.deepEqual(general.adjustments, []);
+
+  const breaking = trustScoreBreakdown([], 0.95, 0, 1, null, getScoreProfile("breaking-news"));
+  assert.equal(breaking.score, 69);
+  assert.equal(breaking.adjustments[0].to, 69);
+  assert.match(breaking.adjustments[0].reason, /caps claims without sources at 69/);
+
+  const science = trustScoreBreakdown([], 0.95, 0, 1, null, getScoreProfile("science"));
+  assert.equal(science.score, 0);
+  assert.deepEqual(science.components, []);
+  assert.match(science.adjustments[0].reason, /does not score claims without sources/);
+});
+
+test("invalid profile sets are rejected", () => {
+  const weights = { sourceQuality: 0.4, modelConsensus: 0.3, recency: 0.1, agreement: 0.1, modelAgreementBoost: 0.1, biasPenalty: 0.05 };
+  const labels = { likelyTrue: 75, mixed: 40 };
+  assert.throws(() => setScoreProfiles({ default: "a", profiles: { b: { weights, labels } } }), /default "a" is not defined/);
+  assert.throws(() => setScoreProfiles({ profiles: { general: { weights: { ...weights, recency: 2 }, labels } } }), /"recency"/);
+  assert.throws(() => setScoreProfiles({ profiles: { general: { weights, labels: { likelyTrue: 40, mixed: 75 } } } }), /labels/);
+  assert.throws(() => setScoreProfiles({ profiles: { general: { weights, labels, missingSources: { policy: "cap" } } } }), /maxScore/);
+
+  setScoreProfiles({ version: 7, profiles: { general: { weights, labels } } });
+  assert.equal(getScoreProfiles().version, 7);
+  // Without missing-source weights the profile's own weights apply
+  assert.deepEqual(getScoreProfile().missingSources.weights, weights);
+});
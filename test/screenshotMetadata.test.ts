@@ -0,0 +1,80 @@
+// Screenshot metadata: platform, author, timestamp, body, quoted post, link card and counts read from OCR text.
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { describePost, detectPlatform, isChromeLine, parseEngagement, parseScreenshotMetadata } from "../lib/screenshotMetadata";
+
+test("a tweet: author, date, body and counts", () => {
+  const meta = parseScreenshotMetadata(
+    'Daily Planet News @dailyplanet · Mar 3, 2023\nThe city council approved a $12 million budget.\nMayor Lane said it will "cut commute times in half".\n1.2K Reposts  4.5K Likes'
+  );
+  assert.equal(meta.platform, "twitter");
+  assert.deepEqual(meta.author, { displayName: "Daily Planet News", handle: "@dailyplanet" });
+  assert.equal(meta.postedAt, "2023-03-03");
+  assert.equal(meta.body, 'The city council approved a $12 million budget.\nMayor Lane said it will "cut commute times in half".');
+  assert.deepEqual(meta.engagement, { reposts: 1200, likes: 4500 });
+  assert.equal(describePost(meta), "Posted by Daily Planet News (@dailyplanet) on twitter, 2023-03-03");
+});
+
+test("a quote tweet keeps the quoted post apart; the detailed-view timestamp dates the reply", () => {
+  const meta = parseScreenshotMetadata([
+    "← Post",
+    "Jane Smith ✓",
+    "@janesmith",
+    "This is wrong. Unemployment fell to 3.4% last month.",
+    "News Wire @newswire · Feb 3, 2023",
+    "Unemployment rose to 5% in January",
+    "10:42 AM · Feb 4, 2023 · 1.2M Views",
+    "120 Replies 3,400 Reposts 210 Quotes 12K Likes 45 Bookmarks",
+    "Trending in United States",
+  ].join("\n"));
+  assert.deepEqual(meta.author, { displayName: "Jane Smith", handle: "@janesmith", verified: true });
+  assert.equal(meta.postedAt, "2023-02-04");
+  assert.equal(meta.body, "This is wrong. Unemployment fell to 3.4% last month.");
+  assert.deepEqual(meta.quotedPost, {
+    author: { displayName: "News Wire", handle: "@newswire" },
+    postedAtText: "Feb 3, 2023",
+    body: "Unemployment rose to 5% in January",
+  });
+  assert.deepEqual(meta.engagement, { views: 1200000, replies: 120, reposts: 3400, quotes: 210, likes: 12000, bookmarks: 45 });
+});
+
+test("a link card is split from the body; relative and year-less times are kept as shown", () => {
+  const meta = parseScreenshotMetadata("The Onion @TheOnion · Jun 1\nNation's Cats Vote To Knock Everything Off Tables\ntheonion.com\n1.2K Reposts 8K Likes");
+  assert.deepEqual(meta.linkPreview, { domain: "theonion.com" });
+  assert.equal(meta.postedAtText, "Jun 1");
+  assert.equal(meta.postedAt, undefined);
+  assert.equal(meta.body, "Nation's Cats Vote To Knock Everything Off Tables");
+});
+
+test("Reddit, news articles and Instagram captions", () => {
+  const reddit = parseScreenshotMetadata("r/news • Posted by u/throwaway123 • 5h\nCity bans cars from downtown\nThe council voted 7-2.\n4.5k upvotes 1.2k comments Share Award");
+  assert.equal(reddit.platform, "reddit");
+  assert.deepEqual(reddit.author, { handle: "u/throwaway123" });
+  assert.equal(reddit.postedAtText, "5h");
+  assert.equal(reddit.body, "City bans cars from downtown\nThe council voted 7-2.");
+
+  const article = parseScreenshotMetadata("Senate passes climate bill\nBy Jane Doe and John Roe\nUpdated March 3, 2023 10:00 AM\n5 min read\nThe Senate passed the bill 51-50.");
+  assert.equal(article.platform, "news");
+  assert.equal(article.author?.displayName, "Jane Doe and John Roe");
+  assert.equal(article.postedAt, "2023-03-03");
+  assert.equal(article.body, "Senate passes climate bill\nThe Senate passed the bill 51-50.");
+
+  const insta = parseScreenshotMetadata("Liked by friend and 1,234 others\nnatgeo The Amazon lost 11,000 square km of forest in 2022.\nView all 230 comments");
+  assert.equal(insta.platform, "instagram");
+  assert.deepEqual(insta.author, { handle: "@natgeo" });
+  assert.equal(insta.body, "The Amazon lost 11,000 square km of forest in 2022.");
+  assert.deepEqual(insta.engagement, { likes: 1235, comments: 230 });
+});
+
+test("plain text: unknown platform, the text as the body", () => {
+  const meta = parseScreenshotMetadata("Coffee cures the flu, a new study finds.");
+  assert.equal(meta.platform, "unknown");
+  assert.equal(meta.body, "Coffee cures the flu, a new study finds.");
+  assert.equal(meta.author, undefined);
+  assert.equal(describePost(meta), null);
+  assert.equal(detectPlatform(""), "unknown");
+  assert.equal(parseEngagement("no counts here"), undefined);
+  assert.ok(isChromeLine("Show this thread"));
+  assert.ok(!isChromeLine("12 people were injured"));
+});
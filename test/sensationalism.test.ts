@@ -0,0 +1,57 @@
+// Lexical sensationalism: features, highlight offsets, and the fallback when every perspective fails.
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { detectBias } from "../lib/biasDetection";
+import { setLLMProvider } from "../lib/llmProvider";
+import { ScriptedProvider } from "../lib/scriptedProvider";
+import { analyzeSensationalism } from "../lib/sensationalism";
+import { setupTestEnv } from "./support/env";
+
+const LOUD = "SHOCKING: You won't believe what they RAMMED THROUGH Congress!!! Experts say it will destroy everything. Everyone knows it.";
+
+test("each feature is found, and spans point at the text they highlight", () => {
+  const result = analyzeSensationalism(LOUD);
+  assert.deepEqual(
+    result.features.map((f) => f.kind).sort(),
+    ["absolutist", "all_caps", "clickbait", "exclamation", "loaded_language", "unsourced_attribution"]
+  );
+  for (const span of result.spans) assert.equal(LOUD.slice(span.start, span.end), span.text);
+  assert.ok(result.spans.some((s) => s.kind === "all_caps" && s.text === "RAMMED THROUGH"));
+  assert.ok(result.spans.some((s) => s.kind === "exclamation" && s.text === "!!!"));
+  assert.ok(result.spans.some((s) => s.kind === "unsourced_attribution" && s.text === "Experts say"));
+  assert.deepEqual(result.spans.map((s) => s.start), [...result.spans.map((s) => s.start)].sort((a, b) => a - b));
+  assert.ok(result.score > 0.7, `score ${result.score}`);
+});
+
+test("neutral reporting scores near zero; acronyms and single ! are not flagged", () => {
+  const result = analyzeSensationalism("The city council approved 12 new bike lanes on Tuesday, according to the NYC DOT. Construction starts in May!");
+  assert.equal(result.score, 0);
+  assert.deepEqual(result.spans, []);
+  assert.deepEqual(analyzeSensationalism("   "), { score: 0, features: [], spans: [] });
+});
+
+test("longer texts need more matches for the same score", () => {
+  const short = analyzeSensationalism("A shocking, disastrous, outrageous vote.");
+  const long = analyzeSensationalism(`A shocking, disastrous, outrageous vote. ${"The council met and discussed the budget. ".repeat(30)}`);
+  assert.equal(short.features[0].count, long.features[0].count);
+  assert.ok(long.score < short.score);
+});
+
+test("detectBias falls back to the lexical score when every perspective fails", async () => {
+  const restore = setupTestEnv();
+  setLLMProvider(new ScriptedProvider([]));
+  try {
+    const { document, claims } = await detectBias(["Congress RAMMED THROUGH a shocking bill!!!", "The vote was 52-48"], LOUD, []);
+    assert.equal(document.sensationalism, analyzeSensationalism(LOUD).score);
+    assert.equal(document.politicalBias, 0);
+    assert.equal(document.confidence, 0);
+    assert.deepEqual(document.perspectives, {});
+    assert.match(document.explanation, /unavailable \(all 3 calls failed\)/);
+    assert.ok(document.lexical!.spans.length > 0);
+    assert.ok(claims[0].sensationalism > 0.3);
+    assert.equal(claims[1].sensationalism, 0);
+  } finally {
+    restore();
+  }
+});
@@ -0,0 +1,43 @@
+// Source publication dates: URL patterns, nearby text, reported dates and precedence.
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { dateFromText, dateFromUrl, sourceDate, toIsoDate } from "../lib/sourceDates";
+
+test("dates are read from common URL layouts", () => {
+  assert.deepEqual(dateFromUrl("https://www.nytimes.com/2023/03/02/nyregion/bike-lanes.html"), { date: "2023-03-02", confidence: "medium" });
+  assert.deepEqual(dateFromUrl("https://www.reuters.com/world/us/city-council-bike-lanes-2023-03-02/"), { date: "2023-03-02", confidence: "medium" });
+  assert.deepEqual(dateFromUrl("https://www.politifact.com/factchecks/2023/mar/06/mayor-lane/"), { date: "2023-03-06", confidence: "medium" });
+  assert.deepEqual(dateFromUrl("https://example.com/news/20230302/story"), { date: "2023-03-02", confidence: "medium" });
+  assert.deepEqual(dateFromUrl("https://blog.example.com/2023/03/bike-lanes/"), { date: "2023-03-01", confidence: "low" });
+  // Article ids and impossible dates are not dates
+  assert.equal(dateFromUrl("https://example.com/article/2023-02-30-story"), null);
+  assert.equal(dateFromUrl("https://apnews.com/article/123456789"), null);
+});
+
+test("dates near a citation are found in several formats", () => {
+  assert.deepEqual(dateFromText("Published March 2nd, 2023 by the desk"), { date: "2023-03-02", confidence: "low" });
+  assert.deepEqual(dateFromText("Updated 6 Mar 2023 10:00"), { date: "2023-03-06", confidence: "low" });
+  assert.equal(dateFromText("Budget rises 12% in 2023"), null);
+});
+
+test("the most reliable candidate wins and unknown dates stay null", () => {
+  // A model-reported date (low) loses to a dated URL (medium)
+  assert.deepEqual(
+    sourceDate("https://www.reuters.com/world/story-2023-03-02/", [], { value: "2024-01-01", confidence: "low" }),
+    { date: "2023-03-02", dateConfidence: "medium" }
+  );
+  // Search API metadata (high) beats the URL
+  assert.deepEqual(
+    sourceDate("https://www.reuters.com/world/story-2023-03-02/", [], { value: "2023-03-03T08:00:00Z", confidence: "high" }),
+    { date: "2023-03-03", dateConfidence: "high" }
+  );
+  assert.deepEqual(sourceDate("https://example.com/story", ["Mar 3, 2023 — The council voted"]), { date: "2023-03-03", dateConfidence: "low" });
+  assert.deepEqual(sourceDate("https://example.com/story", ["no date here"]), { date: null, dateConfidence: "none" });
+});
+
+test("implausible timestamps are rejected", () => {
+  assert.equal(toIsoDate("1970-01-01T00:00:00Z"), null);
+  assert.equal(toIsoDate("2999-01-01"), null);
+  assert.equal(toIsoDate("Thu, 02 Mar 2023 10:00:00 GMT"), "2023-03-02");
+});
@@ -0,0 +1,141 @@
+// Job event log and /api/job/[id]/stream: event order, resume after Last-Event-ID and the terminal event.
+
+import { test, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import handler from "../api/job/[id]/stream";
+import { appendJobEvent, createJob, getJobEvents, MemoryJobStore, setJobError, setJobResult, setJobStore, startJob } from "../lib/jobStore";
+import { AnalysisEvent, AnalysisResult } from "../lib/types";
+import { setupTestEnv } from "./support/env";
+
+interface StreamedEvent {
+  id?: string;
+  event: string;
+  data: any;
+}
+
+// Call the handler with a minimal request/response pair; resolves with the status and parsed events
+async function stream(jobId: string, headers: Record<string, string> = {}, query: Record<string, string> = {}) {
+  let status = 0;
+  let body = "";
+  const res: any = {
+    setHeader: () => res,
+    writeHead: (code: number) => { status = code; return res; },
+    write: (chunk: string) => { body += chunk; return true; },
+    end: () => res,
+    status: (code: number) => { status = code; return res; },
+    json: (value: unknown) => { body = JSON.stringify(value); return res; },
+  };
+  const req: any = { method: "GET", query: { id: jobId, ...query }, headers, on: () => req };
+  await handler(req, res);
+
+  const events: StreamedEvent[] = body
+    .split("\n\n")
+    .filter((block) => block.includes("data: "))
+    .map((block) => {
+      const field = (name: string) => block.split("\n").find((l) => l.startsWith(`${name}: `))?.slice(name.length + 2);
+      return { id: field("id"), event: field("event")!, data: JSON.parse(field("data")!) };
+    });
+  return { status, body, events };
+}
+
+const RESULT = { jobId: "job-1", imageUrl: "https://blob.example.com/a.png", claims: [] } as unknown as AnalysisResult;
+
+const EVENTS: AnalysisEvent[] = [
+  { type: "ocr_completed", ocrText: "Bus ridership grew 20% in 2023.", metadata: { platform: "unknown", body: "Bus ridership grew 20% in 2023." } },
+  { type: "claims_extracted", claims: [{ id: "c1", text: "Bus ridership grew 20% in 2023" }] },
+  { type: "claim_sources_found", claimId: "c1", sources: [] },
+  { type: "result", result: RESULT },
+];
+
+let jobN = 0;
+let jobId: string;
+
+beforeEach(async () => {
+  setJobStore(new MemoryJobStore());
+  // The event log's memory store is shared across tests: use a fresh id each time
+  jobId = `job-stream-${++jobN}`;
+  await createJob(jobId, "https://blob.example.com/a.png");
+});
+
+test("appendJobEvent keeps events in call order, even when not awaited", async () => {
+  const appends = EVENTS.map((event) => appendJobEvent(jobId, event));
+  await Promise.all(appends);
+  assert.deepEqual((await getJobEvents(jobId)).map((e) => e.type), EVENTS.map((e) => e.type));
+});
+
+test("a finished job's log is replayed with ids, and a reconnect resumes after Last-Event-ID", async () => {
+  await startJob(jobId);
+  for (const event of EVENTS) await appendJobEvent(jobId, event);
+  await setJobResult(jobId, RESULT);
+
+  const full = await stream(jobId);
+  assert.equal(full.status, 200);
+  assert.deepEqual(full.events.map((e) => [e.id, e.event]), [
+    ["0", "ocr_completed"],
+    ["1", "claims_extracted"],
+    ["2", "claim_sources_found"],
+    ["3", "result"],
+  ]);
+  assert.match(full.body, /^retry: 2000\n\n/);
+
+  const resumed = await stream(jobId, { "last-event-id": "1" });
+  assert.deepEqual(resumed.events.map((e) => e.id), ["2", "3"]);
+  const viaQuery = await stream(jobId, {}, { since: "2" });
+  assert.deepEqual(viaQuery.events.map((e) => e.id), ["3"]);
+  // Nothing left to send: the stream just ends
+  assert.deepEqual((await stream(jobId, { "last-event-id": "3" })).events, []);
+});
+
+test("a job finished without an event log still gets a terminal event", async () => {
+  await startJob(jobId);
+  await setJobResult(jobId, RESULT);
+  const done = await stream(jobId);
+  assert.deepEqual(done.events.map((e) => [e.id, e.event]), [["0", "result"]]);
+  assert.equal(done.events[0].data.result.jobId, "job-1");
+
+  const failed = `${jobId}-failed`;
+  await createJob(failed, "https://blob.example.com/a.png");
+  await startJob(failed);
+  await setJobError(failed, "OCR failed: quota exceeded");
+  const error = await stream(failed);
+  assert.deepEqual(error.events.map((e) => [e.id, e.event, e.data.error]), [["0", "error", "OCR failed: quota exceeded"]]);
+});
+
+test("events of a running job are streamed until it finishes", async () => {
+  await startJob(jobId);
+  await appendJobEvent(jobId, EVENTS[0]);
+  setTimeout(async () => {
+    for (const event of EVENTS.slice(1)) await appendJobEvent(jobId, event);
+    await setJobResult(jobId, RESULT);
+  }, 50);
+
+  const live = await stream(jobId);
+  assert.deepEqual(live.events.map((e) => e.event), EVENTS.map((e) => e.type));
+  assert.equal(live.events[live.events.length - 1].event, "result");
+});
+
+test("a pending multi-image job is started with all of its images", async () => {
+  const restore = setupTestEnv();
+  const realFetch = globalThis.fetch;
+  const requested: string[] = [];
+  globalThis.fetch = (async (input: any) => {
+    requested.push(typeof input === "string" ? input : input.url);
+    return new Response("gone", { status: 404, statusText: "Not Found" });
+  }) as typeof fetch;
+  try {
+    const urls = ["https://blob.example.com/a.png", "https://blob.example.com/b.png"];
+    await createJob(`${jobId}-multi`, urls[0], urls);
+    const run = await stream(`${jobId}-multi`);
+    assert.equal(run.events[run.events.length - 1].event, "error");
+    assert.deepEqual(requested.sort(), urls);
+  } finally {
+    globalThis.fetch = realFetch;
+    restore();
+  }
+});
+
+test("unknown jobs are a 404", async () => {
+  const missing = await stream("no-such-job");
+  assert.equal(missing.status, 404);
+  assert.deepEqual(missing.events, []);
+});
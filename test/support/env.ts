@@ -0,0 +1,54 @@
+// ──────────────────────────────────────────────
+//  Shared test environment: dummy API keys (the
+//  fixtures answer every request), a fresh Backboard
+//  provider per test, offline DNS and a silenced console.
+// ──────────────────────────────────────────────
+
+import { BackboardProvider } from "../../lib/backboardHttp";
+import { setHostLookup } from "../../lib/evidence";
+import { setLLMProvider } from "../../lib/llmProvider";
+import { FixtureSession, useFixture } from "./httpFixtures";
+
+const CONSOLE_METHODS = ["log", "warn", "error"] as const;
+
+export function setupTestEnv(): () => void {
+  const savedEnv = { ...process.env };
+  if (process.env.FIXTURES !== "record") {
+    process.env.BACKBOARD_API_KEY = "test-backboard-key";
+    process.env.GEMINI_API_KEY = "test-gemini-key";
+    delete process.env.GOOGLE_SEARCH_API_KEY;
+    delete process.env.GOOGLE_SEARCH_ENGINE_ID;
+    // No DNS offline: every source host resolves to a public address
+    setHostLookup(async () => ["93.184.216.34"]);
+  }
+  delete process.env.LLM_PROVIDER;
+  delete process.env.JOB_STORE;
+  delete process.env.REDIS_URL;
+
+  // Fresh provider: no cached assistants or threads from earlier tests
+  setLLMProvider(new BackboardProvider());
+
+  const saved = CONSOLE_METHODS.map((m) => console[m]);
+  if (!process.env.TEST_VERBOSE) {
+    for (const m of CONSOLE_METHODS) console[m] = () => {};
+  }
+
+  return () => {
+    CONSOLE_METHODS.forEach((m, i) => { console[m] = saved[i]; });
+    setLLMProvider(null);
+    setHostLookup(null);
+    process.env = savedEnv;
+  };
+}
+
+/** Run `run` with the test env set up and fetch answered from fixture `name`. */
+export async function withFixture<T>(name: string, run: (session: FixtureSession) => Promise<T>): Promise<T> {
+  const restoreEnv = setupTestEnv();
+  const session = await useFixture(name);
+  try {
+    return await run(session);
+  } finally {
+    await session.stop();
+    restoreEnv();
+  }
+}
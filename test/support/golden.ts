@@ -0,0 +1,48 @@
+// ──────────────────────────────────────────────
+//  Golden files — compare a result against
+//  test/golden/<name>.json. Run with UPDATE_GOLDEN=1
+//  to (re)write the files, then review the diff.
+//  Wall-clock fields are masked so reruns are stable.
+// ──────────────────────────────────────────────
+
+import assert from "node:assert/strict";
+import { promises as fs } from "fs";
+import path from "path";
+
+export const GOLDEN_DIR = path.join(__dirname, "..", "golden");
+
+const VOLATILE_KEYS = new Set(["generatedAt", "createdAt", "updatedAt", "cachedAt"]);
+const TODAY = new Date().toISOString().split("T")[0];
+
+function normalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(normalize);
+  if (value && typeof value === "object") {
+    const out: Record<string, unknown> = {};
+    for (const [key, v] of Object.entries(value)) {
+      out[key] = VOLATILE_KEYS.has(key) && v ? "<timestamp>" : normalize(v);
+    }
+    return out;
+  }
+  // Sources without a published date fall back to "today"
+  if (value === TODAY) return "<today>";
+  return value;
+}
+
+export async function expectGolden(name: string, actual: unknown): Promise<void> {
+  const file = path.join(GOLDEN_DIR, `${name}.json`);
+  const normalized = normalize(JSON.parse(JSON.stringify(actual)));
+
+  if (process.env.UPDATE_GOLDEN === "1") {
+    await fs.mkdir(GOLDEN_DIR, { recursive: true });
+    await fs.writeFile(file, JSON.stringify(normalized, null, 2) + "\n", "utf8");
+    return;
+  }
+
+  let expected: unknown;
+  try {
+    expected = JSON.parse(await fs.readFile(file, "utf8"));
+  } catch (err: any) {
+    throw new Error(`Missing golden file ${name}.json — run with UPDATE_GOLDEN=1 (${err.message})`);
+  }
+  assert.deepEqual(normalized, expected);
+}
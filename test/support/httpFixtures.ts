@@ -0,0 +1,179 @@
+// ──────────────────────────────────────────────
+//  Record/replay layer around global fetch
+//
+//  FIXTURES=replay (default) — answer every request from
+//    test/fixtures/<name>.json; unmatched requests fail loudly.
+//  FIXTURES=record — call the real APIs (needs real keys in env)
+//    and write every exchange to the fixture file.
+//
+//  Matching: method + URL (secrets stripped, Backboard ids
+//  collapsed to :id) + body. Hand-edited fixtures may replace
+//  the exact "body" with "bodyIncludes" substrings, checked
+//  against the decoded body. Exchanges are consumed in order;
+//  once all matches are used the last one is replayed again.
+// ──────────────────────────────────────────────
+
+import { promises as fs } from "fs";
+import path from "path";
+
+export interface FixtureRequest {
+  method: string;
+  url: string;
+  body?: string;
+  bodyIncludes?: string[];
+}
+
+export interface FixtureResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body: string;
+  bodyEncoding?: "utf8" | "base64";
+}
+
+export interface FixtureExchange {
+  request: FixtureRequest;
+  response: FixtureResponse;
+}
+
+export interface FixtureFile {
+  description?: string;
+  exchanges: FixtureExchange[];
+}
+
+export const FIXTURE_DIR = path.join(__dirname, "..", "fixtures");
+
+// Query params that carry credentials — never written to disk, ignored when matching
+const SECRET_PARAMS = ["key", "api_key", "apikey", "token"];
+
+export function normalizeUrl(raw: string): string {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return raw;
+  }
+  for (const param of SECRET_PARAMS) url.searchParams.delete(param);
+  // Backboard assistant/thread/run ids differ between recordings
+  url.pathname = url.pathname.replace(/\/(assistants|threads|runs)\/[^/]+/g, "/$1/:id");
+  return url.toString();
+}
+
+function decodeBody(body: string): string {
+  try {
+    return decodeURIComponent(body.replace(/\+/g, " "));
+  } catch {
+    return body;
+  }
+}
+
+function bodyToString(body: unknown): string {
+  if (body === undefined || body === null) return "";
+  if (typeof body === "string") return body;
+  if (body instanceof URLSearchParams) return body.toString();
+  if (Buffer.isBuffer(body)) return body.toString("utf8");
+  return String(body);
+}
+
+function requestMatches(fixture: FixtureRequest, method: string, url: string, body: string): boolean {
+  if (fixture.method.toUpperCase() !== method) return false;
+  if (normalizeUrl(fixture.url) !== url) return false;
+  if (fixture.bodyIncludes) {
+    const decoded = decodeBody(body);
+    return fixture.bodyIncludes.every((part) => decoded.includes(part));
+  }
+  return fixture.body === undefined || fixture.body === body;
+}
+
+function toResponse(fixture: FixtureResponse): Response {
+  const payload = fixture.bodyEncoding === "base64"
+    ? Buffer.from(fixture.body, "base64")
+    : fixture.body;
+  return new Response(payload, {
+    status: fixture.status,
+    headers: fixture.headers ?? { "content-type": "application/json" },
+  });
+}
+
+export interface FixtureSession {
+  /** Requests that were answered, in order (replay) or recorded (record). */
+  readonly requests: FixtureRequest[];
+  /** Restore the real fetch; in record mode, write the fixture file. */
+  stop(): Promise<void>;
+}
+
+export async function useFixture(name: string, mode = process.env.FIXTURES || "replay"): Promise<FixtureSession> {
+  const file = path.join(FIXTURE_DIR, `${name}.json`);
+  const realFetch = globalThis.fetch;
+  const requests: FixtureRequest[] = [];
+
+  if (mode === "record") {
+    const exchanges: FixtureExchange[] = [];
+    globalThis.fetch = (async (input: any, init?: any) => {
+      const method = (init?.method || "GET").toUpperCase();
+      const url = typeof input === "string" ? input : input.url;
+      const body = bodyToString(init?.body);
+      const res = await realFetch(input, init);
+      const buf = Buffer.from(await res.clone().arrayBuffer());
+      const contentType = res.headers.get("content-type") || "";
+      const isText = /json|text|xml|html|urlencoded/.test(contentType);
+      const request: FixtureRequest = { method, url: normalizeUrl(url), ...(body ? { body } : {}) };
+      requests.push(request);
+      exchanges.push({
+        request,
+        response: {
+          status: res.status,
+          headers: contentType ? { "content-type": contentType } : {},
+          body: isText ? buf.toString("utf8") : buf.toString("base64"),
+          ...(isText ? {} : { bodyEncoding: "base64" as const }),
+        },
+      });
+      return res;
+    }) as typeof fetch;
+
+    return {
+      requests,
+      async stop() {
+        globalThis.fetch = realFetch;
+        const fixture: FixtureFile = { description: `Recorded ${new Date().toISOString()}`, exchanges };
+        await fs.mkdir(FIXTURE_DIR, { recursive: true });
+        await fs.writeFile(file, JSON.stringify(fixture, null, 2) + "\n", "utf8");
+      },
+    };
+  }
+
+  const fixture = JSON.parse(await fs.readFile(file, "utf8")) as FixtureFile;
+  const used = new Set<number>();
+
+  globalThis.fetch = (async (input: any, init?: any) => {
+    const method = (init?.method || "GET").toUpperCase();
+    const url = normalizeUrl(typeof input === "string" ? input : input.url);
+    const body = bodyToString(init?.body);
+
+    let lastMatch = -1;
+    let chosen = -1;
+    fixture.exchanges.forEach((ex, i) => {
+      if (chosen !== -1 || !requestMatches(ex.request, method, url, body)) return;
+      if (used.has(i)) lastMatch = i;
+      else chosen = i;
+    });
+    if (chosen === -1) chosen = lastMatch;
+    if (chosen === -1) {
+      throw new Error(
+        `No fixture in ${name}.json for ${method} ${url}\n` +
+        `Body: ${decodeBody(body).slice(0, 300)}\n` +
+        `Re-record with FIXTURES=record or add an exchange by hand.`
+      );
+    }
+
+    used.add(chosen);
+    requests.push({ method, url, ...(body ? { body } : {}) });
+    return toResponse(fixture.exchanges[chosen].response);
+  }) as typeof fetch;
+
+  return {
+    requests,
+    async stop() {
+      globalThis.fetch = realFetch;
+    },
+  };
+}
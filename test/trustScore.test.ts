@@ -0,0 +1,95 @@
+// Trust score: stance-aware source quality, independent agreement, recency and the breakdown.
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  adjustScore,
+  aggregateTrustScore,
+  calculateRecencyScore,
+  calculateTrustScore,
+  clampToVerdict,
+  independentAgreement,
+  stanceAwareQuality,
+  trustScoreBreakdown,
+} from "../lib/trustScore";
+import { extractDateWindow } from "../lib/queryPlanner";
+import { DateConfidence, Source, SourceStance } from "../lib/types";
+
+const source = (domain: string, credibilityScore: number, stance?: SourceStance): Source => ({
+  title: domain, url: `https://${domain}/a`, domain, date: "2023-01-01", dateConfidence: "high", credibilityScore, snippet: "", stance,
+});
+
+test("a credible refuting source lowers the score instead of raising it", () => {
+  const supported = calculateTrustScore([source("reuters.com", 0.95, "supports")], 0.8, 0, 1);
+  const refuted = calculateTrustScore([source("reuters.com", 0.95, "refutes")], 0.8, 0, 1);
+  const noSource = calculateTrustScore([], 0.8, 0, 1);
+  assert.ok(refuted < noSource && noSource < supported, `${refuted} < ${noSource} < ${supported}`);
+});
+
+test("source quality is credibility-weighted support minus refutation", () => {
+  assert.equal(stanceAwareQuality([source("a.com", 0.9, "supports"), source("b.com", 0.5, "refutes")]), 0.6);
+  assert.equal(stanceAwareQuality([source("a.com", 0.9, "neutral")]), 0.5);
+  // No stances at all (verifiers failed): plain average credibility
+  assert.equal(stanceAwareQuality([source("a.com", 0.9), source("b.com", 0.5)]), 0.7);
+});
+
+test("independent agreement counts each domain once", () => {
+  const syndicated = [
+    source("apnews.com", 0.95, "supports"),
+    source("apnews.com", 0.95, "supports"),
+    source("politifact.com", 0.88, "refutes"),
+  ];
+  assert.equal(independentAgreement(syndicated).toFixed(3), ((0.95 - 0.88) / (0.95 + 0.88)).toFixed(3));
+  assert.equal(independentAgreement([source("a.com", 0.9, "refutes")]), 0);
+});
+
+const dated = (date: string | null, dateConfidence: DateConfidence = "high"): Source => ({
+  title: "t", url: "https://a.com/t", domain: "a.com", date, dateConfidence, credibilityScore: 0.8, snippet: "",
+});
+
+test("recency measures closeness to the claim's time frame, not just age", () => {
+  const frame = extractDateWindow("approved on March 2, 2023")!;
+  assert.equal(calculateRecencyScore([dated("2023-03-03")], frame), 1);
+  // Well before the event: can't be reporting on it
+  assert.ok(calculateRecencyScore([dated("2021-06-01")], frame) < 0.3);
+  // A year-later retrospective still counts, for less
+  const later = calculateRecencyScore([dated("2024-01-15")], frame);
+  assert.ok(later > 0.3 && later < 1, String(later));
+  // Without a time frame, a 2023 article is simply old
+  assert.equal(calculateRecencyScore([dated("2023-03-03")]), 0.4);
+});
+
+test("unknown dates are neutral and low-confidence dates count less", () => {
+  assert.equal(calculateRecencyScore([dated(null, "none")]), 0.5);
+  const frame = extractDateWindow("in March 2023")!;
+  const mixed = calculateRecencyScore([dated("2023-03-03", "high"), dated("2019-01-01", "low")], frame);
+  // (1 × 1 + 0.5 × 0.2) / 1.5
+  assert.equal(mixed.toFixed(3), (1.1 / 1.5).toFixed(3));
+});
+
+test("the breakdown's contributions add up to the score", () => {
+  const sources = [source("reuters.com", 0.95, "supports"), source("blog.example.com", 0.5, "neutral")];
+  const breakdown = trustScoreBreakdown(sources, 0.8, 0.2, 1);
+  assert.deepEqual(breakdown.components.map((c) => c.key),
+    ["sourceQuality", "modelConsensus", "recency", "agreement", "modelAgreementBoost", "biasPenalty"]);
+  const sum = breakdown.components.reduce((s, c) => s + c.contribution, 0);
+  assert.ok(Math.abs(sum - breakdown.raw) < 0.5, `${sum} vs ${breakdown.raw}`);
+  assert.equal(breakdown.score, Math.round(breakdown.raw));
+  assert.equal(breakdown.score, calculateTrustScore(sources, 0.8, 0.2, 1));
+  assert.equal(breakdown.components.find((c) => c.key === "biasPenalty")?.contribution, -1);
+});
+
+test("post-formula adjustments and the aggregate are recorded", () => {
+  const breakdown = trustScoreBreakdown([source("a.com", 0.9, "refutes")], 0.9, 0, 1);
+  const anchored = adjustScore(breakdown, clampToVerdict(breakdown.score, "likely_misleading"), "Anchored by fact-check");
+  assert.equal(anchored.score, 39);
+  assert.deepEqual(anchored.adjustments, [{ reason: "Anchored by fact-check", from: breakdown.score, to: 39 }]);
+  // No-op adjustments are not recorded
+  assert.equal(adjustScore(anchored, 39, "again"), anchored);
+
+  assert.deepEqual(aggregateTrustScore([{ id: "c1", trustScore: 84 }, { id: "c2", trustScore: 37 }]), {
+    method: "mean",
+    claims: [{ claimId: "c1", trustScore: 84 }, { claimId: "c2", trustScore: 37 }],
+    score: 61,
+  });
+});